@@ -1,4 +1,5 @@
 import js from '@eslint/js';
+import globals from 'globals';
 import tseslint from '@typescript-eslint/eslint-plugin';
 import tsparser from '@typescript-eslint/parser';
 
@@ -13,6 +14,12 @@ export default [
         sourceType: 'module',
         project: './tsconfig.json',
       },
+      globals: {
+        ...globals.node,
+        // @types/node 声明的类型全局
+        NodeJS: 'readonly',
+        BufferEncoding: 'readonly',
+      },
     },
     plugins: {
       '@typescript-eslint': tseslint,
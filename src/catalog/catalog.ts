@@ -0,0 +1,55 @@
+import type { Catalog, CatalogEntry } from './types.js';
+
+/**
+ * 生成语言文件内容时的附加信息
+ */
+export interface CatalogBuildOptions {
+  /** 当前语言 */
+  locale: string;
+  /** 源语言 */
+  sourceLocale?: string;
+  /** 源语言文本，用于双语格式 */
+  sourceMessages?: Record<string, string>;
+}
+
+/**
+ * 将语言文件内容转换为 key → 文本
+ */
+export function catalogToMessages(catalog: Catalog): Record<string, string> {
+  const messages: Record<string, string> = {};
+
+  for (const entry of catalog.entries) {
+    messages[entry.key] = entry.value;
+  }
+
+  return messages;
+}
+
+/**
+ * 根据 key → 文本 生成语言文件内容
+ * 保留已有文件中同一key的注释、上下文和源码引用，以及文件级信息
+ */
+export function buildCatalog(
+  messages: Record<string, string>,
+  previous: Catalog | null,
+  options: CatalogBuildOptions
+): Catalog {
+  const previousEntries = new Map<string, CatalogEntry>(
+    (previous?.entries || []).map(entry => [entry.key, entry])
+  );
+
+  const entries = Object.entries(messages).map(([key, value]) => {
+    const entry: CatalogEntry = { ...previousEntries.get(key), key, value };
+    const source = options.sourceMessages?.[key];
+    if (source !== undefined) {
+      entry.source = source;
+    }
+    return entry;
+  });
+
+  const catalog: Catalog = { ...previous, locale: options.locale, entries };
+  if (options.sourceLocale) {
+    catalog.sourceLocale = options.sourceLocale;
+  }
+  return catalog;
+}
@@ -0,0 +1,159 @@
+import type { Catalog, CatalogEntry, CatalogFormat } from '../types.js';
+
+/**
+ * 转义 Android 字符串资源
+ */
+function escapeAndroidString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, '\\\'')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/^([@?])/, '\\$1');
+
+  // 首尾或连续空白需要用双引号包裹，否则会被 Android 合并
+  return /^\s|\s$|\s{2}/.test(value) ? `"${escaped}"` : escaped;
+}
+
+/**
+ * 转义XML属性值
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * 还原XML实体
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 还原 Android 字符串资源中的转义字符
+ */
+function unescapeAndroidString(value: string): string {
+  let text = value.trim();
+  // 整体用双引号包裹的文本保留原样空白
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    text = text.slice(1, -1);
+  }
+
+  return decodeEntities(text.replace(/\\u([0-9a-fA-F]{4})|\\(.)/g, (_, code: string | undefined, char: string | undefined) => {
+    if (code) {
+      return String.fromCharCode(parseInt(code, 16));
+    }
+    switch (char) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      default: return char ?? '';
+    }
+  }));
+}
+
+/**
+ * 读取标签属性
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeEntities(match[2]);
+  }
+
+  return attributes;
+}
+
+/**
+ * Android strings.xml 语言文件
+ * 保留条目上方的注释和 translatable 等属性，plurals、string-array 等其他资源原样保留
+ */
+export class AndroidCatalogFormat implements CatalogFormat {
+  readonly name = 'android';
+  readonly extensions = ['.xml'];
+
+  parse(content: string): Catalog {
+    const catalog: Catalog = { entries: [] };
+    if (!content.trim()) {
+      return catalog;
+    }
+
+    const body = /<resources\b[^>]*>([\s\S]*)<\/resources>/.exec(content);
+    if (!body) {
+      if (/<resources\b[^>]*\/>/.test(content)) {
+        return catalog;
+      }
+      throw new Error('文件格式无效，缺少 resources 根元素');
+    }
+
+    const resources: string[] = [];
+    let comments: string[] = [];
+    const pattern = /<!--([\s\S]*?)-->|<string\b([^>]*?)(?:\/>|>([\s\S]*?)<\/string>)|<(plurals|string-array|integer-array|array)\b[\s\S]*?<\/\4>/g;
+
+    for (const match of body[1].matchAll(pattern)) {
+      if (match[1] !== undefined) {
+        comments.push(match[1].trim());
+        continue;
+      }
+
+      if (match[4]) {
+        // 暂不支持的资源类型，连同前面的注释原样保留
+        resources.push([...comments.map(comment => `<!-- ${comment} -->`), match[0]].join('\n    '));
+        comments = [];
+        continue;
+      }
+
+      const { name, ...attributes } = parseAttributes(match[2]);
+      if (!name) {
+        comments = [];
+        continue;
+      }
+
+      const entry: CatalogEntry = { key: name, value: unescapeAndroidString(match[3] ?? '') };
+      if (comments.length > 0) {
+        entry.comments = comments;
+      }
+      if (Object.keys(attributes).length > 0) {
+        entry.extra = { attributes };
+      }
+      catalog.entries.push(entry);
+      comments = [];
+    }
+
+    if (resources.length > 0) {
+      catalog.headers = { resources };
+    }
+
+    return catalog;
+  }
+
+  serialize(catalog: Catalog): string {
+    const lines: string[] = ['<?xml version="1.0" encoding="utf-8"?>', '<resources>'];
+
+    for (const entry of catalog.entries) {
+      entry.comments?.forEach(comment => lines.push(`    <!-- ${comment} -->`));
+
+      const attributes = Object.entries((entry.extra?.attributes || {}) as Record<string, string>)
+        .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+        .join('');
+      lines.push(`    <string name="${escapeAttribute(entry.key)}"${attributes}>${escapeAndroidString(entry.value)}</string>`);
+    }
+
+    const resources = catalog.headers?.resources;
+    if (Array.isArray(resources)) {
+      resources.forEach(resource => lines.push(`    ${resource}`));
+    }
+
+    lines.push('</resources>');
+    return `${lines.join('\n')}\n`;
+  }
+}
@@ -0,0 +1,93 @@
+import type { Catalog, CatalogEntry, CatalogFormat, CatalogSerializeOptions } from '../types.js';
+
+/**
+ * Flutter ARB 语言文件
+ * @key 元数据中的 description 作为注释，context 作为上下文，placeholders 等其余字段原样保留
+ */
+export class ArbCatalogFormat implements CatalogFormat {
+  readonly name = 'arb';
+  readonly extensions = ['.arb'];
+
+  parse(content: string): Catalog {
+    if (!content.trim()) {
+      return { entries: [] };
+    }
+
+    const parsed = JSON.parse(content);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('文件格式无效，应为JSON对象');
+    }
+
+    const catalog: Catalog = { entries: [] };
+    const headers: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+      if (key.startsWith('@@')) {
+        headers[key] = value;
+      } else if (!key.startsWith('@')) {
+        catalog.entries.push(this.toEntry(key, value, parsed[`@${key}`]));
+      }
+    }
+
+    if (typeof headers['@@locale'] === 'string') {
+      catalog.locale = headers['@@locale'];
+    }
+    if (Object.keys(headers).length > 0) {
+      catalog.headers = headers;
+    }
+
+    return catalog;
+  }
+
+  serialize(catalog: Catalog, options: CatalogSerializeOptions): string {
+    // @@locale 始终位于文件开头
+    const data: Record<string, unknown> = { ...(catalog.locale ? { '@@locale': '' } : {}), ...catalog.headers };
+    if (catalog.locale) {
+      data['@@locale'] = catalog.locale;
+    }
+
+    for (const entry of catalog.entries) {
+      data[entry.key] = entry.value;
+
+      const metadata: Record<string, unknown> = {};
+      if (entry.comments?.length) {
+        metadata.description = entry.comments.join('\n');
+      }
+      if (entry.context !== undefined) {
+        metadata.context = entry.context;
+      }
+      Object.assign(metadata, entry.extra?.metadata);
+      if (Object.keys(metadata).length > 0) {
+        data[`@${entry.key}`] = metadata;
+      }
+    }
+
+    return options.prettyJson
+      ? JSON.stringify(data, null, 2)
+      : JSON.stringify(data);
+  }
+
+  /**
+   * 将ARB条目及其元数据转换为语言文件条目
+   */
+  private toEntry(key: string, value: unknown, metadata: unknown): CatalogEntry {
+    const entry: CatalogEntry = { key, value: String(value ?? '') };
+
+    if (typeof metadata !== 'object' || metadata === null) {
+      return entry;
+    }
+
+    const { description, context, ...rest } = metadata as Record<string, unknown>;
+    if (typeof description === 'string' && description) {
+      entry.comments = description.split('\n');
+    }
+    if (typeof context === 'string') {
+      entry.context = context;
+    }
+    if (Object.keys(rest).length > 0) {
+      entry.extra = { metadata: rest };
+    }
+
+    return entry;
+  }
+}
@@ -0,0 +1,120 @@
+import type { Catalog, CatalogEntry, CatalogFormat } from '../types.js';
+
+/**
+ * 转义 .strings 字符串
+ */
+function escapeStringsValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * iOS/macOS Localizable.strings 语言文件
+ * 保留条目上方的 /* *\/ 和 // 注释
+ */
+export class IosStringsCatalogFormat implements CatalogFormat {
+  readonly name = 'ios';
+  readonly extensions = ['.strings'];
+
+  parse(content: string): Catalog {
+    const catalog: Catalog = { entries: [] };
+    let comments: string[] = [];
+    let index = 0;
+
+    const skipWhitespace = () => {
+      while (index < content.length && /\s/.test(content[index])) {
+        index++;
+      }
+    };
+
+    // 读取带引号的字符串或不带引号的标识符
+    const readToken = (): string => {
+      skipWhitespace();
+      if (content[index] !== '"') {
+        const match = /^[\w.-]+/.exec(content.slice(index));
+        if (!match) {
+          throw new Error(`无法识别的内容，位置 ${index}`);
+        }
+        index += match[0].length;
+        return match[0];
+      }
+
+      let value = '';
+      index++;
+      while (index < content.length && content[index] !== '"') {
+        if (content[index] === '\\') {
+          const next = content[index + 1];
+          if (next === 'U' || next === 'u') {
+            value += String.fromCharCode(parseInt(content.slice(index + 2, index + 6), 16));
+            index += 6;
+            continue;
+          }
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next === 'r' ? '\r' : next;
+          index += 2;
+          continue;
+        }
+        value += content[index++];
+      }
+      if (content[index] !== '"') {
+        throw new Error('字符串缺少结束引号');
+      }
+      index++;
+      return value;
+    };
+
+    const expect = (char: string) => {
+      skipWhitespace();
+      if (content[index] !== char) {
+        throw new Error(`缺少 "${char}"，位置 ${index}`);
+      }
+      index++;
+    };
+
+    for (skipWhitespace(); index < content.length; skipWhitespace()) {
+      if (content.startsWith('/*', index)) {
+        const end = content.indexOf('*/', index + 2);
+        if (end === -1) {
+          throw new Error('注释缺少结束标记');
+        }
+        comments.push(content.slice(index + 2, end).trim());
+        index = end + 2;
+        continue;
+      }
+      if (content.startsWith('//', index)) {
+        const end = content.indexOf('\n', index);
+        const stop = end === -1 ? content.length : end;
+        comments.push(content.slice(index + 2, stop).trim());
+        index = stop;
+        continue;
+      }
+
+      const key = readToken();
+      expect('=');
+      const value = readToken();
+      expect(';');
+
+      const entry: CatalogEntry = { key, value };
+      if (comments.length > 0) {
+        entry.comments = comments;
+      }
+      catalog.entries.push(entry);
+      comments = [];
+    }
+
+    return catalog;
+  }
+
+  serialize(catalog: Catalog): string {
+    const blocks = catalog.entries.map(entry => {
+      const lines = (entry.comments || []).map(comment => `/* ${comment.replace(/\*\//g, '* /')} */`);
+      lines.push(`"${escapeStringsValue(entry.key)}" = "${escapeStringsValue(entry.value)}";`);
+      return lines.join('\n');
+    });
+
+    return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+  }
+}
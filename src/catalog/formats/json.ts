@@ -0,0 +1,35 @@
+import type { Catalog, CatalogFormat, CatalogSerializeOptions } from '../types.js';
+import { catalogToMessages } from '../catalog.js';
+import { flattenMessages, unflattenMessages } from '../../utils/locale-structure.js';
+
+/**
+ * JSON 语言文件，支持扁平和嵌套结构
+ */
+export class JsonCatalogFormat implements CatalogFormat {
+  readonly name = 'json';
+  readonly extensions = ['.json'];
+
+  parse(content: string): Catalog {
+    if (!content.trim()) {
+      return { entries: [] };
+    }
+
+    const parsed = JSON.parse(content);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('文件格式无效，应为JSON对象');
+    }
+
+    return {
+      entries: Object.entries(flattenMessages(parsed)).map(([key, value]) => ({ key, value })),
+    };
+  }
+
+  serialize(catalog: Catalog, options: CatalogSerializeOptions): string {
+    const messages = catalogToMessages(catalog);
+    const data = options.structure === 'nested' ? unflattenMessages(messages) : messages;
+
+    return options.prettyJson
+      ? JSON.stringify(data, null, 2)
+      : JSON.stringify(data);
+  }
+}
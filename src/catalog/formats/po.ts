@@ -0,0 +1,302 @@
+import type { Catalog, CatalogEntry, CatalogFormat } from '../types.js';
+
+/**
+ * 解析中的PO条目
+ */
+interface PoBlock {
+  comments: string[];
+  extractedComments: string[];
+  references: string[];
+  flags: string[];
+  previous: string[];
+  fields: Map<string, string>;
+  /** 最近一个关键字，用于拼接续行 */
+  lastField?: string;
+}
+
+/**
+ * 转义PO字符串
+ */
+function escapePoString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+}
+
+/**
+ * 还原PO字符串中的转义字符
+ */
+function unescapePoString(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => {
+    switch (char) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      default: return char;
+    }
+  });
+}
+
+/**
+ * 读取行中带引号的字符串
+ */
+function readQuoted(line: string): string {
+  const match = /"(.*)"\s*$/.exec(line);
+  if (!match) {
+    throw new Error(`无效的PO字符串: ${line}`);
+  }
+  return unescapePoString(match[1]);
+}
+
+/**
+ * 生成PO字段，多行文本按行拆分
+ */
+function formatField(keyword: string, value: string): string {
+  if (!value.includes('\n') || value.indexOf('\n') === value.length - 1) {
+    return `${keyword} "${escapePoString(value)}"`;
+  }
+
+  const lines = value.split(/(?<=\n)/);
+  return [`${keyword} ""`, ...lines.map(line => `"${escapePoString(line)}"`)].join('\n');
+}
+
+/**
+ * gettext PO 语言文件，msgid 为翻译key，msgstr 为文本
+ * 保留译者注释、提取注释、源码引用、标记、msgctxt 以及复数形式
+ */
+export class PoCatalogFormat implements CatalogFormat {
+  readonly name = 'po';
+  readonly extensions = ['.po', '.pot'];
+
+  parse(content: string): Catalog {
+    const catalog: Catalog = { entries: [] };
+    const obsolete: string[] = [];
+
+    for (const block of this.readBlocks(content, obsolete)) {
+      const key = block.fields.get('msgid');
+      if (key === undefined) {
+        continue;
+      }
+
+      // 空 msgid 为文件头
+      if (key === '' && !block.fields.has('msgctxt')) {
+        const headers = this.parseHeader(block.fields.get('msgstr') || '');
+        catalog.headers = { ...catalog.headers, fields: headers };
+        if (block.comments.length > 0) {
+          catalog.headers.comments = block.comments;
+        }
+        if (headers.Language) {
+          catalog.locale = headers.Language;
+        }
+        continue;
+      }
+
+      catalog.entries.push(this.toEntry(key, block));
+    }
+
+    if (obsolete.length > 0) {
+      catalog.headers = { ...catalog.headers, obsolete };
+    }
+
+    return catalog;
+  }
+
+  serialize(catalog: Catalog): string {
+    const blocks: string[] = [this.formatHeader(catalog)];
+
+    for (const entry of catalog.entries) {
+      blocks.push(this.formatEntry(entry));
+    }
+
+    const obsolete = catalog.headers?.obsolete;
+    if (Array.isArray(obsolete) && obsolete.length > 0) {
+      blocks.push(obsolete.join('\n'));
+    }
+
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  /**
+   * 按空行拆分条目，废弃条目（#~）原样收集
+   */
+  private readBlocks(content: string, obsolete: string[]): PoBlock[] {
+    const blocks: PoBlock[] = [];
+    let current: PoBlock | null = null;
+    const createBlock = (): PoBlock => ({
+      comments: [],
+      extractedComments: [],
+      references: [],
+      flags: [],
+      previous: [],
+      fields: new Map(),
+    });
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+
+      if (!line) {
+        current = null;
+        continue;
+      }
+      if (line.startsWith('#~')) {
+        obsolete.push(rawLine);
+        continue;
+      }
+
+      if (!current || (current.lastField && line.startsWith('#'))) {
+        current = createBlock();
+        blocks.push(current);
+      }
+
+      if (line.startsWith('#.')) {
+        current.extractedComments.push(line.slice(2).trim());
+      } else if (line.startsWith('#:')) {
+        current.references.push(...line.slice(2).trim().split(/\s+/).filter(Boolean));
+      } else if (line.startsWith('#,')) {
+        current.flags.push(...line.slice(2).split(',').map(flag => flag.trim()).filter(Boolean));
+      } else if (line.startsWith('#|')) {
+        current.previous.push(line.slice(2).trim());
+      } else if (line.startsWith('#')) {
+        current.comments.push(line.slice(1).replace(/^ /, ''));
+      } else if (line.startsWith('"')) {
+        if (!current.lastField) {
+          throw new Error(`无效的PO续行: ${line}`);
+        }
+        current.fields.set(current.lastField, current.fields.get(current.lastField) + readQuoted(line));
+      } else {
+        const match = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+/.exec(line);
+        if (!match) {
+          throw new Error(`无法识别的PO内容: ${line}`);
+        }
+        // 新的 msgid/msgctxt 出现在已有 msgstr 之后时开始新条目
+        if ((match[1] === 'msgid' || match[1] === 'msgctxt') && current.lastField?.startsWith('msgstr')) {
+          current = createBlock();
+          blocks.push(current);
+        }
+        current.fields.set(match[1], readQuoted(line));
+        current.lastField = match[1];
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * 将PO条目转换为语言文件条目
+   */
+  private toEntry(key: string, block: PoBlock): CatalogEntry {
+    const entry: CatalogEntry = {
+      key,
+      value: block.fields.get('msgstr') ?? block.fields.get('msgstr[0]') ?? '',
+    };
+
+    if (block.comments.length > 0) {
+      entry.comments = block.comments;
+    }
+    if (block.references.length > 0) {
+      entry.references = block.references;
+    }
+    const context = block.fields.get('msgctxt');
+    if (context !== undefined) {
+      entry.context = context;
+    }
+
+    const extra: Record<string, unknown> = {};
+    if (block.extractedComments.length > 0) {
+      extra.extractedComments = block.extractedComments;
+    }
+    if (block.flags.length > 0) {
+      extra.flags = block.flags;
+    }
+    if (block.previous.length > 0) {
+      extra.previous = block.previous;
+    }
+    if (block.fields.has('msgid_plural')) {
+      extra.msgidPlural = block.fields.get('msgid_plural');
+      extra.pluralForms = [...block.fields.entries()]
+        .filter(([field]) => /^msgstr\[[1-9]\d*\]$/.test(field))
+        .map(([, value]) => value);
+    }
+    if (Object.keys(extra).length > 0) {
+      entry.extra = extra;
+    }
+
+    return entry;
+  }
+
+  /**
+   * 解析文件头中的 "名称: 值" 字段
+   */
+  private parseHeader(header: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+
+    for (const line of header.split('\n')) {
+      const index = line.indexOf(':');
+      if (index > 0) {
+        fields[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * 生成文件头，保留已有字段并更新语言
+   */
+  private formatHeader(catalog: Catalog): string {
+    const fields: Record<string, string> = { ...(catalog.headers?.fields as Record<string, string> | undefined) };
+    fields['Content-Type'] ??= 'text/plain; charset=UTF-8';
+    fields['Content-Transfer-Encoding'] ??= '8bit';
+    if (catalog.locale) {
+      fields.Language = catalog.locale;
+    }
+
+    const comments = (catalog.headers?.comments as string[] | undefined) || [];
+    const lines = [
+      ...comments.map(comment => comment ? `# ${comment}` : '#'),
+      'msgid ""',
+      'msgstr ""',
+      ...Object.entries(fields).map(([name, value]) => `"${escapePoString(`${name}: ${value}\n`)}"`),
+    ];
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 生成单个条目
+   */
+  private formatEntry(entry: CatalogEntry): string {
+    const extra = entry.extra || {};
+    const lines: string[] = [];
+
+    entry.comments?.forEach(comment => lines.push(comment ? `# ${comment}` : '#'));
+    (extra.extractedComments as string[] | undefined)?.forEach(comment => lines.push(`#. ${comment}`));
+    if (entry.references?.length) {
+      lines.push(`#: ${entry.references.join(' ')}`);
+    }
+    if ((extra.flags as string[] | undefined)?.length) {
+      lines.push(`#, ${(extra.flags as string[]).join(', ')}`);
+    }
+    (extra.previous as string[] | undefined)?.forEach(previous => lines.push(`#| ${previous}`));
+
+    if (entry.context !== undefined) {
+      lines.push(formatField('msgctxt', entry.context));
+    }
+    lines.push(formatField('msgid', entry.key));
+
+    if (typeof extra.msgidPlural === 'string') {
+      lines.push(formatField('msgid_plural', extra.msgidPlural));
+      lines.push(formatField('msgstr[0]', entry.value));
+      ((extra.pluralForms as string[] | undefined) || []).forEach((form, index) => {
+        lines.push(formatField(`msgstr[${index + 1}]`, form));
+      });
+    } else {
+      lines.push(formatField('msgstr', entry.value));
+    }
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,442 @@
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import type { Catalog, CatalogEntry, CatalogFormat } from '../types.js';
+
+/**
+ * 解析后的XML元素
+ */
+type XmlNode = Record<string, unknown>;
+
+/** 按数组解析的元素 */
+const ARRAY_ELEMENTS = new Set(['file', 'group', 'trans-unit', 'unit', 'note', 'context-group', 'context', 'segment']);
+
+/**
+ * 还原XML实体
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 读取元素文本
+ */
+function textOf(node: unknown): string | undefined {
+  if (node === undefined || node === null) {
+    return undefined;
+  }
+  if (typeof node !== 'object') {
+    return decodeXml(String(node));
+  }
+  const text = (node as XmlNode)['#text'];
+  return text === undefined ? '' : decodeXml(String(text));
+}
+
+/**
+ * 读取元素属性，去掉属性前缀
+ */
+function attributesOf(node: XmlNode, exclude: string[] = []): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(node)) {
+    if (name.startsWith('@_') && !exclude.includes(name.slice(2))) {
+      attributes[name.slice(2)] = String(value);
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * 去掉元素中仅包含空白的文本节点，避免缩进随读写累积
+ */
+function compactNode(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(compactNode);
+  }
+  if (node === null || typeof node !== 'object') {
+    return node;
+  }
+
+  return Object.fromEntries(
+    Object.entries(node)
+      .filter(([name, child]) => !(name === '#text' && typeof child === 'string' && !child.trim()))
+      .map(([name, child]) => [name, compactNode(child)])
+  );
+}
+
+/**
+ * 为属性名加上前缀
+ */
+function prefixAttributes(attributes: unknown): XmlNode {
+  return Object.fromEntries(
+    Object.entries((attributes || {}) as Record<string, string>).map(([name, value]) => [`@_${name}`, value])
+  );
+}
+
+/**
+ * 解析 "文件:行号" 形式的源码引用
+ */
+function splitReference(reference: string): { file: string; line?: string } {
+  const match = /^(.*):(\d+)$/.exec(reference);
+  return match ? { file: match[1], line: match[2] } : { file: reference };
+}
+
+/**
+ * XLIFF 语言文件，支持 1.2 和 2.0
+ * 读取时自动识别版本，写入时使用适配器对应的版本
+ * 注释写入 note，源码引用写入 1.2 的 location 上下文组或 2.0 的 location 类别 note，其余属性和子元素原样保留
+ */
+export class XliffCatalogFormat implements CatalogFormat {
+  readonly name: string;
+  readonly extensions = ['.xlf', '.xliff'];
+  readonly bilingual = true;
+
+  private parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    alwaysCreateTextNode: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+    // 保留 source/target 中的内联标记
+    stopNodes: ['*.source', '*.target'],
+    isArray: (name) => ARRAY_ELEMENTS.has(name),
+  });
+
+  private builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    format: true,
+    indentBy: '  ',
+    suppressEmptyNode: true,
+  });
+
+  constructor(private version: '1.2' | '2.0' = '1.2') {
+    this.name = version === '2.0' ? 'xliff2' : 'xliff';
+  }
+
+  parse(content: string): Catalog {
+    if (!content.trim()) {
+      return { entries: [] };
+    }
+
+    const root = this.parser.parse(content).xliff as XmlNode | undefined;
+    if (!root || typeof root !== 'object') {
+      throw new Error('文件格式无效，缺少 xliff 根元素');
+    }
+
+    return String(root['@_version'] || '').startsWith('2')
+      ? this.parseVersion2(root)
+      : this.parseVersion1(root);
+  }
+
+  serialize(catalog: Catalog): string {
+    const sourceLocale = catalog.sourceLocale || catalog.locale || '';
+    const isSource = !catalog.locale || catalog.locale === sourceLocale;
+    const document = this.version === '2.0'
+      ? this.buildVersion2(catalog, sourceLocale, isSource)
+      : this.buildVersion1(catalog, sourceLocale, isSource);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${this.builder.build(document)}`;
+  }
+
+  /**
+   * 解析 XLIFF 1.2
+   */
+  private parseVersion1(root: XmlNode): Catalog {
+    const files = (root.file || []) as XmlNode[];
+    const firstFile = files[0] || {};
+    const sourceLocale = firstFile['@_source-language'] as string | undefined;
+    const locale = (firstFile['@_target-language'] as string | undefined) || sourceLocale;
+    const isSource = !firstFile['@_target-language'] || locale === sourceLocale;
+    const entries: CatalogEntry[] = [];
+
+    for (const file of files) {
+      for (const unit of this.collectUnits(file.body as XmlNode | undefined, 'trans-unit')) {
+        const entry = this.toEntryVersion1(unit, isSource);
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+    }
+
+    return {
+      ...(locale ? { locale } : {}),
+      ...(sourceLocale ? { sourceLocale } : {}),
+      headers: { file: attributesOf(firstFile, ['source-language', 'target-language']) },
+      entries,
+    };
+  }
+
+  /**
+   * 解析 XLIFF 2.0
+   */
+  private parseVersion2(root: XmlNode): Catalog {
+    const sourceLocale = root['@_srcLang'] as string | undefined;
+    const locale = (root['@_trgLang'] as string | undefined) || sourceLocale;
+    const isSource = !root['@_trgLang'] || locale === sourceLocale;
+    const files = (root.file || []) as XmlNode[];
+    const entries: CatalogEntry[] = [];
+
+    for (const file of files) {
+      for (const unit of this.collectUnits(file, 'unit')) {
+        const entry = this.toEntryVersion2(unit, isSource);
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+    }
+
+    return {
+      ...(locale ? { locale } : {}),
+      ...(sourceLocale ? { sourceLocale } : {}),
+      headers: { file: attributesOf(files[0] || {}) },
+      entries,
+    };
+  }
+
+  /**
+   * 递归收集翻译单元，group 中的单元展开到同一层级
+   */
+  private collectUnits(container: XmlNode | undefined, unitName: string): XmlNode[] {
+    if (!container) {
+      return [];
+    }
+
+    const units = [...((container[unitName] || []) as XmlNode[])];
+    for (const group of (container.group || []) as XmlNode[]) {
+      units.push(...this.collectUnits(group, unitName));
+    }
+    return units;
+  }
+
+  /**
+   * 将 1.2 的 trans-unit 转换为条目，目标语言文件中未翻译的单元返回 null
+   */
+  private toEntryVersion1(unit: XmlNode, isSource: boolean): CatalogEntry | null {
+    const key = (unit['@_resname'] || unit['@_id']) as string | undefined;
+    const source = textOf(unit.source);
+    const target = textOf(unit.target);
+    const value = target ?? (isSource ? source : undefined);
+
+    if (!key || value === undefined) {
+      return null;
+    }
+
+    const entry: CatalogEntry = { key, value };
+    if (source !== undefined) {
+      entry.source = source;
+    }
+
+    const comments = ((unit.note || []) as XmlNode[]).map(note => textOf(note) || '');
+    if (comments.length > 0) {
+      entry.comments = comments;
+    }
+
+    const contextGroups = (unit['context-group'] || []) as XmlNode[];
+    const references = contextGroups
+      .filter(group => group['@_purpose'] === 'location')
+      .map(group => {
+        const contexts = (group.context || []) as XmlNode[];
+        const file = textOf(contexts.find(context => context['@_context-type'] === 'sourcefile'));
+        const line = textOf(contexts.find(context => context['@_context-type'] === 'linenumber'));
+        return file ? (line ? `${file}:${line}` : file) : '';
+      })
+      .filter(Boolean);
+    if (references.length > 0) {
+      entry.references = references;
+    }
+
+    const extra: Record<string, unknown> = {};
+    const attributes = attributesOf(unit, ['id', 'resname']);
+    if (Object.keys(attributes).length > 0) {
+      extra.attributes = attributes;
+    }
+    if (unit.target && typeof unit.target === 'object' && Object.keys(attributesOf(unit.target as XmlNode)).length > 0) {
+      extra.targetAttributes = attributesOf(unit.target as XmlNode);
+    }
+    const otherGroups = contextGroups.filter(group => group['@_purpose'] !== 'location');
+    const elements = Object.fromEntries(
+      Object.entries(unit).filter(([name]) => !name.startsWith('@_') && !['#text', 'source', 'target', 'note', 'context-group'].includes(name))
+    );
+    if (otherGroups.length > 0) {
+      elements['context-group'] = otherGroups;
+    }
+    if (Object.keys(elements).length > 0) {
+      extra.elements = compactNode(elements);
+    }
+    if (Object.keys(extra).length > 0) {
+      entry.extra = extra;
+    }
+
+    return entry;
+  }
+
+  /**
+   * 将 2.0 的 unit 转换为条目，多个 segment 按顺序拼接，目标语言文件中未翻译的单元返回 null
+   */
+  private toEntryVersion2(unit: XmlNode, isSource: boolean): CatalogEntry | null {
+    const key = (unit['@_name'] || unit['@_id']) as string | undefined;
+    const segments = (unit.segment || []) as XmlNode[];
+    const source = segments.map(segment => textOf(segment.source) || '').join('');
+    const hasTarget = segments.length > 0 && segments.every(segment => segment.target !== undefined);
+    const target = hasTarget ? segments.map(segment => textOf(segment.target) || '').join('') : undefined;
+    const value = target ?? (isSource ? source : undefined);
+
+    if (!key || value === undefined) {
+      return null;
+    }
+
+    const entry: CatalogEntry = { key, value, source };
+    const notes = (((unit.notes as XmlNode | undefined)?.note || []) as XmlNode[]);
+
+    const comments = notes.filter(note => note['@_category'] !== 'location').map(note => textOf(note) || '');
+    if (comments.length > 0) {
+      entry.comments = comments;
+    }
+    const references = notes.filter(note => note['@_category'] === 'location').map(note => textOf(note) || '');
+    if (references.length > 0) {
+      entry.references = references;
+    }
+
+    const extra: Record<string, unknown> = {};
+    const attributes = attributesOf(unit, ['id', 'name']);
+    if (Object.keys(attributes).length > 0) {
+      extra.attributes = attributes;
+    }
+    const segmentAttributes = segments[0] ? attributesOf(segments[0]) : {};
+    if (Object.keys(segmentAttributes).length > 0) {
+      extra.segmentAttributes = segmentAttributes;
+    }
+    const elements = Object.fromEntries(
+      Object.entries(unit).filter(([name]) => !name.startsWith('@_') && !['#text', 'segment', 'notes'].includes(name))
+    );
+    if (Object.keys(elements).length > 0) {
+      extra.elements = compactNode(elements);
+    }
+    if (Object.keys(extra).length > 0) {
+      entry.extra = extra;
+    }
+
+    return entry;
+  }
+
+  /**
+   * 生成 XLIFF 1.2 文档
+   */
+  private buildVersion1(catalog: Catalog, sourceLocale: string, isSource: boolean): XmlNode {
+    const units = catalog.entries.map(entry => {
+      const extra = entry.extra || {};
+      const unit: XmlNode = {
+        '@_id': entry.key,
+        ...prefixAttributes(extra.attributes),
+        source: { '#text': isSource ? entry.value : (entry.source ?? '') },
+      };
+
+      if (!isSource) {
+        unit.target = { ...prefixAttributes(extra.targetAttributes), '#text': entry.value };
+      }
+      if (entry.comments?.length) {
+        unit.note = entry.comments.map(comment => ({ '#text': comment }));
+      }
+
+      const elements = { ...(extra.elements as XmlNode | undefined) };
+      const locationGroups = (entry.references || []).map(reference => {
+        const { file, line } = splitReference(reference);
+        return {
+          '@_purpose': 'location',
+          context: [
+            { '@_context-type': 'sourcefile', '#text': file },
+            ...(line ? [{ '@_context-type': 'linenumber', '#text': line }] : []),
+          ],
+        };
+      });
+      const contextGroups = [...locationGroups, ...((elements['context-group'] || []) as XmlNode[])];
+      delete elements['context-group'];
+      if (contextGroups.length > 0) {
+        unit['context-group'] = contextGroups;
+      }
+
+      return { ...unit, ...elements };
+    });
+
+    const fileAttributes: Record<string, string> = {
+      datatype: 'plaintext',
+      original: 'messages',
+      ...(catalog.headers?.file as Record<string, string> | undefined),
+      'source-language': sourceLocale,
+    };
+    if (!isSource && catalog.locale) {
+      fileAttributes['target-language'] = catalog.locale;
+    }
+
+    return {
+      xliff: {
+        '@_version': '1.2',
+        '@_xmlns': 'urn:oasis:names:tc:xliff:document:1.2',
+        file: {
+          ...prefixAttributes(fileAttributes),
+          body: { 'trans-unit': units },
+        },
+      },
+    };
+  }
+
+  /**
+   * 生成 XLIFF 2.0 文档
+   */
+  private buildVersion2(catalog: Catalog, sourceLocale: string, isSource: boolean): XmlNode {
+    const units = catalog.entries.map(entry => {
+      const extra = entry.extra || {};
+      const unit: XmlNode = {
+        '@_id': entry.key,
+        ...prefixAttributes(extra.attributes),
+      };
+
+      const notes = [
+        ...(entry.comments || []).map(comment => ({ '#text': comment })),
+        ...(entry.references || []).map(reference => ({ '@_category': 'location', '#text': reference })),
+      ];
+      if (notes.length > 0) {
+        unit.notes = { note: notes };
+      }
+
+      Object.assign(unit, extra.elements as XmlNode | undefined);
+      unit.segment = {
+        ...prefixAttributes(extra.segmentAttributes),
+        source: { '#text': isSource ? entry.value : (entry.source ?? '') },
+        ...(isSource ? {} : { target: { '#text': entry.value } }),
+      };
+
+      return unit;
+    });
+
+    const rootAttributes: XmlNode = {
+      '@_xmlns': 'urn:oasis:names:tc:xliff:document:2.0',
+      '@_version': '2.0',
+      '@_srcLang': sourceLocale,
+    };
+    if (!isSource && catalog.locale) {
+      rootAttributes['@_trgLang'] = catalog.locale;
+    }
+
+    return {
+      xliff: {
+        ...rootAttributes,
+        file: {
+          '@_id': 'messages',
+          ...prefixAttributes(catalog.headers?.file),
+          unit: units,
+        },
+      },
+    };
+  }
+}
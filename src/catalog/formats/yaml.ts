@@ -0,0 +1,168 @@
+import { Document, isMap, isScalar, parseDocument, type Pair, type YAMLMap } from 'yaml';
+import type { Catalog, CatalogEntry, CatalogFormat, CatalogSerializeOptions } from '../types.js';
+import { catalogToMessages } from '../catalog.js';
+import { unflattenMessages } from '../../utils/locale-structure.js';
+
+/**
+ * 将YAML注释拆分为行
+ */
+function splitComment(comment: string | null | undefined): string[] {
+  return comment ? comment.split('\n').map(line => line.replace(/^ /, '')) : [];
+}
+
+/**
+ * 将多行注释转换为YAML注释，每行以空格开头
+ */
+function joinComment(lines: string[]): string {
+  return lines.map(line => line ? ` ${line}` : '').join('\n');
+}
+
+/**
+ * YAML 语言文件，支持扁平和嵌套结构
+ * 保留文件头尾、嵌套层级上方以及条目上方和行尾的注释
+ */
+export class YamlCatalogFormat implements CatalogFormat {
+  readonly name = 'yaml';
+  readonly extensions = ['.yaml', '.yml'];
+
+  parse(content: string): Catalog {
+    const document = parseDocument(content);
+    if (document.errors.length > 0) {
+      throw new Error(document.errors[0].message);
+    }
+
+    const catalog: Catalog = { entries: [] };
+    const sectionComments: Record<string, string[]> = {};
+
+    if (document.contents !== null) {
+      if (!isMap(document.contents)) {
+        throw new Error('文件格式无效，应为YAML映射');
+      }
+      this.collectEntries(document.contents, '', catalog.entries, sectionComments);
+    }
+
+    const headers: Record<string, unknown> = {};
+    if (document.commentBefore) {
+      headers.comment = document.commentBefore;
+    }
+    if (document.comment) {
+      headers.trailingComment = document.comment;
+    }
+    if (Object.keys(sectionComments).length > 0) {
+      headers.sectionComments = sectionComments;
+    }
+    if (Object.keys(headers).length > 0) {
+      catalog.headers = headers;
+    }
+
+    return catalog;
+  }
+
+  serialize(catalog: Catalog, options: CatalogSerializeOptions): string {
+    const messages = catalogToMessages(catalog);
+    const document = new Document(options.structure === 'nested' ? unflattenMessages(messages) : messages);
+
+    const { comment, trailingComment, sectionComments } = catalog.headers || {};
+    if (typeof comment === 'string') {
+      document.commentBefore = comment;
+    }
+    if (typeof trailingComment === 'string') {
+      document.comment = trailingComment;
+    }
+
+    const contents = isMap(document.contents) ? document.contents : null;
+    if (!contents) {
+      return document.toString({ lineWidth: 0 });
+    }
+
+    for (const [section, lines] of Object.entries((sectionComments || {}) as Record<string, string[]>)) {
+      const pair = this.findPair(contents, section);
+      if (pair && isScalar(pair.key)) {
+        pair.key.commentBefore = joinComment(lines);
+      }
+    }
+
+    for (const entry of catalog.entries) {
+      const inlineComment = entry.extra?.inlineComment;
+      if (!entry.comments?.length && typeof inlineComment !== 'string') {
+        continue;
+      }
+
+      const pair = this.findPair(contents, entry.key);
+      if (!pair) {
+        continue;
+      }
+      if (entry.comments?.length && isScalar(pair.key)) {
+        pair.key.commentBefore = joinComment(entry.comments);
+      }
+      if (typeof inlineComment === 'string' && isScalar(pair.value)) {
+        pair.value.comment = inlineComment;
+      }
+    }
+
+    return document.toString({ lineWidth: 0 });
+  }
+
+  /**
+   * 递归收集映射中的文本条目，嵌套的key以点号连接
+   * 嵌套层级上方的注释按层级路径记录到 sectionComments
+   */
+  private collectEntries(
+    map: YAMLMap,
+    prefix: string,
+    entries: CatalogEntry[],
+    sectionComments: Record<string, string[]>
+  ): void {
+    map.items.forEach((pair, index) => {
+      const key = String(isScalar(pair.key) ? pair.key.value : pair.key);
+      const fullKey = prefix ? `${prefix}.${key}` : key;
+      // 嵌套映射开头的注释归属于其第一个key
+      const comments = splitComment(
+        (isScalar(pair.key) ? pair.key.commentBefore : null) || (index === 0 ? map.commentBefore : null)
+      );
+
+      if (isMap(pair.value)) {
+        if (comments.length > 0) {
+          sectionComments[fullKey] = comments;
+        }
+        this.collectEntries(pair.value, fullKey, entries, sectionComments);
+        return;
+      }
+
+      const entry: CatalogEntry = {
+        key: fullKey,
+        value: isScalar(pair.value) && pair.value.value !== null ? String(pair.value.value) : '',
+      };
+
+      if (comments.length > 0) {
+        entry.comments = comments;
+      }
+      if (isScalar(pair.value) && pair.value.comment) {
+        entry.extra = { inlineComment: pair.value.comment };
+      }
+
+      entries.push(entry);
+    });
+  }
+
+  /**
+   * 按点号分隔的key查找映射中的键值对
+   */
+  private findPair(map: YAMLMap, key: string): Pair | undefined {
+    for (const item of map.items) {
+      const itemKey = String(isScalar(item.key) ? item.key.value : item.key);
+
+      if (itemKey === key) {
+        return item;
+      }
+      if (key.startsWith(`${itemKey}.`) && isMap(item.value)) {
+        const pair = this.findPair(item.value, key.slice(itemKey.length + 1));
+        if (pair) {
+          return pair;
+        }
+      }
+    }
+
+    return undefined;
+  }
+}
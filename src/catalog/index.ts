@@ -0,0 +1,11 @@
+export * from './types.js';
+export * from './catalog.js';
+export * from './registry.js';
+export * from './store.js';
+export * from './formats/json.js';
+export * from './formats/yaml.js';
+export * from './formats/po.js';
+export * from './formats/xliff.js';
+export * from './formats/arb.js';
+export * from './formats/android.js';
+export * from './formats/ios.js';
@@ -0,0 +1,74 @@
+import type { CatalogFormat } from './types.js';
+import { JsonCatalogFormat } from './formats/json.js';
+import { YamlCatalogFormat } from './formats/yaml.js';
+import { PoCatalogFormat } from './formats/po.js';
+import { XliffCatalogFormat } from './formats/xliff.js';
+import { ArbCatalogFormat } from './formats/arb.js';
+import { AndroidCatalogFormat } from './formats/android.js';
+import { IosStringsCatalogFormat } from './formats/ios.js';
+
+/**
+ * 语言文件格式注册表
+ * 内置 json、yaml、po、xliff (1.2)、xliff2、arb、android、ios，可通过 register 添加自定义格式
+ */
+export class CatalogFormatRegistry {
+  private static formats = new Map<string, CatalogFormat>(
+    [
+      new JsonCatalogFormat(),
+      new YamlCatalogFormat(),
+      new PoCatalogFormat(),
+      new XliffCatalogFormat('1.2'),
+      new XliffCatalogFormat('2.0'),
+      new ArbCatalogFormat(),
+      new AndroidCatalogFormat(),
+      new IosStringsCatalogFormat(),
+    ].map(format => [format.name, format])
+  );
+
+  /**
+   * 注册语言文件格式，同名格式会被替换
+   */
+  static register(format: CatalogFormat): void {
+    this.formats.set(format.name, format);
+  }
+
+  /**
+   * 是否已注册指定格式
+   */
+  static has(name: string): boolean {
+    return this.formats.has(name);
+  }
+
+  /**
+   * 获取语言文件格式
+   */
+  static get(name: string): CatalogFormat {
+    const format = this.formats.get(name);
+    if (!format) {
+      throw new Error(`不支持的语言文件格式: ${name}`);
+    }
+    return format;
+  }
+
+  /**
+   * 根据扩展名查找语言文件格式，多个格式使用同一扩展名时返回先注册的格式
+   */
+  static findByExtension(extension: string): CatalogFormat | undefined {
+    const normalized = extension.toLowerCase();
+    return [...this.formats.values()].find(format => format.extensions.includes(normalized));
+  }
+
+  /**
+   * 获取所有已注册格式的扩展名
+   */
+  static getExtensions(): string[] {
+    return [...new Set([...this.formats.values()].flatMap(format => format.extensions))];
+  }
+
+  /**
+   * 获取所有已注册格式的名称
+   */
+  static getNames(): string[] {
+    return [...this.formats.keys()];
+  }
+}
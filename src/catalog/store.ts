@@ -0,0 +1,83 @@
+import type { I18nConfig } from '../config/types.js';
+import type { Catalog, CatalogFormat } from './types.js';
+import { CatalogFormatRegistry } from './registry.js';
+import { buildCatalog, catalogToMessages } from './catalog.js';
+import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
+
+/**
+ * 语言文件写入选项
+ */
+export interface CatalogWriteOptions {
+  /** 文件对应的语言 */
+  locale: string;
+  /** 源语言文本，双语格式（如 XLIFF）写入 source 时使用 */
+  sourceMessages?: Record<string, string>;
+}
+
+/**
+ * 语言文件读写 - 根据扩展名和 output.format 选择格式适配器
+ * 写入时保留已有文件中的注释、上下文和源码引用
+ */
+export class CatalogStore {
+  private fs: FileSystemService;
+
+  constructor(private config: I18nConfig, fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+  }
+
+  /**
+   * 获取文件对应的格式适配器
+   * 配置的 output.format 支持该扩展名时优先使用，否则按扩展名查找，都未匹配时使用 JSON
+   */
+  getFormat(filePath: string): CatalogFormat {
+    const extension = this.fs.extname(filePath).toLowerCase();
+    const configured = this.config.output.format
+      ? CatalogFormatRegistry.get(this.config.output.format)
+      : undefined;
+
+    if (configured?.extensions.includes(extension)) {
+      return configured;
+    }
+
+    return CatalogFormatRegistry.findByExtension(extension) ?? configured ?? CatalogFormatRegistry.get('json');
+  }
+
+  /**
+   * 读取语言文件，不存在时返回 null
+   */
+  async read(filePath: string): Promise<Catalog | null> {
+    if (!await this.fs.pathExists(filePath)) {
+      return null;
+    }
+
+    const content = await this.fs.readFile(filePath, 'utf-8');
+    return this.getFormat(filePath).parse(content);
+  }
+
+  /**
+   * 读取语言文件中的 key → 文本，不存在时返回空对象
+   */
+  async readMessages(filePath: string): Promise<Record<string, string>> {
+    const catalog = await this.read(filePath);
+    return catalog ? catalogToMessages(catalog) : {};
+  }
+
+  /**
+   * 写入语言文件，保留已有文件中同一key的注释等信息
+   */
+  async write(filePath: string, messages: Record<string, string>, options: CatalogWriteOptions): Promise<void> {
+    const format = this.getFormat(filePath);
+    const previous = await this.read(filePath);
+    const catalog = buildCatalog(messages, previous, {
+      locale: options.locale,
+      sourceLocale: this.config.locale,
+      ...(format.bilingual && options.sourceMessages ? { sourceMessages: options.sourceMessages } : {}),
+    });
+
+    await this.fs.ensureDir(this.fs.dirname(filePath));
+    await this.fs.writeFile(filePath, format.serialize(catalog, {
+      structure: this.config.output.structure,
+      prettyJson: this.config.output.prettyJson,
+    }), 'utf-8');
+  }
+}
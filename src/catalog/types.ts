@@ -0,0 +1,59 @@
+/**
+ * 语言文件条目
+ */
+export interface CatalogEntry {
+  /** 翻译key */
+  key: string;
+  /** 当前语言的文本 */
+  value: string;
+  /** 源语言文本，XLIFF 等双语格式使用 */
+  source?: string;
+  /** 注释 */
+  comments?: string[];
+  /** 上下文，如 PO 的 msgctxt */
+  context?: string;
+  /** 源码引用，如 src/App.tsx:12 */
+  references?: string[];
+  /** 格式特有的其他信息，写回时原样保留 */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * 语言文件内容
+ */
+export interface Catalog {
+  /** 当前语言 */
+  locale?: string;
+  /** 源语言 */
+  sourceLocale?: string;
+  /** 文件级信息，如 PO 文件头、ARB 的 @@ 属性，写回时原样保留 */
+  headers?: Record<string, unknown>;
+  /** 条目，按文件中的顺序排列 */
+  entries: CatalogEntry[];
+}
+
+/**
+ * 语言文件序列化选项
+ */
+export interface CatalogSerializeOptions {
+  /** 文件结构，仅对支持嵌套的格式生效 */
+  structure: 'flat' | 'nested';
+  /** 是否格式化输出，仅对 JSON 类格式生效 */
+  prettyJson: boolean;
+}
+
+/**
+ * 语言文件格式适配器
+ */
+export interface CatalogFormat {
+  /** 格式名称，对应配置中的 output.format */
+  readonly name: string;
+  /** 支持的文件扩展名，包含点号 */
+  readonly extensions: string[];
+  /** 是否需要源语言文本（如 XLIFF 的 source） */
+  readonly bilingual?: boolean;
+  /** 解析文件内容 */
+  parse(content: string): Catalog;
+  /** 序列化为文件内容 */
+  serialize(catalog: Catalog, options: CatalogSerializeOptions): string;
+}
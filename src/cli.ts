@@ -4,13 +4,51 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
-import { ConfigManager } from './config/manager.js';
+import { ConfigManager, getTargetLanguages } from './config/manager.js';
+import { FRAMEWORKS } from './config/presets.js';
 import { FileProcessor } from './processor/processor.js';
 import { TranslateCommand } from './commands/translate.js';
 import { ValidateCommand } from './commands/validate.js';
+import { CheckCommand, CHECK_REPORT_FORMATS, type CheckReportFormat } from './commands/check.js';
+import { LintCatalogCommand } from './commands/lint-catalog.js';
+import { RollbackCommand } from './commands/rollback.js';
+import { IGNORE_COMMENT } from './processor/ast-extractor.js';
+import { getFileSystem } from './utils/file-system.js';
+import { LocaleFileLayout } from './utils/locale-layout.js';
+import { GitSafetyGuard } from './utils/git-safety.js';
+import { CommandReporter } from './utils/command-report.js';
 
 const program = new Command();
 
+/**
+ * 为统一格式差异着色
+ */
+function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return chalk.gray(line);
+    })
+    .join('\n');
+}
+
+/**
+ * 退出码：部分文件或目标语言处理失败
+ */
+const EXIT_PARTIAL_FAILURE = 2;
+
+/**
+ * 是否处于无法等待确认的非交互环境：CI 中或标准输入不是终端
+ */
+function isNonInteractive(): boolean {
+  const ci = process.env.CI;
+  return Boolean(ci && ci !== 'false' && ci !== '0') || !process.stdin.isTTY;
+}
+
 // 版本信息
 program
   .name('ai-i18n')
@@ -24,12 +62,17 @@ program
   .command('init')
   .description('初始化配置文件')
   .option('-o, --output <path>', '配置文件输出路径', 'i18n.config.json')
+  .option('-f, --framework <name>', `框架预设: ${FRAMEWORKS.join('、')}`, 'custom')
   .action(async (options) => {
     const spinner = ora('正在初始化配置文件...').start();
     
     try {
+      if (!FRAMEWORKS.includes(options.framework)) {
+        throw new Error(`不支持的框架预设: ${options.framework}`);
+      }
+
       const configManager = new ConfigManager();
-      await configManager.initConfig(options.output);
+      await configManager.initConfig(options.output, options.framework);
       
       spinner.succeed(chalk.green(`配置文件已创建: ${options.output}`));
       
@@ -54,7 +97,21 @@ program
   .option('-c, --config <path>', '配置文件路径')
   .option('--dry-run', '试运行，不实际修改文件')
   .option('--skip-translate', '跳过自动翻译步骤')
+  .option('--changed', '仅处理自上次运行以来新增或修改的文件')
+  .option('--since <git-ref>', '仅处理相对于指定 Git 引用有变更的文件')
+  .option('--prune', '移除语言文件中源码已不再引用的key')
+  .option('--require-clean', '要求整个 Git 工作区没有未提交的修改')
+  .option('--stash', '处理前将待处理文件的未提交修改存入 git stash')
+  .option('--allow-dirty', '待处理文件存在未提交的修改时仍然处理')
+  .option('--branch [name]', '处理前创建并切换到新分支，默认为 ai-i18n/extract-<时间>')
+  .option('--commit', '处理完成后提交修改过的文件，提交信息中列出提取的key')
+  .option('-y, --yes', '跳过确认直接处理，CI 或非终端环境中自动跳过')
+  .option('--json', '以 JSON 格式向标准输出打印结果，日志以 JSON 行写入标准错误')
+  .option('--report <file>', '将 JSON 格式的结果写入指定文件')
   .action(async (options) => {
+    const reporter = new CommandReporter('extract', options);
+    reporter.begin();
+
     try {
       const configManager = new ConfigManager();
       const config = await configManager.loadConfig(options.config);
@@ -65,51 +122,148 @@ program
       // 显示配置信息
       console.log(chalk.cyan('🔧 配置信息:'));
       console.log(`  源语言: ${config.locale}`);
-      console.log(`  目标语言: ${config.displayLanguage}`);
+      console.log(`  目标语言: ${getTargetLanguages(config).join(', ')}`);
       console.log(`  输出目录: ${config.outputDir}`);
+      console.log(`  提取模式: ${config.extraction.mode}`);
       console.log(`  LLM 提供者: ${config.llm.provider}`);
       console.log(`  模型: ${config.llm.model}`);
       
       if (config.tempDir) {
         console.log(chalk.yellow(`  临时目录: ${config.tempDir} (不会修改源文件)`));
       } else {
-        console.log(chalk.yellow(`  ⚠️  将直接修改源文件，建议先备份`));
+        console.log(chalk.yellow(`  ⚠️  将直接修改源文件，可使用 ai-i18n rollback 撤销本次运行`));
       }
       
       if (options.dryRun) {
         console.log(chalk.yellow('\n📋 试运行模式 - 不会实际修改文件'));
-      // TODO: 实现试运行逻辑 - 仅显示将会处理的文件和提取的文本
-      console.log('📄 将会处理的文件:');
-      return;
-      }
-      
-      // 确认处理
-      const answers = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'proceed',
-          message: '确认开始提取处理吗？',
-          default: false,
-        },
-      ]);
-      
-      if (!answers.proceed) {
-        console.log(chalk.yellow('操作已取消'));
+        
+        const processor = new FileProcessor(config);
+        const spinner = ora({ text: '🔍 正在分析文件...', isSilent: reporter.json }).start();
+        const previews = await processor.previewAll({
+          changed: options.changed,
+          since: options.since,
+        });
+        spinner.succeed(chalk.green(`分析完成，共 ${previews.length} 个文件`));
+        
+        console.log('📄 将会处理的文件:');
+        let totalTexts = 0;
+        
+        for (const preview of previews) {
+          const entries = Object.entries(preview.extractedTexts);
+          totalTexts += entries.length;
+          
+          console.log(chalk.cyan(`\n📄 ${preview.relativePath}`));
+          
+          if (preview.error) {
+            console.log(chalk.red(`  ❌ ${preview.error}`));
+          }
+          
+          if (entries.length === 0) {
+            console.log(chalk.gray('  未发现需要提取的文本'));
+          } else {
+            console.log(`  提取文本 (${entries.length} 条):`);
+            entries.forEach(([key, text]) => {
+              console.log(`    ${chalk.green(key)} → ${text}`);
+            });
+          }
+          
+          preview.warnings.forEach(warning => {
+            console.log(chalk.yellow(`  ⚠️  ${warning}`));
+          });
+          
+          if (preview.diff) {
+            console.log(colorizeDiff(preview.diff));
+          }
+        }
+        
+        const failedCount = previews.filter(p => !p.success).length;
+        console.log(chalk.cyan('\n📊 试运行结果:'));
+        console.log(`  将处理文件: ${previews.length} 个`);
+        console.log(`  将提取文本: ${totalTexts} 条`);
+        if (failedCount > 0) {
+          console.log(chalk.red(`  失败文件: ${failedCount} 个`));
+        }
+        await reporter.finish(0, { dryRun: true, files: previews });
         return;
       }
       
+      // 原地改写源文件前检查未提交的修改，使用临时目录时源文件不会被改写
       const processor = new FileProcessor(config);
-      const spinner = ora('🔍 正在扫描和处理文件...').start();
+      const gitGuard = new GitSafetyGuard();
+      const targetPaths = config.tempDir
+        ? []
+        : await processor.getTargetPaths({ changed: options.changed, since: options.since });
+      const gitCheck = await gitGuard.check(targetPaths, {
+        requireClean: options.requireClean,
+        stash: options.stash,
+        allowDirty: options.allowDirty,
+        branch: options.branch,
+        commit: options.commit,
+      });
+
+      if (!gitCheck.isRepository && !config.tempDir) {
+        console.log(chalk.yellow('  ⚠️  当前目录不是 Git 仓库，无法检查未提交的修改'));
+      } else if (gitCheck.dirtyFiles.length > 0) {
+        console.log(chalk.yellow(options.stash
+          ? `  📦 ${gitCheck.dirtyFiles.length} 个待处理文件存在未提交的修改，将在处理前存入 git stash`
+          : `  ⚠️  ${gitCheck.dirtyFiles.length} 个待处理文件存在未提交的修改，将直接改写`));
+      }
+
+      // 确认处理，指定 --yes、--json 或处于非交互环境时跳过确认
+      if (options.yes || reporter.json) {
+        console.log(chalk.gray('ℹ️  已指定 --yes，跳过确认'));
+      } else if (isNonInteractive()) {
+        console.log(chalk.gray('ℹ️  非交互环境，跳过确认'));
+      } else {
+        const answers = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'proceed',
+            message: '确认开始提取处理吗？',
+            default: false,
+          },
+        ]);
+
+        if (!answers.proceed) {
+          console.log(chalk.yellow('操作已取消'));
+          await reporter.finish(0, { cancelled: true });
+          return;
+        }
+      }
       
-      // 处理skipTranslate参数 - 传递给processor
-      const stats = await processor.processAll({ skipTranslate: options.skipTranslate });
+      const stashed = options.stash && gitCheck.dirtyFiles.length > 0;
+      if (stashed) {
+        const message = await gitGuard.stash(gitCheck.dirtyFiles);
+        console.log(chalk.cyan(`📦 已暂存未提交的修改: ${message}`));
+      }
+      if (options.branch) {
+        const branch = await gitGuard.createBranch(typeof options.branch === 'string' ? options.branch : undefined);
+        console.log(chalk.cyan(`🌿 已创建并切换到分支: ${branch}`));
+      }
+
+      const spinner = ora({ text: '🔍 正在扫描和处理文件...', isSilent: reporter.json }).start();
+      
+      // 处理skipTranslate及增量参数 - 传递给processor
+      const stats = await processor.processAll({
+        skipTranslate: options.skipTranslate,
+        changed: options.changed,
+        since: options.since,
+        prune: options.prune,
+      });
       
       spinner.succeed(chalk.green('✅ 处理完成'));
       
       // 显示处理结果
       console.log(chalk.cyan('\n📊 处理结果:'));
       console.log(`  处理文件: ${stats.filesProcessed} 个`);
+      if (stats.filesSkipped > 0) {
+        console.log(`  跳过未变更文件: ${stats.filesSkipped} 个`);
+      }
       console.log(`  提取文本: ${stats.textsExtracted} 条`);
+      console.log(`  新增key: ${stats.keysAdded} 个`);
+      if (stats.keysPruned > 0) {
+        console.log(`  移除未引用key: ${stats.keysPruned} 个`);
+      }
       
       if (!options.skipTranslate) {
         console.log(chalk.gray('ℹ️  跳过自动翻译步骤'));
@@ -117,8 +271,18 @@ program
       
       console.log(`  处理耗时: ${Math.round(stats.processingTime / 1000)}s`);
       
-      if (!options.skipTranslate && stats.textsTranslated > 0) {
+      if (!options.skipTranslate && stats.translations.length > 0) {
         console.log(`  翻译文本: ${stats.textsTranslated} 条`);
+        stats.translations.forEach(result => {
+          if (result.error) {
+            console.log(chalk.red(`    ❌ ${result.language}: ${result.error}`));
+          } else {
+            console.log(`    ${result.language}: ${result.translated} 条${result.failed > 0 ? chalk.yellow(`，失败 ${result.failed} 条`) : ''}`);
+            result.unresolved.forEach(issue => {
+              console.log(chalk.yellow(`      ${issue.key}: ${issue.reason}`));
+            });
+          }
+        });
       }
       
       if (stats.failedFiles.length > 0) {
@@ -132,20 +296,59 @@ program
         }
       }
       
+      if (stats.conflicts.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  key冲突: ${stats.conflicts.length} 个，已保留语言文件中的原有文本`));
+        stats.conflicts.forEach(conflict => {
+          console.log(chalk.yellow(`    ${conflict.key}: "${conflict.existingText}" → "${conflict.incomingText}"`));
+        });
+      }
+      
       // 给出后续建议
       console.log(chalk.green('\n🎉 处理完成！'));
       console.log('生成的文件:');
-      console.log(`  📁 ${config.outputDir}/${config.locale}.json - 源语言文件`);
-      if (!options.skipTranslate && stats.textsTranslated > 0) {
-        console.log(`  📁 ${config.outputDir}/${config.displayLanguage}.json - 翻译文件`);
+      const localeLayout = new LocaleFileLayout(config);
+      console.log(`  📁 ${localeLayout.getFilePath(config.locale, localeLayout.isSplitByNamespace() ? '*' : '')} - 源语言文件`);
+      stats.translations.filter(result => result.filePath).forEach(result => {
+        console.log(`  📁 ${result.filePath} - 翻译文件`);
+      });
+      if (stats.typingsFile) {
+        console.log(`  📁 ${stats.typingsFile} - key类型定义`);
       }
       
+      if (stats.runId) {
+        console.log(chalk.cyan(`\n💾 已备份修改前的文件，可使用 ai-i18n rollback ${stats.runId} 撤销本次运行`));
+      }
+
+      let commitSummary: string | null = null;
+      if (options.commit) {
+        commitSummary = await gitGuard.commit(stats.runId, processor.getExtractedTexts());
+        console.log(commitSummary
+          ? chalk.green(`\n📝 已提交: ${commitSummary}`)
+          : chalk.yellow('\n没有文件被修改，跳过提交'));
+      }
+
+      if (stashed) {
+        console.log(chalk.yellow('\n💡 处理前暂存的修改可使用 git stash pop 恢复，可能需要解决冲突'));
+      }
+
       if (options.skipTranslate || stats.textsTranslated === 0) {
         console.log(chalk.yellow('\n💡 提示: 使用 ai-i18n translate 命令可以翻译到其他语言'));
       }
+
+      const partialFailure = stats.failedFiles.length > 0 || stats.translations.some(result => result.error);
+      if (partialFailure) {
+        process.exitCode = EXIT_PARTIAL_FAILURE;
+      }
+
+      await reporter.finish(partialFailure ? EXIT_PARTIAL_FAILURE : 0, {
+        ...stats,
+        keys: processor.getExtractedTexts(),
+        ...(commitSummary ? { commit: commitSummary } : {}),
+      });
       
     } catch (error) {
       console.error(chalk.red(`❌ 处理失败: ${error instanceof Error ? error.message : String(error)}`));
+      await reporter.finish(1, undefined, error);
       process.exit(1);
     }
   });
@@ -158,26 +361,194 @@ program
   .description('翻译已提取的文本到目标语言')
   .option('-c, --config <path>', '配置文件路径')
   .option('-s, --source <path>', '源语言文件路径')
-  .option('-t, --target <language>', '目标语言')
+  .option('-t, --target <languages>', '目标语言，多个语言用逗号分隔，如 en-US,ja-JP')
   .option('-o, --output <path>', '输出文件路径')
+  .option('--json', '以 JSON 格式向标准输出打印结果，日志以 JSON 行写入标准错误')
+  .option('--report <file>', '将 JSON 格式的结果写入指定文件')
   .action(async (options) => {
+    const reporter = new CommandReporter('translate', options);
+    reporter.begin();
+
     try {
       const configManager = new ConfigManager();
       const config = await configManager.loadConfig(options.config);
       
-      const spinner = ora('🌐 正在翻译文本...').start();
-      
       const translateCommand = new TranslateCommand(config);
-      await translateCommand.execute({
+      const results = await translateCommand.execute({
         source: options.source,
         target: options.target,
         output: options.output,
       });
+
+      const report = { translations: results, cacheStats: translateCommand.getCacheStats() };
+      const failedLanguages = results.filter(result => result.error).map(result => result.language);
+      if (failedLanguages.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  部分目标语言翻译失败: ${failedLanguages.join(', ')}`));
+        process.exitCode = EXIT_PARTIAL_FAILURE;
+        await reporter.finish(EXIT_PARTIAL_FAILURE, report);
+        return;
+      }
       
-      spinner.succeed(chalk.green('翻译完成'));
+      console.log(chalk.green('\n✅ 翻译完成'));
+      await reporter.finish(0, report);
       
     } catch (error) {
       console.error(chalk.red(`翻译失败: ${error instanceof Error ? error.message : String(error)}`));
+      await reporter.finish(1, undefined, error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * 检查命令 - 查找源码中未国际化的中文文本，适合作为 CI 门禁
+ */
+program
+  .command('check')
+  .description('检查源码中未被翻译函数包裹的中文文本，不调用大模型')
+  .option('-c, --config <path>', '配置文件路径')
+  .option('-f, --format <format>', `报告格式: ${CHECK_REPORT_FORMATS.join('、')}`, 'text')
+  .option('-o, --output <path>', '将报告写入文件')
+  .action(async (options) => {
+    try {
+      if (!CHECK_REPORT_FORMATS.includes(options.format)) {
+        throw new Error(`不支持的报告格式: ${options.format}`);
+      }
+      const format = options.format as CheckReportFormat;
+
+      const configManager = new ConfigManager();
+      const config = await configManager.loadConfig(options.config);
+
+      const checkCommand = new CheckCommand(config);
+      const result = await checkCommand.execute();
+      const report = checkCommand.formatReport(result, format);
+      const passed = result.issues.length === 0 && result.errors.length === 0;
+
+      if (options.output) {
+        const fileSystem = getFileSystem();
+        await fileSystem.ensureDir(fileSystem.dirname(options.output));
+        await fileSystem.writeFile(options.output, `${report}\n`, 'utf-8');
+      } else if (report) {
+        console.log(report);
+      }
+
+      // JSON / SARIF 输出到标准输出时不附加摘要，便于其他工具解析
+      if (format === 'text' || options.output) {
+        if (passed) {
+          console.log(chalk.green(`✅ 检查了 ${result.filesChecked} 个文件，未发现未国际化的中文文本`));
+        } else {
+          console.log(chalk.red(`\n❌ 检查了 ${result.filesChecked} 个文件，发现 ${result.issues.length} 处未国际化的中文文本` +
+            (result.errors.length > 0 ? `，${result.errors.length} 个文件无法解析` : '')));
+          console.log(chalk.gray(`💡 确实不需要翻译的文本可在同一行或上一行添加 // ${IGNORE_COMMENT} 注释`));
+        }
+        if (options.output) {
+          console.log(`  📁 ${options.output} - 检查报告`);
+        }
+      }
+
+      if (!passed) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ 检查失败: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+/**
+ * 语言文件检查命令 - 对比源码中的key与各语言文件
+ */
+program
+  .command('lint-catalog')
+  .description('检查缺失、未使用、多余、未翻译以及占位符不一致的key，不调用大模型')
+  .option('-c, --config <path>', '配置文件路径')
+  .option('-f, --format <format>', '报告格式: text、json', 'text')
+  .option('-o, --output <path>', '将报告写入文件')
+  .action(async (options) => {
+    try {
+      if (!['text', 'json'].includes(options.format)) {
+        throw new Error(`不支持的报告格式: ${options.format}`);
+      }
+
+      const configManager = new ConfigManager();
+      const config = await configManager.loadConfig(options.config);
+
+      const lintCommand = new LintCatalogCommand(config);
+      const result = await lintCommand.execute();
+      const report = options.format === 'json'
+        ? JSON.stringify(result, null, 2)
+        : lintCommand.formatReport(result);
+
+      if (options.output) {
+        const fileSystem = getFileSystem();
+        await fileSystem.ensureDir(fileSystem.dirname(options.output));
+        await fileSystem.writeFile(options.output, `${report}\n`, 'utf-8');
+      } else if (report) {
+        console.log(report);
+      }
+
+      // JSON 输出到标准输出时不附加摘要，便于其他工具解析
+      if (options.format === 'text' || options.output) {
+        const summary = `扫描了 ${result.filesScanned} 个文件，检查了 ${result.locales.join(', ')}`;
+        if (result.issues.length === 0) {
+          console.log(chalk.green(`✅ ${summary}，未发现问题`));
+        } else {
+          console.log(chalk.red(`\n❌ ${summary}，发现 ${result.issues.length} 个问题`));
+        }
+        if (options.output) {
+          console.log(`  📁 ${options.output} - 检查报告`);
+        }
+      }
+
+      if (result.issues.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ 检查失败: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+/**
+ * 回滚命令 - 撤销一次提取运行
+ */
+program
+  .command('rollback [runId]')
+  .description('撤销一次提取运行对源文件和语言文件的修改，默认为最近一次运行')
+  .option('--force', '文件在运行后被修改时仍然回滚')
+  .option('--list', '列出可回滚的运行记录')
+  .action(async (runId: string | undefined, options) => {
+    try {
+      const rollbackCommand = new RollbackCommand();
+
+      if (options.list) {
+        const runs = await rollbackCommand.listRuns();
+        if (runs.length === 0) {
+          console.log(chalk.yellow('没有运行记录'));
+          return;
+        }
+
+        console.log(chalk.cyan('📋 运行记录:'));
+        runs.forEach(run => {
+          const status = run.rolledBackAt !== null ? chalk.gray(' (已回滚)') : '';
+          console.log(`  ${run.runId}  ${new Date(run.startedAt).toLocaleString()}  ${run.files.length} 个文件${status}`);
+        });
+        return;
+      }
+
+      const { run, overwritten } = await rollbackCommand.execute({
+        ...(runId ? { runId } : {}),
+        force: Boolean(options.force),
+      });
+
+      overwritten.forEach(filePath => {
+        console.log(chalk.yellow(`  ⚠️  已覆盖运行后的修改: ${filePath}`));
+      });
+      run.files.forEach(entry => {
+        console.log(`  ${entry.existed ? '↩️  恢复' : '🗑️  删除'} ${entry.path}`);
+      });
+      console.log(chalk.green(`\n✅ 已回滚运行 ${run.runId}，共 ${run.files.length} 个文件`));
+    } catch (error) {
+      console.error(chalk.red(`❌ 回滚失败: ${error instanceof Error ? error.message : String(error)}`));
       process.exit(1);
     }
   });
@@ -189,8 +560,12 @@ program
   .command('validate')
   .description('验证配置和LLM连接')
   .option('-c, --config <path>', '配置文件路径')
+  .option('--json', '以 JSON 格式向标准输出打印结果，日志以 JSON 行写入标准错误')
+  .option('--report <file>', '将 JSON 格式的结果写入指定文件')
   .action(async (options) => {
-    const spinner = ora('🔍 正在验证配置...').start();
+    const reporter = new CommandReporter('validate', options);
+    reporter.begin();
+    const spinner = ora({ text: '🔍 正在验证配置...', isSilent: reporter.json }).start();
     
     try {
       const configManager = new ConfigManager();
@@ -207,12 +582,23 @@ program
       console.log(chalk.cyan('\n📋 配置摘要:'));
       console.log(`  配置文件: ${configManager.getConfigPath() || '使用默认配置'}`);
       console.log(`  源语言: ${config.locale}`);
-      console.log(`  目标语言: ${config.displayLanguage}`);
+      console.log(`  目标语言: ${getTargetLanguages(config).join(', ')}`);
       console.log(`  LLM 提供者: ${config.llm.provider} (${config.llm.model})`);
       console.log(`  输出目录: ${config.outputDir}`);
+
+      await reporter.finish(0, {
+        configFile: configManager.getConfigPath() || null,
+        locale: config.locale,
+        targetLanguages: getTargetLanguages(config),
+        provider: config.llm.provider,
+        model: config.llm.model,
+        outputDir: config.outputDir,
+        llmConnected: true,
+      });
       
     } catch (error) {
       spinner.fail(chalk.red(`❌ 验证失败: ${error instanceof Error ? error.message : String(error)}`));
+      await reporter.finish(1, undefined, error);
       process.exit(1);
     }
   });
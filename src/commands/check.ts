@@ -0,0 +1,161 @@
+import type { I18nConfig } from '../config/types.js';
+import type { TextCandidate } from '../processor/types.js';
+import { FileScanner } from '../scanner/scanner.js';
+import { AstTextExtractor } from '../processor/ast-extractor.js';
+import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
+
+/**
+ * 检查报告的输出格式
+ */
+export type CheckReportFormat = 'text' | 'json' | 'sarif';
+
+/**
+ * 支持的检查报告格式
+ */
+export const CHECK_REPORT_FORMATS: CheckReportFormat[] = ['text', 'json', 'sarif'];
+
+/**
+ * SARIF 规则ID
+ */
+const SARIF_RULE_ID = 'untranslated-text';
+
+/**
+ * 未国际化的文本
+ */
+export interface CheckIssue {
+  /** 相对路径 */
+  filePath: string;
+  /** 行号（从1开始） */
+  line: number;
+  /** 列号（从1开始） */
+  column: number;
+  /** 文本内容 */
+  text: string;
+  /** 文本类型 */
+  kind: TextCandidate['kind'];
+}
+
+/**
+ * 检查结果
+ */
+export interface CheckResult {
+  /** 检查的文件数 */
+  filesChecked: number;
+  /** 未国际化的文本 */
+  issues: CheckIssue[];
+  /** 无法解析的文件 */
+  errors: Array<{ filePath: string; message: string }>;
+}
+
+/**
+ * 检查命令处理器 - 在本地通过语法树查找未被翻译函数包裹的中文文本，不调用大模型
+ */
+export class CheckCommand {
+  private scanner: FileScanner;
+  private extractor: AstTextExtractor;
+  private fs: FileSystemService;
+
+  constructor(private config: I18nConfig, fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+    this.scanner = new FileScanner(config);
+    this.extractor = new AstTextExtractor(config);
+  }
+
+  /**
+   * 执行检查
+   */
+  async execute(): Promise<CheckResult> {
+    const { files } = await this.scanner.scan();
+    const targetFiles = files.filter(file => this.scanner.shouldProcessFile(file));
+    const result: CheckResult = { filesChecked: targetFiles.length, issues: [], errors: [] };
+
+    for (const file of targetFiles) {
+      try {
+        const code = await this.fs.readFile(file.filePath, 'utf-8');
+        const candidates = this.extractor.collectCandidates(code, file.fileType, file.relativePath);
+
+        result.issues.push(...candidates.map(candidate => ({
+          filePath: file.relativePath,
+          line: candidate.line,
+          column: candidate.column + 1,
+          text: candidate.text,
+          kind: candidate.kind,
+        })));
+      } catch (error) {
+        result.errors.push({
+          filePath: file.relativePath,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 生成指定格式的检查报告
+   */
+  formatReport(result: CheckResult, format: CheckReportFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(result, null, 2);
+      case 'sarif':
+        return JSON.stringify(this.toSarif(result), null, 2);
+      case 'text':
+      default:
+        return this.toText(result);
+    }
+  }
+
+  /**
+   * 生成文本报告，每行格式为 file:line:column
+   */
+  private toText(result: CheckResult): string {
+    return [
+      ...result.issues.map(issue => `${issue.filePath}:${issue.line}:${issue.column}  ${issue.text}`),
+      ...result.errors.map(error => `${error.filePath}  无法解析: ${error.message}`),
+    ].join('\n');
+  }
+
+  /**
+   * 生成 SARIF 2.1.0 报告，可上传到 GitHub 代码扫描等平台
+   */
+  private toSarif(result: CheckResult): Record<string, unknown> {
+    const toLocation = (filePath: string, line?: number, column?: number) => ({
+      physicalLocation: {
+        artifactLocation: { uri: filePath.split('\\').join('/') },
+        ...(line ? { region: { startLine: line, startColumn: column } } : {}),
+      },
+    });
+
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'ai-i18n',
+            rules: [{
+              id: SARIF_RULE_ID,
+              shortDescription: { text: `未被 ${this.config.replacement.functionName}() 包裹的中文文本` },
+            }],
+          },
+        },
+        results: result.issues.map(issue => ({
+          ruleId: SARIF_RULE_ID,
+          level: 'error',
+          message: { text: `未国际化的中文文本: ${issue.text}` },
+          locations: [toLocation(issue.filePath, issue.line, issue.column)],
+        })),
+        invocations: [{
+          executionSuccessful: result.errors.length === 0,
+          toolExecutionNotifications: result.errors.map(error => ({
+            level: 'error',
+            message: { text: `无法解析: ${error.message}` },
+            locations: [toLocation(error.filePath)],
+          })),
+        }],
+      }],
+    };
+  }
+}
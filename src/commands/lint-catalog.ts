@@ -0,0 +1,213 @@
+import type { I18nConfig } from '../config/types.js';
+import { getTargetLanguages } from '../config/manager.js';
+import { FileScanner } from '../scanner/scanner.js';
+import { FileWriter } from '../processor/file-writer.js';
+import { findKeyReferences } from '../utils/key-references.js';
+import { getFunctionNames } from '../config/presets.js';
+import { LocaleFileLayout } from '../utils/locale-layout.js';
+import { TranslationValidator } from '../utils/translation-validator.js';
+import { hasIcuArguments } from '../utils/icu-message.js';
+import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
+
+/**
+ * 语言文件问题类型
+ * - missing: 源码中使用但语言文件中缺失
+ * - unused: 源语言文件中存在但源码从未使用
+ * - orphaned: 目标语言文件中存在但源语言文件中没有
+ * - untranslated: 翻译与源语言文本相同
+ * - placeholder: 占位符与源语言文本不一致，或 ICU 消息语法、复数类别不正确
+ */
+export type CatalogIssueType = 'missing' | 'unused' | 'orphaned' | 'untranslated' | 'placeholder';
+
+/**
+ * 问题类型说明，按输出顺序排列
+ */
+export const CATALOG_ISSUE_LABELS: Record<CatalogIssueType, string> = {
+  missing: '源码中使用但语言文件缺失的key',
+  unused: '源码中未使用的key',
+  orphaned: '源语言文件中不存在的key',
+  untranslated: '未翻译（与源语言文本相同）的key',
+  placeholder: '占位符与源语言不一致的key',
+};
+
+/**
+ * 语言文件问题
+ */
+export interface CatalogIssue {
+  /** 问题类型 */
+  type: CatalogIssueType;
+  /** 翻译key */
+  key: string;
+  /** 语言 */
+  locale: string;
+  /** 问题详情 */
+  message?: string;
+  /** 使用该key的文件（仅 missing） */
+  files?: string[];
+}
+
+/**
+ * 语言文件检查结果
+ */
+export interface LintCatalogResult {
+  /** 扫描的源码文件数 */
+  filesScanned: number;
+  /** 检查的语言 */
+  locales: string[];
+  /** 发现的问题 */
+  issues: CatalogIssue[];
+}
+
+/**
+ * 语言文件检查命令处理器 - 对比源码中的key引用与 outputDir 中的全部语言文件，不调用大模型
+ */
+export class LintCatalogCommand {
+  private scanner: FileScanner;
+  private fileWriter: FileWriter;
+  private layout: LocaleFileLayout;
+  private fs: FileSystemService;
+
+  constructor(private config: I18nConfig, fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+    this.scanner = new FileScanner(config);
+    this.fileWriter = new FileWriter(config, this.fs);
+    this.layout = new LocaleFileLayout(config, this.fs);
+  }
+
+  /**
+   * 执行检查
+   */
+  async execute(): Promise<LintCatalogResult> {
+    const { files } = await this.scanner.scan();
+    const targetFiles = files.filter(file => this.scanner.shouldProcessFile(file));
+    const usages = new Map<string, string[]>();
+
+    for (const file of targetFiles) {
+      // 使用临时目录时检查处理后的文件
+      const targetPath = this.fileWriter.getTargetPath(file);
+      const filePath = await this.fs.pathExists(targetPath) ? targetPath : file.filePath;
+      const code = await this.fs.readFile(filePath, 'utf-8');
+
+      for (const key of findKeyReferences(code, getFunctionNames(this.config.replacement))) {
+        usages.set(key, [...(usages.get(key) || []), file.relativePath]);
+      }
+    }
+
+    const sourceLocale = this.config.locale;
+    const targetLocales = [...new Set([...getTargetLanguages(this.config), ...await this.layout.listLocales()])]
+      .filter(locale => locale !== sourceLocale)
+      .sort();
+    const sourceMessages = await this.fileWriter.readLocale(sourceLocale);
+    const issues: CatalogIssue[] = [];
+
+    issues.push(...this.findMissing(sourceLocale, sourceMessages, usages));
+    for (const key of Object.keys(sourceMessages)) {
+      if (!usages.has(key)) {
+        issues.push({ type: 'unused', key, locale: sourceLocale });
+      }
+    }
+
+    for (const locale of targetLocales) {
+      const messages = await this.fileWriter.readLocale(locale);
+      issues.push(...this.findMissing(locale, messages, usages));
+      issues.push(...this.compareWithSource(locale, messages, sourceMessages));
+    }
+
+    return {
+      filesScanned: targetFiles.length,
+      locales: [sourceLocale, ...targetLocales],
+      issues,
+    };
+  }
+
+  /**
+   * 生成文本报告，按问题类型分组
+   */
+  formatReport(result: LintCatalogResult): string {
+    const lines: string[] = [];
+
+    for (const [type, label] of Object.entries(CATALOG_ISSUE_LABELS) as Array<[CatalogIssueType, string]>) {
+      const issues = result.issues.filter(issue => issue.type === type);
+      if (issues.length === 0) {
+        continue;
+      }
+
+      lines.push(`${label} (${issues.length}):`);
+      for (const issue of issues) {
+        const details = issue.message ?? issue.files?.join(', ');
+        lines.push(`  ${issue.locale}  ${issue.key}${details ? `  ${details}` : ''}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n').trimEnd();
+  }
+
+  /**
+   * 查找源码中使用但语言文件中缺失的key
+   */
+  private findMissing(
+    locale: string,
+    messages: Record<string, string>,
+    usages: Map<string, string[]>
+  ): CatalogIssue[] {
+    return [...usages.entries()]
+      .filter(([key]) => messages[key] === undefined)
+      .map(([key, files]) => ({ type: 'missing', key, locale, files }));
+  }
+
+  /**
+   * 对比目标语言与源语言：多余的key、未翻译的文本和不一致的占位符
+   */
+  private compareWithSource(
+    locale: string,
+    messages: Record<string, string>,
+    sourceMessages: Record<string, string>
+  ): CatalogIssue[] {
+    const issues: CatalogIssue[] = [];
+
+    for (const [key, value] of Object.entries(messages)) {
+      const sourceText = sourceMessages[key];
+      if (sourceText === undefined) {
+        issues.push({ type: 'orphaned', key, locale });
+        continue;
+      }
+
+      // 不含文字的文本（如纯数字、符号）无需翻译
+      if (value === sourceText && /\p{L}/u.test(sourceText)) {
+        issues.push({ type: 'untranslated', key, locale });
+        continue;
+      }
+
+      // ICU 消息需要语法正确、复数类别符合目标语言的 CLDR 规则
+      const icuReason = TranslationValidator.checkIcu(value, locale);
+      if (icuReason) {
+        issues.push({ type: 'placeholder', key, locale, message: icuReason });
+        continue;
+      }
+
+      // ICU 消息的每个分支都会重复占位符，按去重后的集合比较
+      const isIcu = hasIcuArguments(value);
+      const normalize = (names: string[]) => (isIcu ? Array.from(new Set(names)) : names).sort();
+      const expected = normalize(TranslationValidator.extractPlaceholders(sourceText));
+      const actual = normalize(TranslationValidator.extractPlaceholders(value));
+      if (expected.join(',') !== actual.join(',')) {
+        issues.push({
+          type: 'placeholder',
+          key,
+          locale,
+          message: `期望 ${this.formatPlaceholders(expected)}，实际 ${this.formatPlaceholders(actual)}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * 格式化占位符列表
+   */
+  private formatPlaceholders(names: string[]): string {
+    return names.length > 0 ? names.map(name => `{${name}}`).join(' ') : '无';
+  }
+}
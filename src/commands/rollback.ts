@@ -0,0 +1,60 @@
+import { DEFAULT_CACHE_DIR } from '../config/defaults.js';
+import { RunBackup, type RunBackupData } from '../utils/run-backup.js';
+import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
+
+/**
+ * 回滚结果
+ */
+export interface RollbackResult {
+  /** 回滚的运行 */
+  run: RunBackupData;
+  /** 运行后被修改、被强制覆盖的文件 */
+  overwritten: string[];
+}
+
+/**
+ * 回滚命令处理器 - 将一次提取运行修改过的源文件和语言文件恢复到运行前的状态
+ */
+export class RollbackCommand {
+  private runBackup: RunBackup;
+
+  constructor(fileSystem?: FileSystemService) {
+    this.runBackup = new RunBackup(DEFAULT_CACHE_DIR, fileSystem || getFileSystem());
+  }
+
+  /**
+   * 列出全部运行记录，最近的在前
+   */
+  async listRuns(): Promise<RunBackupData[]> {
+    return this.runBackup.list();
+  }
+
+  /**
+   * 执行回滚，未指定 runId 时回滚最近一次尚未回滚的运行
+   * 文件在运行后被修改时拒绝回滚，除非指定 force
+   */
+  async execute(options: { runId?: string; force?: boolean } = {}): Promise<RollbackResult> {
+    const runs = await this.runBackup.list();
+    const run = options.runId
+      ? runs.find(item => item.runId === options.runId)
+      : runs.find(item => item.rolledBackAt === null);
+
+    if (!run) {
+      throw new Error(options.runId ? `未找到运行记录: ${options.runId}` : '没有可回滚的运行记录');
+    }
+    if (run.rolledBackAt !== null) {
+      throw new Error(`运行 ${run.runId} 已于 ${new Date(run.rolledBackAt).toLocaleString()} 回滚`);
+    }
+
+    const modified = await this.runBackup.findModified(run);
+    if (modified.length > 0 && !options.force) {
+      throw new Error(
+        `以下文件在运行 ${run.runId} 之后被修改，回滚会丢失这些修改，确认后使用 --force 强制回滚:\n` +
+        modified.map(filePath => `  ${filePath}`).join('\n')
+      );
+    }
+
+    await this.runBackup.restore(run);
+    return { run, overwritten: modified };
+  }
+}
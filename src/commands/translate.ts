@@ -1,83 +1,356 @@
 import chalk from 'chalk';
-import ora from 'ora';
-import type { I18nConfig } from '../config/types.js';
-import { TemplateManager } from '../templates/manager.js';
+import fg from 'fast-glob';
+import type { I18nConfig, LanguageTranslationStats, BatchTranslationResult, CacheStats } from '../config/types.js';
+import { getTargetLanguages } from '../config/manager.js';
 import { LLMClient } from '../llm/client.js';
+import { DEFAULT_CACHE_DIR } from '../config/defaults.js';
 import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
+import { SourceHashStore } from '../utils/source-hash.js';
+import { NumericPlaceholderStore } from '../utils/numeric-placeholders.js';
+import { LocaleFileLayout } from '../utils/locale-layout.js';
+import { CatalogStore } from '../catalog/store.js';
+import { CatalogFormatRegistry } from '../catalog/registry.js';
+
+/**
+ * 待翻译文本分析结果
+ */
+interface PendingTexts {
+  /** 需要翻译的文本 */
+  pending: Record<string, string>;
+  /** 目标文件中缺失的key数量 */
+  missingCount: number;
+  /** 源文本已变更的key数量 */
+  staleCount: number;
+}
+
+/**
+ * 待翻译的源语言文件
+ */
+interface TranslationSource {
+  /** 源语言文件路径 */
+  sourceFile: string;
+  /** 获取指定目标语言的输出文件路径 */
+  getOutputFile: (language: string) => string;
+}
 
 /**
  * 独立翻译命令处理器
  */
 export class TranslateCommand {
   private config: I18nConfig;
-  private templateManager: TemplateManager;
   private llmClient: LLMClient;
   private fs: FileSystemService;
+  private layout: LocaleFileLayout;
+  private catalogs: CatalogStore;
+  private numericPlaceholders: NumericPlaceholderStore;
 
   constructor(config: I18nConfig, fileSystem?: FileSystemService) {
     this.config = config;
     this.fs = fileSystem || getFileSystem();
-    this.templateManager = new TemplateManager(undefined, this.fs);
-    this.llmClient = new LLMClient(config.llm);
+    this.layout = new LocaleFileLayout(config, this.fs);
+    this.catalogs = new CatalogStore(config, this.fs);
+    this.numericPlaceholders = new NumericPlaceholderStore(DEFAULT_CACHE_DIR, this.fs);
+    this.llmClient = new LLMClient(
+      config.llm,
+      config.locale,
+      config.displayLanguage,
+      { enabled: true, cacheDir: DEFAULT_CACHE_DIR }
+    );
   }
 
   /**
-   * 执行翻译命令
+   * 执行翻译命令，target 可为逗号分隔的多个目标语言
+   * source 为目录或语言文件按命名空间拆分时，翻译其中的全部语言文件
    */
   async execute(options: {
     source?: string;
     target?: string;
     output?: string;
-  }): Promise<void> {
-    const sourceFile = options.source || this.getDefaultSourceFile();
-    const targetLanguage = options.target || this.config.displayLanguage;
-    const outputFile = options.output || this.getDefaultOutputFile(targetLanguage);
+  }): Promise<LanguageTranslationStats[]> {
+    const targetLanguages = options.target
+      ? options.target.split(',').map(language => language.trim()).filter(Boolean)
+      : getTargetLanguages(this.config);
 
-    console.log(chalk.cyan('🌐 翻译配置:'));
-    console.log(`  源文件: ${sourceFile}`);
-    console.log(`  目标语言: ${targetLanguage}`);
-    console.log(`  输出文件: ${outputFile}`);
+    if (targetLanguages.length === 0) {
+      throw new Error('未指定目标语言');
+    }
+    if (options.output && targetLanguages.length > 1) {
+      throw new Error('指定输出路径时只能翻译到一个目标语言');
+    }
 
-    // 验证源文件
-    if (!await this.fs.pathExists(sourceFile)) {
-      throw new Error(`源文件不存在: ${sourceFile}`);
+    const sourcePath = options.source || this.layout.getFilePath(
+      this.config.locale,
+      this.layout.isSplitByNamespace() ? '*' : ''
+    );
+
+    console.log(chalk.cyan('🌐 翻译配置:'));
+    console.log(`  源文件: ${sourcePath}`);
+    console.log(`  目标语言: ${targetLanguages.join(', ')}`);
+    if (options.output) {
+      console.log(`  输出路径: ${options.output}`);
     }
 
-    // 读取源文件
-    const sourceTexts = await this.loadSourceTexts(sourceFile);
-    const textCount = Object.keys(sourceTexts).length;
+    // 定位源语言文件并读取源文本
+    const sources = await this.resolveSources(options.source, options.output);
+    const sourceTexts = new Map<TranslationSource, Record<string, string>>();
+    for (const source of sources) {
+      sourceTexts.set(source, await this.loadSourceTexts(source.sourceFile));
+    }
+    // 读取提取时标记的数量占位符，与 extract 生成相同的复数消息
+    await this.numericPlaceholders.load();
 
+    const textCount = [...sourceTexts.values()].reduce((sum, texts) => sum + Object.keys(texts).length, 0);
     if (textCount === 0) {
       console.log(chalk.yellow('⚠️  源文件中没有找到可翻译的文本'));
-      return;
+      return [];
+    }
+
+    // 按并发数同时翻译多个目标语言
+    const concurrency = this.config.llm.translation.concurrency;
+    const results: LanguageTranslationStats[] = [];
+
+    for (let i = 0; i < targetLanguages.length; i += concurrency) {
+      const batch = targetLanguages.slice(i, i + concurrency);
+      results.push(...await Promise.all(batch.map(language => this.translateLanguage(sourceTexts, language))));
+    }
+
+    this.printSummary(results);
+
+    // 全部目标语言失败时视为致命错误，部分失败由调用方根据结果处理
+    const failedLanguages = results.filter(result => result.error);
+    if (failedLanguages.length === results.length) {
+      throw new Error(`${failedLanguages.length} 个目标语言翻译失败: ${failedLanguages.map(result => result.language).join(', ')}`);
+    }
+
+    return results;
+  }
+
+  /**
+   * 定位需要翻译的源语言文件
+   */
+  private async resolveSources(source?: string, output?: string): Promise<TranslationSource[]> {
+    if (!source) {
+      if (this.layout.isSplitByNamespace()) {
+        return this.resolveNamespaceSources(output);
+      }
+      source = this.layout.getFilePath(this.config.locale);
+    }
+
+    if (!await this.fs.pathExists(source)) {
+      throw new Error(`源文件不存在: ${source}`);
+    }
+
+    if (await this.fs.isDirectory(source)) {
+      return this.resolveDirectorySources(source, output);
+    }
+
+    if (!output && this.layout.isSplitByNamespace()) {
+      throw new Error('语言文件按命名空间拆分时，请使用 --output 指定输出文件');
+    }
+
+    return [{
+      sourceFile: source,
+      getOutputFile: language => output || this.layout.getFilePath(language),
+    }];
+  }
+
+  /**
+   * 按 localeFileName 中的 {namespace} 定位源语言的全部命名空间文件
+   */
+  private async resolveNamespaceSources(output?: string): Promise<TranslationSource[]> {
+    const entries = await this.layout.listFiles(this.config.locale);
+
+    if (entries.length === 0) {
+      throw new Error(`源文件不存在: ${this.layout.getFilePath(this.config.locale, '*')}`);
+    }
+
+    return entries.map(({ namespace, filePath }) => ({
+      sourceFile: filePath,
+      getOutputFile: language => output
+        ? this.fs.join(output, `${namespace}${this.fs.extname(filePath)}`)
+        : this.layout.getFilePath(language, namespace),
+    }));
+  }
+
+  /**
+   * 翻译目录下的全部语言文件，按相对路径输出到目标目录
+   * 未指定输出目录时，源目录名为源语言时输出到同级的目标语言目录
+   */
+  private async resolveDirectorySources(sourceDir: string, output?: string): Promise<TranslationSource[]> {
+    if (!output && this.fs.basename(sourceDir) !== this.config.locale) {
+      throw new Error(`无法根据源目录 ${sourceDir} 推断输出目录，请使用 --output 指定输出目录`);
+    }
+
+    const extensions = CatalogFormatRegistry.getExtensions().map(extension => extension.slice(1));
+    const files = await fg(`**/*.{${extensions.join(',')}}`, { cwd: sourceDir, onlyFiles: true });
+
+    if (files.length === 0) {
+      throw new Error(`源目录中没有语言文件: ${sourceDir}`);
     }
 
-    console.log(chalk.cyan(`📝 发现 ${textCount} 条文本待翻译...`));
+    return files.sort().map(file => ({
+      sourceFile: this.fs.join(sourceDir, file),
+      getOutputFile: language => this.fs.join(output || this.fs.join(this.fs.dirname(sourceDir), language), file),
+    }));
+  }
+
+  /**
+   * 翻译到单个目标语言，汇总各源语言文件的结果
+   */
+  private async translateLanguage(
+    sourceTexts: Map<TranslationSource, Record<string, string>>,
+    targetLanguage: string
+  ): Promise<LanguageTranslationStats> {
+    const results: LanguageTranslationStats[] = [];
+
+    for (const [source, texts] of sourceTexts) {
+      if (Object.keys(texts).length > 0) {
+        results.push(await this.translateFile(texts, targetLanguage, source.getOutputFile(targetLanguage)));
+      }
+    }
+
+    const failedResults = results.filter(result => result.error);
+    const stats: LanguageTranslationStats = {
+      language: targetLanguage,
+      translated: results.reduce((sum, result) => sum + result.translated, 0),
+      failed: results.reduce((sum, result) => sum + result.failed, 0),
+      unresolved: results.flatMap(result => result.unresolved),
+      filePath: results.map(result => result.filePath).join(', '),
+    };
+
+    if (failedResults.length > 0) {
+      stats.error = results.length === 1
+        ? String(failedResults[0].error)
+        : failedResults.map(result => `${result.filePath}: ${result.error}`).join('; ');
+    }
+
+    return stats;
+  }
+
+  /**
+   * 将单个源语言文件翻译到目标语言
+   */
+  private async translateFile(
+    sourceTexts: Record<string, string>,
+    targetLanguage: string,
+    outputFile: string
+  ): Promise<LanguageTranslationStats> {
+    const textCount = Object.keys(sourceTexts).length;
 
-    // 执行翻译
-    const spinner = ora('🔄 正在翻译...').start();
-    
     try {
-      const translations = await this.translateTexts(sourceTexts, targetLanguage);
-      
+      // 读取已有翻译和源文本哈希，只翻译缺失或源文本已变更的key
+      const existingTranslations = await this.loadExistingTranslations(outputFile);
+      const sourceHashes = new SourceHashStore(outputFile, this.fs);
+      await sourceHashes.load();
+
+      const { pending, missingCount, staleCount } = this.collectPendingTexts(
+        sourceTexts,
+        existingTranslations,
+        sourceHashes
+      );
+      const pendingCount = Object.keys(pending).length;
+
+      if (pendingCount === 0) {
+        await sourceHashes.save();
+        console.log(chalk.green(`✅ [${targetLanguage}] ${outputFile}: ${textCount} 条文本均已翻译，无需更新`));
+        return { language: targetLanguage, translated: 0, failed: 0, unresolved: [], filePath: outputFile };
+      }
+
+      console.log(chalk.cyan(`📝 [${targetLanguage}] ${outputFile}: 发现 ${pendingCount} 条文本待翻译 (新增 ${missingCount} 条，源文本变更 ${staleCount} 条，共 ${textCount} 条)...`));
+
+      const { translations, unresolved } = await this.translateTexts(pending, targetLanguage);
+
+      // 合并到已有翻译，仅覆盖本次翻译的key
+      const merged = { ...existingTranslations };
+      for (const key of Object.keys(pending)) {
+        if (key in translations) {
+          merged[key] = translations[key];
+          sourceHashes.record(key, pending[key]);
+        }
+      }
+
       // 保存翻译结果
-      await this.saveTranslations(translations, outputFile);
-      
-      spinner.succeed(chalk.green('✅ 翻译完成'));
-      
-      // 显示结果统计
-      const translatedCount = Object.keys(translations).length;
-      console.log(chalk.cyan('\n📊 翻译结果:'));
-      console.log(`  翻译文本: ${translatedCount} 条`);
-      console.log(`  输出文件: ${outputFile}`);
-      
-      if (translatedCount < textCount) {
-        console.log(chalk.yellow(`  ⚠️  ${textCount - translatedCount} 条文本翻译失败，使用原文`));
+      await this.saveTranslations(merged, outputFile, targetLanguage, sourceTexts);
+      await sourceHashes.save();
+
+      const translatedCount = Object.keys(pending).filter(key => key in translations).length;
+      return {
+        language: targetLanguage,
+        translated: translatedCount,
+        failed: pendingCount - translatedCount,
+        unresolved,
+        filePath: outputFile,
+      };
+    } catch (error) {
+      return {
+        language: targetLanguage,
+        translated: 0,
+        failed: 0,
+        unresolved: [],
+        filePath: outputFile,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * 输出各目标语言的翻译结果
+   */
+  private printSummary(results: LanguageTranslationStats[]): void {
+    console.log(chalk.cyan('\n📊 翻译结果:'));
+
+    for (const result of results) {
+      if (result.error) {
+        console.log(chalk.red(`  ❌ ${result.language}: ${result.error}`));
+        continue;
       }
-      
+
+      console.log(`  ✅ ${result.language}: 翻译 ${result.translated} 条 → ${result.filePath}`);
+      if (result.failed > 0) {
+        console.log(chalk.yellow(`     ⚠️  ${result.failed} 条文本翻译失败，将在下次运行时重试`));
+        result.unresolved.forEach(issue => {
+          console.log(chalk.yellow(`       ${issue.key}: ${issue.reason}`));
+        });
+      }
+    }
+  }
+
+  /**
+   * 找出目标文件中缺失或源文本已变更的key
+   */
+  private collectPendingTexts(
+    sourceTexts: Record<string, string>,
+    existingTranslations: Record<string, string>,
+    sourceHashes: SourceHashStore
+  ): PendingTexts {
+    const pending: Record<string, string> = {};
+    let missingCount = 0;
+    let staleCount = 0;
+
+    for (const [key, text] of Object.entries(sourceTexts)) {
+      if (!(key in existingTranslations)) {
+        pending[key] = text;
+        missingCount++;
+      } else if (sourceHashes.isStale(key, text)) {
+        pending[key] = text;
+        staleCount++;
+      } else if (!sourceHashes.has(key)) {
+        // 没有哈希记录的已有翻译（如手工添加）视为最新，从现在开始跟踪
+        sourceHashes.record(key, text);
+      }
+    }
+
+    return { pending, missingCount, staleCount };
+  }
+
+  /**
+   * 加载已有的翻译文件，不存在时返回空对象
+   */
+  private async loadExistingTranslations(filePath: string): Promise<Record<string, string>> {
+    try {
+      return await this.catalogs.readMessages(filePath);
     } catch (error) {
-      spinner.fail(chalk.red('❌ 翻译失败'));
-      throw error;
+      throw new Error(`读取已有翻译文件失败: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -86,37 +359,29 @@ export class TranslateCommand {
    */
   private async loadSourceTexts(filePath: string): Promise<Record<string, string>> {
     try {
-      const content = await this.fs.readFile(filePath, 'utf-8');
-      const parsed = JSON.parse(content);
-      
-      if (typeof parsed !== 'object' || parsed === null) {
-        throw new Error('源文件格式无效，应为JSON对象');
-      }
-      
-      return parsed;
+      return await this.catalogs.readMessages(filePath);
     } catch (error) {
       throw new Error(`读取源文件失败: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * 获取大模型缓存统计
+   */
+  getCacheStats(): CacheStats {
+    return this.llmClient.getCacheStats();
+  }
+
   /**
    * 翻译文本
    */
   private async translateTexts(
     sourceTexts: Record<string, string>, 
     targetLanguage: string
-  ): Promise<Record<string, string>> {
-    // 使用模板管理器编译翻译提示词
-    const templateResult = await this.templateManager.compileTranslationTemplate(
-      sourceTexts,
-      this.config.locale,
-      targetLanguage
-    );
-
-    // 调用LLM进行翻译
-    const translationResult = await this.llmClient.translateTexts(templateResult.prompt);
-    
-    return translationResult.translations;
+  ): Promise<BatchTranslationResult> {
+    // 与提取流程共用分批、缓存、重试和校验逻辑
+    const plurals = this.numericPlaceholders.collectPlurals(sourceTexts, this.config.replacement);
+    return this.llmClient.batchTranslateTexts(sourceTexts, targetLanguage, plurals);
   }
 
   /**
@@ -124,33 +389,15 @@ export class TranslateCommand {
    */
   private async saveTranslations(
     translations: Record<string, string>,
-    outputFile: string
+    outputFile: string,
+    targetLanguage: string,
+    sourceTexts: Record<string, string>
   ): Promise<void> {
-    // 确保输出目录存在
-    await this.fs.ensureDir(this.fs.dirname(outputFile));
-    
-    // 格式化输出
-    const output = this.config.output?.prettyJson 
-      ? JSON.stringify(translations, null, 2)
-      : JSON.stringify(translations);
-    
-    await this.fs.writeFile(outputFile, output, 'utf-8');
-  }
-
-  /**
-   * 获取默认源文件路径
-   */
-  private getDefaultSourceFile(): string {
-    const fileName = this.config.output?.localeFileName?.replace('{locale}', this.config.locale) || `${this.config.locale}.json`;
-    return this.fs.join(this.config.outputDir, fileName);
-  }
-
-  /**
-   * 获取默认输出文件路径
-   */
-  private getDefaultOutputFile(targetLanguage: string): string {
-    const fileName = this.config.output?.localeFileName?.replace('{locale}', targetLanguage) || `${targetLanguage}.json`;
-    return this.fs.join(this.config.outputDir, fileName);
+    // 按输出文件的格式写入，保留已有的注释等信息
+    await this.catalogs.write(outputFile, translations, {
+      locale: targetLanguage,
+      sourceMessages: sourceTexts,
+    });
   }
 
   /**
@@ -18,6 +18,9 @@ export const DEFAULT_CONFIG: I18nConfig = {
     '**/*.test.{js,jsx,ts,tsx}',
     '**/*.spec.{js,jsx,ts,tsx}',
   ],
+  extraction: {
+    mode: 'llm',
+  },
   keyGeneration: {
     maxChineseLength: 10,
     hashLength: 6,
@@ -31,8 +34,17 @@ export const DEFAULT_CONFIG: I18nConfig = {
     },
   },
   replacement: {
+    framework: 'custom',
     functionName: '$t',
     quoteType: 'single',
+    placeholderSyntax: '{x}',
+    pluralFormat: 'icu',
+    richText: {
+      enabled: false,
+      tagStyle: 'numbered',
+      component: 'Trans',
+      importStatement: "import { Trans } from 'react-i18next';",
+    },
     autoImport: {
       enabled: false,
     },
@@ -40,6 +52,17 @@ export const DEFAULT_CONFIG: I18nConfig = {
   output: {
     prettyJson: true,
     localeFileName: '{locale}.json',
+    structure: 'flat',
+    namespace: {
+      strategy: 'none',
+      baseDir: 'src',
+      defaultNamespace: 'common',
+    },
+    typings: {
+      enabled: false,
+      outputFile: 'src/i18n-keys.d.ts',
+      framework: 'none',
+    },
   },
   logging: {
     enabled: true,
@@ -59,10 +82,16 @@ export const DEFAULT_CONFIG: I18nConfig = {
     translation: {
       temperature: 0.3,
       batchSize: 20,
+      concurrency: 2,
     },
   },
 };
 
+/**
+ * 缓存目录
+ */
+export const DEFAULT_CACHE_DIR = '.ai-i18n-cache';
+
 /**
  * 配置文件名
  */
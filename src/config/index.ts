@@ -1,4 +1,5 @@
 export * from './types.js';
 export * from './defaults.js';
 export * from './validation.js';
-export * from './manager.js';
\ No newline at end of file
+export * from './manager.js';
+export * from './presets.js';
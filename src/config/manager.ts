@@ -1,7 +1,8 @@
 import { cosmiconfigSync } from 'cosmiconfig';
-import type { I18nConfig } from './types.js';
+import type { I18nConfig, DeepPartial } from './types.js';
 import { DEFAULT_CONFIG, CONFIG_FILE_NAMES } from './defaults.js';
 import { validateConfig } from './validation.js';
+import { getFrameworkPreset } from './presets.js';
 import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
 
 // 使用简单的合并函数替代 lodash
@@ -19,6 +20,15 @@ function deepMerge(target: any, source: any): any {
   return result;
 }
 
+/**
+ * 获取需要翻译的目标语言列表
+ */
+export function getTargetLanguages(config: I18nConfig): string[] {
+  return config.targetLanguages && config.targetLanguages.length > 0
+    ? config.targetLanguages
+    : [config.displayLanguage];
+}
+
 /**
  * 配置管理器
  */
@@ -89,14 +99,18 @@ export class ConfigManager {
   /**
    * 初始化配置文件
    */
-  async initConfig(outputPath: string = 'i18n.config.json'): Promise<void> {
+  async initConfig(
+    outputPath: string = 'i18n.config.json',
+    framework: I18nConfig['replacement']['framework'] = 'custom'
+  ): Promise<void> {
     const configPath = this.fs.resolve(outputPath);
     
     if (await this.fs.pathExists(configPath)) {
       throw new Error(`配置文件已存在: ${configPath}`);
     }
 
-    const content = JSON.stringify(DEFAULT_CONFIG, null, 2);
+    const config = this.mergeWithDefaults({ replacement: { framework } });
+    const content = JSON.stringify(config, null, 2);
     await this.fs.writeFile(configPath, content, 'utf-8');
     console.log(`配置文件已创建: ${configPath}`);
   }
@@ -123,10 +137,11 @@ export class ConfigManager {
   }
 
   /**
-   * 合并用户配置与默认配置
+   * 合并用户配置与默认配置，设置了 replacement.framework 时先合并框架预设
    */
-  private mergeWithDefaults(userConfig: Partial<I18nConfig>): I18nConfig {
-    return deepMerge(DEFAULT_CONFIG, userConfig);
+  private mergeWithDefaults(userConfig: DeepPartial<I18nConfig>): I18nConfig {
+    const preset = getFrameworkPreset(userConfig.replacement?.framework);
+    return deepMerge(deepMerge(DEFAULT_CONFIG, preset), userConfig);
   }
 
   /**
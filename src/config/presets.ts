@@ -0,0 +1,136 @@
+import type { FrameworkPreset, ReplacementConfig } from './types.js';
+
+/**
+ * 支持的框架预设名称
+ */
+export const FRAMEWORKS: ReadonlyArray<ReplacementConfig['framework']> = [
+  'react-i18next',
+  'vue-i18n',
+  'next-intl',
+  'angular',
+  'custom',
+];
+
+/**
+ * 框架预设
+ */
+export const FRAMEWORK_PRESETS: Record<Exclude<ReplacementConfig['framework'], 'custom'>, FrameworkPreset> = {
+  'react-i18next': {
+    replacement: {
+      functionName: 't',
+      instance: {
+        functionName: 'i18n.t',
+        importStatement: "import i18n from 'i18next';",
+      },
+      placeholderSyntax: '{{x}}',
+      richText: {
+        component: 'Trans',
+        importStatement: "import { Trans } from 'react-i18next';",
+      },
+      autoImport: {
+        enabled: true,
+        insertPosition: 'afterImports',
+        imports: {
+          '**/*.{js,jsx,ts,tsx}': {
+            importStatement: "import { useTranslation } from 'react-i18next';",
+            hookStatement: 'const { t } = useTranslation();',
+          },
+        },
+      },
+    },
+    output: {
+      localeFileName: '{locale}/translation.json',
+      typings: { framework: 'i18next' },
+    },
+  },
+  'vue-i18n': {
+    replacement: {
+      functionName: 't',
+      callForms: {
+        vueTemplate: '$t',
+        vueScriptSetup: 't',
+        vueOptionsApi: 'this.$t',
+      },
+      placeholderSyntax: '{x}',
+      // vue-i18n 使用 | 分隔的复数形式，无法解析 ICU plural
+      pluralFormat: 'none',
+      autoImport: {
+        enabled: true,
+        insertPosition: 'afterImports',
+        imports: {
+          '**/*.vue': {
+            importStatement: "import { useI18n } from 'vue-i18n';",
+            hookStatement: 'const { t } = useI18n();',
+          },
+          '**/*.{js,ts}': {
+            importStatement: "import { useI18n } from 'vue-i18n';",
+            hookStatement: 'const { t } = useI18n();',
+          },
+        },
+      },
+    },
+    output: {
+      localeFileName: '{locale}.json',
+      typings: { framework: 'vue-i18n' },
+    },
+  },
+  'next-intl': {
+    outputDir: 'messages',
+    replacement: {
+      functionName: 't',
+      placeholderSyntax: '{x}',
+      autoImport: {
+        enabled: true,
+        insertPosition: 'afterImports',
+        imports: {
+          '**/*.{js,jsx,ts,tsx}': {
+            importStatement: "import { useTranslations } from 'next-intl';",
+            hookStatement: 'const t = useTranslations();',
+          },
+        },
+      },
+    },
+    output: {
+      localeFileName: '{locale}.json',
+    },
+  },
+  angular: {
+    outputDir: 'src/assets/i18n',
+    replacement: {
+      functionName: 'this.translate.instant',
+      placeholderSyntax: '{{x}}',
+      autoImport: {
+        enabled: true,
+        insertPosition: 'afterImports',
+        imports: {
+          '**/*.ts': {
+            importStatement: "import { inject } from '@angular/core';\nimport { TranslateService } from '@ngx-translate/core';",
+            hookStatement: 'private readonly translate = inject(TranslateService);',
+          },
+        },
+      },
+    },
+    output: {
+      localeFileName: '{locale}.json',
+    },
+  },
+};
+
+/**
+ * 获取框架预设，custom 或未设置时返回空预设
+ */
+export function getFrameworkPreset(framework?: ReplacementConfig['framework']): Partial<FrameworkPreset> {
+  return framework && framework !== 'custom' ? FRAMEWORK_PRESETS[framework] ?? {} : {};
+}
+
+/**
+ * 获取全部调用形式的函数名，按长度降序，如 this.$t 排在 $t 之前
+ */
+export function getFunctionNames(replacement: ReplacementConfig): string[] {
+  const names = [
+    replacement.functionName,
+    ...Object.values(replacement.callForms || {}),
+    replacement.instance?.functionName ?? '',
+  ];
+  return Array.from(new Set(names.filter(Boolean))).sort((a, b) => b.length - a.length);
+}
@@ -1,3 +1,10 @@
+import type { FileProcessResult } from '../processor/types.js';
+
+/**
+ * 递归可选类型，用于用户配置等只设置部分字段的对象
+ */
+export type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
 /**
  * 配置文件类型定义
  */
@@ -6,6 +13,8 @@ export interface I18nConfig {
   locale: string;
   /** 目标语言 */
   displayLanguage: string;
+  /** 多个目标语言，未设置时使用 displayLanguage */
+  targetLanguages?: string[];
   /** 输出目录 */
   outputDir: string;
   /** 临时目录，如果设置则不修改源文件 */
@@ -14,6 +23,8 @@ export interface I18nConfig {
   include: string[];
   /** 排除的文件模式 */
   exclude: string[];
+  /** 提取方式配置 */
+  extraction: ExtractorConfig;
   /** Key生成配置 */
   keyGeneration: KeyGenerationConfig;
   /** 替换配置 */
@@ -26,6 +37,12 @@ export interface I18nConfig {
   llm: LLMConfig;
 }
 
+/** 提取方式配置 */
+export interface ExtractorConfig {
+  /** 提取模式: ast 本地语法树提取，llm 大模型提取，hybrid 语法树提取候选并由大模型分类 */
+  mode: 'ast' | 'llm' | 'hybrid';
+}
+
 /** Key生成配置 */
 export interface KeyGenerationConfig {
   /** 中文文本最大长度 */
@@ -54,14 +71,71 @@ export interface PinyinOptions {
 
 /** 替换配置 */
 export interface ReplacementConfig {
+  /** 框架预设: 设置调用形式、导入语句、hook 注入和语言文件布局，custom 不使用预设 */
+  framework: 'react-i18next' | 'vue-i18n' | 'next-intl' | 'angular' | 'custom';
   /** 翻译函数名 */
   functionName: string;
+  /** 不同代码位置的调用形式，未设置时使用 functionName */
+  callForms?: CallFormsConfig;
+  /** 组件和自定义 hook 之外使用的 i18n 实例，未设置时使用 functionName */
+  instance?: InstanceConfig;
   /** 引号类型 */
   quoteType: 'single' | 'double' | 'auto';
+  /** 插值占位符语法: {x} 单花括号，{{x}} 双花括号，%s 按出现顺序的位置参数 */
+  placeholderSyntax: '{x}' | '{{x}}' | '%s';
+  /** 复数格式: icu 将数量占位符翻译为 ICU plural（仅 {x} 语法），none 不生成复数形式 */
+  pluralFormat: 'icu' | 'none';
+  /** 富文本配置 */
+  richText: RichTextConfig;
   /** 自动导入配置 */
   autoImport: AutoImportConfig;
 }
 
+/** 框架预设，按 默认配置 → 框架预设 → 用户配置 的顺序合并 */
+export interface FrameworkPreset {
+  /** 语言文件输出目录 */
+  outputDir?: string;
+  /** 调用形式、导入语句和 hook 注入 */
+  replacement: Partial<Pick<ReplacementConfig, 'functionName' | 'callForms' | 'instance' | 'placeholderSyntax' | 'pluralFormat'>> & {
+    richText?: Partial<RichTextConfig>;
+    autoImport?: AutoImportConfig;
+  };
+  /** 语言文件布局 */
+  output?: Partial<Pick<OutputConfig, 'localeFileName' | 'structure'>> & {
+    typings?: Partial<TypingsConfig>;
+  };
+}
+
+/** 组件外使用的 i18n 实例配置 */
+export interface InstanceConfig {
+  /** 调用形式，如 i18n.t */
+  functionName: string;
+  /** 实例的导入语句，如 import i18n from 'i18next'; */
+  importStatement: string;
+}
+
+/** 不同代码位置的调用形式 */
+export interface CallFormsConfig {
+  /** Vue 模板中的调用，如 $t */
+  vueTemplate?: string;
+  /** Vue <script setup> 中的调用，如 t */
+  vueScriptSetup?: string;
+  /** Vue 选项式 API 组件方法中的调用，如 this.$t */
+  vueOptionsApi?: string;
+}
+
+/** 富文本配置 */
+export interface RichTextConfig {
+  /** 是否将包含行内标签的 JSX 文本提取为一条带标签的消息 */
+  enabled: boolean;
+  /** 标签形式: numbered 为 <0>这里</0>，named 为 <link>这里</link> */
+  tagStyle: 'numbered' | 'named';
+  /** 富文本组件名 */
+  component: string;
+  /** 组件导入语句，文件使用了富文本组件但未导入时自动添加 */
+  importStatement?: string;
+}
+
 /** 自动导入配置 */
 export interface AutoImportConfig {
   /** 是否启用自动导入 */
@@ -76,6 +150,8 @@ export interface AutoImportConfig {
 export interface ImportStatement {
   /** 导入语句 */
   importStatement: string;
+  /** 注入到组件中的 hook 语句，如 const { t } = useI18n(); */
+  hookStatement?: string;
 }
 
 /** 输出配置 */
@@ -84,6 +160,38 @@ export interface OutputConfig {
   prettyJson: boolean;
   /** 本地化文件名模式 */
   localeFileName: string;
+  /** 语言文件格式，如 json、yaml、po、xliff、xliff2、arb、android、ios，未指定时按 localeFileName 的扩展名推断 */
+  format?: string;
+  /** 语言文件结构: flat 扁平key，nested 按点号拆分为嵌套对象 */
+  structure: 'flat' | 'nested';
+  /** 命名空间配置 */
+  namespace: NamespaceConfig;
+  /** key类型定义生成配置 */
+  typings: TypingsConfig;
+}
+
+/** key类型定义生成配置 */
+export interface TypingsConfig {
+  /** 是否在提取后生成类型定义 */
+  enabled: boolean;
+  /** 输出文件路径，.d.ts 生成类型声明，.ts 生成包含全部key的常量 */
+  outputFile: string;
+  /** 类型增强: none 仅导出key类型，i18next 增强 CustomTypeOptions，vue-i18n 增强 DefineLocaleMessage */
+  framework: 'none' | 'i18next' | 'vue-i18n';
+}
+
+/** 命名空间配置 */
+export interface NamespaceConfig {
+  /** 命名空间策略: none 不使用，directory 按源文件目录，keyPrefix 使用key前缀，fixed 固定命名空间 */
+  strategy: 'none' | 'directory' | 'keyPrefix' | 'fixed';
+  /** directory 策略下计算相对目录的根目录 */
+  baseDir: string;
+  /** fixed 策略下的命名空间，多级用点号分隔 */
+  value?: string;
+  /** 源文件glob到命名空间的映射，优先于策略，按顺序匹配第一个 */
+  mapping?: Record<string, string>;
+  /** 按命名空间拆分语言文件时，未匹配到命名空间的文本使用的默认命名空间 */
+  defaultNamespace: string;
 }
 
 /** 日志配置 */
@@ -140,6 +248,8 @@ export interface TranslationConfig {
   maxTokens?: number;
   /** 批处理大小 */
   batchSize: number;
+  /** 同时翻译的目标语言数量 */
+  concurrency: number;
 }
 
 /** 提取结果 */
@@ -148,6 +258,16 @@ export interface ExtractionResult {
   extractedTexts: Record<string, string>;
   /** 转换后的代码 */
   transformedCode: string;
+  /** 各临时key文本中的数量占位符，翻译时按目标语言的复数规则处理 */
+  numericPlaceholders?: Record<string, string[]>;
+  /** 未能提取的文本等提示 */
+  warnings?: string[];
+}
+
+/** 候选文本分类结果 */
+export interface ClassificationResult {
+  /** 需要国际化的临时key */
+  userFacing: string[];
 }
 
 /** 翻译结果 */
@@ -156,6 +276,78 @@ export interface TranslationResult {
   translations: Record<string, string>;
 }
 
+/** 未通过校验的翻译条目 */
+export interface TranslationIssue {
+  /** 文本key */
+  key: string;
+  /** 未通过的原因 */
+  reason: string;
+}
+
+/** 批量翻译结果 */
+export interface BatchTranslationResult {
+  /** 校验通过的翻译 */
+  translations: Record<string, string>;
+  /** 重试后仍未解决的条目 */
+  unresolved: TranslationIssue[];
+}
+
+/** 语言文件key冲突：同一个key对应了不同的文本 */
+export interface LocaleConflict {
+  /** 冲突的key */
+  key: string;
+  /** 语言文件中已有的文本 */
+  existingText: string;
+  /** 本次提取的文本 */
+  incomingText: string;
+}
+
+/** 单个目标语言的翻译结果 */
+export interface LanguageTranslationStats {
+  /** 目标语言 */
+  language: string;
+  /** 翻译成功的文本数量 */
+  translated: number;
+  /** 翻译失败的文本数量 */
+  failed: number;
+  /** 重试后仍未解决的条目 */
+  unresolved: TranslationIssue[];
+  /** 输出文件 */
+  filePath?: string;
+  /** 错误信息 */
+  error?: string;
+}
+
+/** 缓存统计 */
+export interface CacheStats {
+  /** 缓存条目数 */
+  totalEntries: number;
+  /** 内存占用（字节） */
+  memoryUsage: number;
+  /** 命中率 */
+  hitRate: number;
+  /** 最早条目的时间戳 */
+  oldestEntry: number | null;
+  /** 最新条目的时间戳 */
+  newestEntry: number | null;
+  /** 命中次数 */
+  hits: number;
+  /** 未命中次数 */
+  misses: number;
+}
+
+/** 各处理阶段耗时（毫秒） */
+export interface ProcessingTimings {
+  /** 扫描和筛选文件 */
+  scan: number;
+  /** 提取和改写源文件 */
+  files: number;
+  /** 写入源语言文件和类型定义 */
+  locales: number;
+  /** 翻译 */
+  translation: number;
+}
+
 /** 处理结果统计 */
 export interface ProcessingStats {
   /** 处理的文件数量 */
@@ -164,8 +356,28 @@ export interface ProcessingStats {
   textsExtracted: number;
   /** 翻译的文本数量 */
   textsTranslated: number;
+  /** 各目标语言的翻译结果 */
+  translations: LanguageTranslationStats[];
+  /** 因未变更而跳过的文件数量 */
+  filesSkipped: number;
+  /** 新增到语言文件的key数量 */
+  keysAdded: number;
+  /** 从语言文件中移除的key数量 */
+  keysPruned: number;
+  /** 语言文件中的key冲突 */
+  conflicts: LocaleConflict[];
+  /** 生成的类型定义文件 */
+  typingsFile?: string;
+  /** 运行ID，可通过 ai-i18n rollback 撤销本次运行 */
+  runId?: string;
   /** 失败的文件 */
   failedFiles: string[];
+  /** 各文件的处理结果 */
+  files: FileProcessResult[];
+  /** 大模型缓存统计，未调用大模型时为 null */
+  cacheStats: CacheStats | null;
+  /** 各阶段耗时 */
+  timings: ProcessingTimings;
   /** 处理时间（毫秒） */
   processingTime: number;
 }
\ No newline at end of file
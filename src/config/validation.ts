@@ -1,5 +1,8 @@
+import path from 'path';
 import Joi from 'joi';
 import type { I18nConfig } from './types.js';
+import { CatalogFormatRegistry } from '../catalog/registry.js';
+import { FRAMEWORKS } from './presets.js';
 
 /**
  * 配置验证Schema
@@ -7,11 +10,16 @@ import type { I18nConfig } from './types.js';
 const configSchema = Joi.object<I18nConfig>({
   locale: Joi.string().required().description('源语言'),
   displayLanguage: Joi.string().required().description('目标语言'),
+  targetLanguages: Joi.array().items(Joi.string()).min(1).unique().optional().description('多个目标语言'),
   outputDir: Joi.string().required().description('输出目录'),
   tempDir: Joi.string().optional().description('临时目录'),
   include: Joi.array().items(Joi.string()).min(1).required().description('包含的文件模式'),
   exclude: Joi.array().items(Joi.string()).required().description('排除的文件模式'),
   
+  extraction: Joi.object({
+    mode: Joi.string().valid('ast', 'llm', 'hybrid').required(),
+  }).required(),
+  
   keyGeneration: Joi.object({
     maxChineseLength: Joi.number().integer().min(1).required(),
     hashLength: Joi.number().integer().min(4).max(16).required(),
@@ -26,13 +34,32 @@ const configSchema = Joi.object<I18nConfig>({
   }).required(),
   
   replacement: Joi.object({
+    framework: Joi.string().valid(...FRAMEWORKS).required(),
     functionName: Joi.string().min(1).required(),
+    callForms: Joi.object({
+      vueTemplate: Joi.string().min(1).optional(),
+      vueScriptSetup: Joi.string().min(1).optional(),
+      vueOptionsApi: Joi.string().min(1).optional(),
+    }).optional(),
+    instance: Joi.object({
+      functionName: Joi.string().min(1).required(),
+      importStatement: Joi.string().min(1).required(),
+    }).optional(),
     quoteType: Joi.string().valid('single', 'double', 'auto').required(),
+    placeholderSyntax: Joi.string().valid('{x}', '{{x}}', '%s').required(),
+    pluralFormat: Joi.string().valid('icu', 'none').required(),
+    richText: Joi.object({
+      enabled: Joi.boolean().required(),
+      tagStyle: Joi.string().valid('numbered', 'named').required(),
+      component: Joi.string().pattern(/^[A-Z][\w.]*$/).required(),
+      importStatement: Joi.string().allow('').optional(),
+    }).required(),
     autoImport: Joi.object({
       enabled: Joi.boolean().required(),
       insertPosition: Joi.string().valid('top', 'afterImports', 'beforeFirstUse').optional(),
       imports: Joi.object().pattern(Joi.string(), Joi.object({
         importStatement: Joi.string().required(),
+        hookStatement: Joi.string().optional(),
       })).optional(),
     }).required(),
   }).required(),
@@ -40,6 +67,24 @@ const configSchema = Joi.object<I18nConfig>({
   output: Joi.object({
     prettyJson: Joi.boolean().required(),
     localeFileName: Joi.string().min(1).required(),
+    format: Joi.string().optional(),
+    structure: Joi.string().valid('flat', 'nested').required(),
+    namespace: Joi.object({
+      strategy: Joi.string().valid('none', 'directory', 'keyPrefix', 'fixed').required(),
+      baseDir: Joi.string().required(),
+      value: Joi.when('strategy', {
+        is: 'fixed',
+        then: Joi.string().pattern(/^[\w-]+(\.[\w-]+)*$/).required(),
+        otherwise: Joi.string().optional(),
+      }),
+      mapping: Joi.object().pattern(Joi.string(), Joi.string().pattern(/^[\w-]+(\.[\w-]+)*$/)).optional(),
+      defaultNamespace: Joi.string().pattern(/^[\w-]+(\.[\w-]+)*$/).required(),
+    }).required(),
+    typings: Joi.object({
+      enabled: Joi.boolean().required(),
+      outputFile: Joi.string().pattern(/\.ts$/).required(),
+      framework: Joi.string().valid('none', 'i18next', 'vue-i18n').required(),
+    }).required(),
   }).required(),
   
   logging: Joi.object({
@@ -70,6 +115,7 @@ const configSchema = Joi.object<I18nConfig>({
       maxTokens: Joi.number().integer().min(1).optional(),
       promptTemplate: Joi.string().min(1).required(),
       batchSize: Joi.number().integer().min(1).max(100).required(),
+      concurrency: Joi.number().integer().min(1).max(10).required(),
     }).required(),
   }).required(),
 });
@@ -86,6 +132,26 @@ export function validateConfig(config: unknown): I18nConfig {
   if (error) {
     throw new Error(`配置验证失败:\n${error.details.map(d => `- ${d.message}`).join('\n')}`);
   }
+
+  // 使用命名空间时key中的点号用于分隔层级
+  const { namespace, localeFileName } = value.output;
+  const usesNamespace = namespace.strategy !== 'none'
+    || Object.keys(namespace.mapping || {}).length > 0
+    || localeFileName.includes('{namespace}');
+  if (usesNamespace && value.keyGeneration.separator.includes('.')) {
+    throw new Error('配置验证失败:\n- 使用命名空间时 keyGeneration.separator 不能包含点号');
+  }
+
+  // 指定的格式需已注册，且与语言文件扩展名一致
+  if (value.output.format) {
+    if (!CatalogFormatRegistry.has(value.output.format)) {
+      throw new Error(`配置验证失败:\n- output.format 不支持 ${value.output.format}，可选: ${CatalogFormatRegistry.getNames().join(', ')}`);
+    }
+    const { extensions } = CatalogFormatRegistry.get(value.output.format);
+    if (!extensions.includes(path.extname(localeFileName).toLowerCase())) {
+      throw new Error(`配置验证失败:\n- output.format 为 ${value.output.format} 时 localeFileName 的扩展名应为 ${extensions.join(' 或 ')}`);
+    }
+  }
   
   return value;
 }
\ No newline at end of file
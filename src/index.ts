@@ -3,6 +3,7 @@ import { FileProcessor } from './processor/index.js';
 import { FileScanner } from './scanner/index.js';
 import { LLMClient } from './llm/index.js';
 import { KeyGenerator } from './utils/index.js';
+import { CatalogFormatRegistry } from './catalog/index.js';
 
 export {
   ConfigManager,
@@ -10,8 +11,10 @@ export {
   FileScanner,
   LLMClient,
   KeyGenerator,
+  CatalogFormatRegistry,
 };
 
 export * from './config/types.js';
 export * from './processor/types.js';
-export * from './scanner/types.js';
\ No newline at end of file
+export * from './scanner/types.js';
+export * from './catalog/types.js';
\ No newline at end of file
@@ -1,12 +1,23 @@
 import { BaseLanguageModel } from '@langchain/core/language_models/base';
-import type { ExtractionResult, TranslationResult, LLMConfig } from '../config/types.js';
+import type {
+  ExtractionResult,
+  TranslationResult,
+  ClassificationResult,
+  BatchTranslationResult,
+  TranslationIssue,
+  LLMConfig,
+} from '../config/types.js';
 import { LLMProviderFactory } from './factory.js';
 import { CacheManager, type CacheConfig } from '../utils/cache-manager.js';
+import { TranslationValidator, type TranslationValidationResult } from '../utils/translation-validator.js';
+import { requiresPlural } from '../utils/plural.js';
 
 /**
  * LLM 客户端
  */
 export class LLMClient {
+  /** 翻译校验未通过时的最大重新请求轮数 */
+  private static readonly MAX_REVALIDATION_ROUNDS = 2;
   private extractionLLM: BaseLanguageModel;
   private translationLLM: BaseLanguageModel;
   private config: LLMConfig;
@@ -59,6 +70,34 @@ export class LLMClient {
     }
   }
 
+  /**
+   * 执行候选文本分类
+   */
+  async classifyCandidates(prompt: string): Promise<ClassificationResult> {
+    try {
+      // 尝试从缓存获取
+      const cachedResult = this.cacheManager.getClassificationResult(prompt);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const response = await this.invokeWithRetry(
+        this.extractionLLM,
+        prompt,
+        this.config.retryCount
+      );
+
+      const result = this.parseClassificationResponse(response);
+      
+      // 缓存结果
+      this.cacheManager.cacheClassificationResult(prompt, result);
+      
+      return result;
+    } catch (error) {
+      throw new Error(`候选文本分类失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * 执行文本翻译
    */
@@ -88,12 +127,50 @@ export class LLMClient {
   }
 
   /**
-   * 批量翻译文本
+   * 批量翻译文本，未指定目标语言时使用 displayLanguage
+   * plurals 为各key中的数量占位符，目标语言需要区分复数时要求输出 ICU plural
+   * 每条翻译都会经过校验，未通过的条目以更小的批次重新请求
    */
-  async batchTranslateTexts(texts: Record<string, string>): Promise<Record<string, string>> {
-    const batchSize = this.config.translation.batchSize;
-    const keys = Object.keys(texts);
+  async batchTranslateTexts(
+    texts: Record<string, string>,
+    targetLanguage: string = this.displayLanguage,
+    plurals: Record<string, string[]> = {}
+  ): Promise<BatchTranslationResult> {
     const translations: Record<string, string> = {};
+    let pending = texts;
+    let issues: TranslationIssue[] = [];
+    let batchSize = this.config.translation.batchSize;
+
+    for (let round = 0; round <= LLMClient.MAX_REVALIDATION_ROUNDS; round++) {
+      if (round > 0) {
+        batchSize = Math.max(1, Math.floor(batchSize / 2));
+        console.warn(`${targetLanguage}: ${issues.length} 条翻译未通过校验，以每批 ${batchSize} 条重新请求 (${round}/${LLMClient.MAX_REVALIDATION_ROUNDS})`);
+      }
+
+      const roundResult = await this.translateInBatches(pending, targetLanguage, batchSize, plurals);
+      Object.assign(translations, roundResult.translations);
+      issues = roundResult.issues;
+
+      if (issues.length === 0) {
+        break;
+      }
+      pending = Object.fromEntries(issues.map(issue => [issue.key, texts[issue.key]]));
+    }
+
+    return { translations, unresolved: issues };
+  }
+
+  /**
+   * 按批次翻译并校验结果
+   */
+  private async translateInBatches(
+    texts: Record<string, string>,
+    targetLanguage: string,
+    batchSize: number,
+    plurals: Record<string, string[]>
+  ): Promise<TranslationValidationResult> {
+    const keys = Object.keys(texts);
+    const result: TranslationValidationResult = { translations: {}, issues: [] };
 
     // 分批处理
     for (let i = 0; i < keys.length; i += batchSize) {
@@ -103,37 +180,54 @@ export class LLMClient {
       );
 
       try {
-        const batchTranslations = await this.translateBatch(batchTexts);
-        Object.assign(translations, batchTranslations);
+        const batchResult = await this.translateBatch(batchTexts, targetLanguage, plurals);
+        Object.assign(result.translations, batchResult.translations);
+        result.issues.push(...batchResult.issues);
       } catch (error) {
-        console.warn(`批次 ${Math.floor(i / batchSize) + 1} 翻译失败:`, error);
-        // 失败的批次使用原文
-        for (const key of batchKeys) {
-          translations[key] = texts[key];
-        }
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.warn(`${targetLanguage} 批次 ${Math.floor(i / batchSize) + 1} 翻译失败:`, errorMsg);
+        result.issues.push(...batchKeys.map(key => ({ key, reason: `请求失败: ${errorMsg}` })));
       }
     }
 
-    return translations;
+    return result;
   }
 
   /**
-   * 翻译单个批次
+   * 翻译单个批次并校验，存在问题的响应不保留在缓存中
    */
-  private async translateBatch(texts: Record<string, string>): Promise<Record<string, string>> {
+  private async translateBatch(
+    texts: Record<string, string>,
+    targetLanguage: string,
+    plurals: Record<string, string[]>
+  ): Promise<TranslationValidationResult> {
+    // 目标语言不区分复数时无需 ICU plural
+    const batchPlurals = requiresPlural(targetLanguage)
+      ? Object.fromEntries(Object.keys(texts).filter(key => plurals[key]?.length).map(key => [key, plurals[key]]))
+      : {};
+
     // 使用 TemplateManager 编译翻译模板
     const { TemplateManager } = await import('../templates/manager.js');
     const templateManager = new TemplateManager();
     const templateResult = await templateManager.compileTranslationTemplate(
       texts,
       this.locale,
-      this.displayLanguage
+      targetLanguage,
+      batchPlurals
     );
     
     const result = await this.translateTexts(templateResult.prompt);
-    return result.translations;
-  }
+    const validation = TranslationValidator.validate(texts, result.translations, {
+      locale: targetLanguage,
+      plurals: batchPlurals,
+    });
+
+    if (validation.issues.length > 0) {
+      this.cacheManager.deleteTranslationResult(templateResult.prompt);
+    }
 
+    return validation;
+  }
 
   /**
    * 带重试的调用
@@ -187,6 +281,29 @@ export class LLMClient {
     }
   }
 
+  /**
+   * 解析分类响应
+   */
+  private parseClassificationResponse(response: string): ClassificationResult {
+    try {
+      // 提取 JSON 部分
+      const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
+      const jsonStr = jsonMatch ? jsonMatch[1] : response;
+      
+      const parsed = JSON.parse(jsonStr);
+      
+      if (!Array.isArray(parsed.userFacing)) {
+        throw new Error('响应格式不正确，缺少 userFacing 字段');
+      }
+
+      return {
+        userFacing: parsed.userFacing.filter((id: unknown): id is string => typeof id === 'string'),
+      };
+    } catch (error) {
+      throw new Error(`解析分类响应失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * 解析翻译响应
    */
@@ -198,7 +315,7 @@ export class LLMClient {
       
       const parsed = JSON.parse(jsonStr);
       
-      if (!parsed.translations) {
+      if (!parsed.translations || typeof parsed.translations !== 'object' || Array.isArray(parsed.translations)) {
         throw new Error('响应格式不正确，缺少 translations 字段');
       }
 
@@ -0,0 +1,999 @@
+import type {
+  Node,
+  StringLiteral,
+  TemplateLiteral,
+  BinaryExpression,
+  JSXText,
+  JSXAttribute,
+  JSXElement,
+  Expression,
+  TSType,
+} from '@babel/types';
+import type { I18nConfig, ExtractionResult } from '../config/types.js';
+import type { TextCandidate } from './types.js';
+import {
+  containsCJK,
+  parseSource,
+  walkAst,
+  getNodeSource,
+  getLineColumn,
+  getVueScriptBlocks,
+  getVueTemplateBlock,
+  findEnclosingComponent,
+  findEnclosingVueSetup,
+  findEnclosingClass,
+  declaresClassMember,
+} from '../utils/ast-utils.js';
+import { AutoImportManager } from '../utils/auto-import.js';
+import { parseHookStatement, type HookDeclaration } from '../utils/hook-injector.js';
+import { formatPlaceholder, isPositionalSyntax, type Placeholder } from '../utils/placeholder.js';
+import { isNumericName, isMeasuredPlaceholder } from '../utils/plural.js';
+import { getFunctionNames } from '../config/presets.js';
+
+/**
+ * 尚未分配临时key的候选文本
+ */
+interface RawCandidate {
+  text: string;
+  kind: TextCandidate['kind'];
+  start: number;
+  end: number;
+  placeholders?: Placeholder[];
+  /** 所在位置没有可用的调用形式 */
+  unsupported?: boolean;
+  render: (id: string) => string;
+}
+
+/**
+ * 脚本所在位置: module 普通模块，vueScriptSetup 为 <script setup>，vueOptions 为 Vue 选项式 API 的 <script>
+ */
+type ScriptContext = 'module' | 'vueScriptSetup' | 'vueOptions';
+
+/**
+ * 不提取其参数的调用
+ */
+const IGNORED_CALLEES = ['console', 'require', 'RegExp', 'import'];
+
+/**
+ * 不提取的 JSX / 模板属性
+ */
+const IGNORED_ATTRIBUTES = ['key', 'ref', 'id', 'class', 'className', 'style'];
+
+/**
+ * 整体跳过的类型与声明节点
+ */
+const SKIPPED_NODE_TYPES = new Set([
+  'ImportDeclaration',
+  'Decorator',
+  'ExportAllDeclaration',
+  'TSTypeAnnotation',
+  'TSTypeAliasDeclaration',
+  'TSInterfaceDeclaration',
+  'TSEnumDeclaration',
+  'TSLiteralType',
+  'TSImportType',
+  'TSExternalModuleReference',
+]);
+
+/**
+ * 相等比较运算符，比较值改写后会改变运行逻辑
+ */
+const EQUALITY_OPERATORS = ['==', '===', '!=', '!=='];
+
+/**
+ * 返回数值的全局函数和对象
+ */
+const NUMERIC_CALLEES = ['Number', 'parseInt', 'parseFloat', 'Math'];
+
+/**
+ * 忽略注释，写在文本所在行或单独写在上一行时跳过该文本
+ */
+export const IGNORE_COMMENT = 'ai-i18n-ignore';
+
+/**
+ * 判断指定行的文本是否被忽略注释标记
+ */
+function hasIgnoreComment(lines: string[], line: number): boolean {
+  if (lines[line - 1]?.includes(IGNORE_COMMENT)) {
+    return true;
+  }
+
+  const previous = (lines[line - 2] || '').trim();
+  return /^(\/\/|\/\*|\{\s*\/\*|<!--)/.test(previous) && previous.includes(IGNORE_COMMENT);
+}
+
+/**
+ * 语法树文本提取器 - 基于 @babel/parser 在本地确定性地提取中文文本
+ */
+export class AstTextExtractor {
+  private autoImportManager: AutoImportManager;
+
+  constructor(private config: I18nConfig) {
+    this.autoImportManager = new AutoImportManager(config.replacement.autoImport);
+  }
+
+  /**
+   * 收集文件中的候选中文文本，传入文件路径时按其匹配的 hook 语句判断翻译函数的可用范围
+   */
+  collectCandidates(code: string, fileExtension: string, filePath?: string): TextCandidate[] {
+    const hookStatement = filePath ? this.autoImportManager.getHookStatement(filePath) : undefined;
+    const hook = hookStatement ? parseHookStatement(hookStatement) : null;
+    const rawCandidates = fileExtension === '.vue'
+      ? this.collectFromVue(code, hook)
+      : this.collectFromScript(code, fileExtension, 0, hook);
+
+    rawCandidates.sort((a, b) => a.start - b.start);
+    const lines = code.split('\n');
+
+    return rawCandidates
+      .map(candidate => ({ candidate, ...getLineColumn(code, candidate.start) }))
+      .filter(({ line }) => !hasIgnoreComment(lines, line))
+      .map(({ candidate, line, column }, index) => {
+        const id = `__I18N_${index + 1}__`;
+
+        return {
+          id,
+          text: candidate.text,
+          kind: candidate.kind,
+          start: candidate.start,
+          end: candidate.end,
+          line,
+          column,
+          replacement: candidate.render(id),
+          context: (lines[line - 1] || '').trim(),
+          ...(candidate.placeholders?.length ? { placeholders: candidate.placeholders } : {}),
+          ...(candidate.unsupported ? { unsupported: true } : {}),
+        };
+      });
+  }
+
+  /**
+   * 提取文件中的中文文本，并替换为临时key调用
+   */
+  extract(code: string, fileExtension: string, filePath?: string): ExtractionResult {
+    return this.applyCandidates(code, this.collectCandidates(code, fileExtension, filePath));
+  }
+
+  /**
+   * 将候选文本应用到代码中，没有可用调用形式的候选保持原样并返回警告
+   */
+  applyCandidates(code: string, allCandidates: TextCandidate[]): ExtractionResult {
+    const extractedTexts: Record<string, string> = {};
+    const numericPlaceholders: Record<string, string[]> = {};
+    let transformedCode = code;
+
+    const candidates = allCandidates.filter(candidate => !candidate.unsupported);
+    const warnings = allCandidates
+      .filter(candidate => candidate.unsupported)
+      .map(candidate =>
+        `第 ${candidate.line} 行的 "${candidate.text}" 不在组件、setup() 或类成员中，没有可用的翻译函数调用形式，已跳过（可配置 replacement.instance）`
+      );
+
+    // 从后往前替换，避免偏移变化
+    const sorted = [...candidates].sort((a, b) => b.start - a.start);
+    for (const candidate of sorted) {
+      transformedCode =
+        transformedCode.slice(0, candidate.start) +
+        candidate.replacement +
+        transformedCode.slice(candidate.end);
+    }
+
+    for (const candidate of candidates) {
+      extractedTexts[candidate.id] = candidate.text;
+
+      const numeric = (candidate.placeholders || []).filter(placeholder => placeholder.numeric);
+      if (numeric.length > 0) {
+        numericPlaceholders[candidate.id] = Array.from(new Set(numeric.map(placeholder => placeholder.name)));
+      }
+    }
+
+    return {
+      extractedTexts,
+      transformedCode,
+      ...(Object.keys(numericPlaceholders).length > 0 ? { numericPlaceholders } : {}),
+      ...(warnings.length > 0 ? { warnings } : {}),
+    };
+  }
+
+  /**
+   * 从脚本代码中收集候选文本
+   */
+  private collectFromScript(
+    code: string,
+    fileExtension: string,
+    offset: number,
+    hook: HookDeclaration | null,
+    context: ScriptContext = 'module'
+  ): RawCandidate[] {
+    let ast;
+    try {
+      ast = parseSource(code, fileExtension);
+    } catch (error) {
+      throw new Error(`语法解析失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const candidates: RawCandidate[] = [];
+    // 已作为富文本整体提取的子节点
+    const consumed = new Set<Node>();
+
+    walkAst(ast.program, (node, ancestors) => {
+      const parent = ancestors[ancestors.length - 1];
+
+      if (SKIPPED_NODE_TYPES.has(node.type) || consumed.has(node)) {
+        return false;
+      }
+
+      const scriptFunctionName = this.getScriptFunctionName(context, ancestors, hook);
+      const functionName = scriptFunctionName ?? this.config.replacement.functionName;
+      // 没有可用调用形式时仍收集候选，供检查报告使用，应用时跳过
+      const addCandidate = (candidate: RawCandidate) => {
+        candidates.push(scriptFunctionName === null ? { ...candidate, unsupported: true } : candidate);
+      };
+
+      switch (node.type) {
+        case 'CallExpression':
+        case 'NewExpression':
+          if (this.isIgnoredCall(getNodeSource(code, node.callee))) {
+            return false;
+          }
+          break;
+
+        case 'StringLiteral':
+          if (containsCJK(node.value) && !this.shouldSkipLiteral(node, parent)) {
+            addCandidate(this.createLiteralCandidate(node, parent, code, offset, functionName));
+          }
+          break;
+
+        case 'TemplateLiteral':
+          if (
+            parent?.type === 'TaggedTemplateExpression' ||
+            this.isComparedValue(node, parent) ||
+            this.isComputedMemberKey(node, parent)
+          ) {
+            return false;
+          }
+          if (node.quasis.some(quasi => containsCJK(quasi.value.cooked ?? quasi.value.raw))) {
+            addCandidate(this.createTemplateCandidate(node, code, offset, functionName));
+            return false;
+          }
+          break;
+
+        case 'BinaryExpression': {
+          const candidate = this.createConcatCandidate(node, code, offset, functionName);
+          if (candidate) {
+            addCandidate(candidate);
+            return false;
+          }
+          break;
+        }
+
+        case 'JSXElement': {
+          const candidate = this.createRichTextCandidate(node, code, offset);
+          if (candidate) {
+            candidates.push(candidate);
+            node.children.forEach(child => consumed.add(child));
+          }
+          break;
+        }
+
+        case 'JSXText': {
+          const candidate = this.createJSXTextCandidate(node, code, offset, functionName);
+          if (candidate) {
+            addCandidate(candidate);
+          }
+          break;
+        }
+      }
+
+      return true;
+    });
+
+    return candidates;
+  }
+
+  /**
+   * 从 Vue 单文件组件中收集候选文本
+   */
+  private collectFromVue(code: string, hook: HookDeclaration | null): RawCandidate[] {
+    const candidates: RawCandidate[] = [];
+
+    const template = getVueTemplateBlock(code);
+    if (template) {
+      candidates.push(...this.collectFromVueTemplate(template.content, template.offset));
+    }
+
+    for (const block of getVueScriptBlocks(code)) {
+      const context = block.setup ? 'vueScriptSetup' : 'vueOptions';
+      candidates.push(...this.collectFromScript(block.content, block.fileExtension, block.offset, hook, context));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 从 Vue 模板中收集候选文本
+   */
+  private collectFromVueTemplate(content: string, offset: number): RawCandidate[] {
+    const candidates: RawCandidate[] = [];
+    const tokenRegex = /<!--[\s\S]*?-->|<\/?[a-zA-Z][^<>]*>/g;
+    let lastIndex = 0;
+
+    for (const match of content.matchAll(tokenRegex)) {
+      const index = match.index ?? 0;
+      this.collectVueText(content.slice(lastIndex, index), offset + lastIndex, candidates);
+
+      if (!match[0].startsWith('<!--') && !match[0].startsWith('</')) {
+        this.collectVueAttributes(match[0], offset + index, candidates);
+      }
+
+      lastIndex = index + match[0].length;
+    }
+
+    this.collectVueText(content.slice(lastIndex), offset + lastIndex, candidates);
+
+    return candidates;
+  }
+
+  /**
+   * 收集 Vue 模板文本节点
+   */
+  private collectVueText(segment: string, offset: number, candidates: RawCandidate[]): void {
+    const literalParts = segment.split(/\{\{[\s\S]*?\}\}/);
+    if (!literalParts.some(part => containsCJK(part))) {
+      return;
+    }
+
+    const trimmed = segment.trim();
+    const start = offset + segment.indexOf(trimmed);
+    const placeholders: Placeholder[] = [];
+    let text = '';
+    let lastIndex = 0;
+
+    for (const match of trimmed.matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+      const source = match[1].trim();
+
+      // 仅支持简单的变量或属性访问插值
+      if (!/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(source)) {
+        return;
+      }
+
+      text += trimmed.slice(lastIndex, match.index);
+      const name = source.split('.').pop() as string;
+      text += this.formatPlaceholder(this.addPlaceholder(placeholders, name, source, isNumericName(name)));
+      lastIndex = (match.index ?? 0) + match[0].length;
+    }
+    text += trimmed.slice(lastIndex);
+    this.markMeasuredPlaceholders(text, placeholders);
+
+    candidates.push({
+      text: text.replace(/\s+/g, ' '),
+      kind: 'vueText',
+      start,
+      end: start + trimmed.length,
+      placeholders,
+      render: id => `{{ ${this.renderCall(id, placeholders, this.getQuote(), this.getVueTemplateFunctionName())} }}`,
+    });
+  }
+
+  /**
+   * 收集 Vue 模板静态属性
+   */
+  private collectVueAttributes(tag: string, offset: number, candidates: RawCandidate[]): void {
+    const attributeRegex = /(\s)([^\s=:@#"'<>/]+)="([^"]*)"/g;
+
+    for (const match of tag.matchAll(attributeRegex)) {
+      const [, whitespace, name, value] = match;
+
+      if (!containsCJK(value) || name.startsWith('v-') || this.isIgnoredAttribute(name)) {
+        continue;
+      }
+
+      const start = offset + (match.index ?? 0) + whitespace.length;
+      candidates.push({
+        text: value,
+        kind: 'vueAttribute',
+        start,
+        end: start + match[0].length - whitespace.length,
+        // 属性值已使用双引号，调用内部固定使用单引号
+        render: id => `:${name}="${this.getVueTemplateFunctionName()}('${id}')"`,
+      });
+    }
+  }
+
+  /**
+   * 创建字符串字面量候选
+   */
+  private createLiteralCandidate(
+    node: StringLiteral,
+    parent: Node | undefined,
+    code: string,
+    offset: number,
+    functionName: string
+  ): RawCandidate {
+    const quote = this.getQuote(getNodeSource(code, node)[0]);
+    const isAttribute = parent?.type === 'JSXAttribute';
+
+    return {
+      text: node.value,
+      kind: isAttribute ? 'jsxAttribute' : 'string',
+      start: offset + (node.start ?? 0),
+      end: offset + (node.end ?? 0),
+      render: id => {
+        const call = this.renderCall(id, [], quote, functionName);
+        return isAttribute ? `{${call}}` : call;
+      },
+    };
+  }
+
+  /**
+   * 创建模板字符串候选，插值表达式转换为命名占位符
+   */
+  private createTemplateCandidate(
+    node: TemplateLiteral,
+    code: string,
+    offset: number,
+    functionName: string
+  ): RawCandidate {
+    const placeholders: Placeholder[] = [];
+    const text = this.getTemplateText(node, code, placeholders);
+
+    return {
+      text,
+      kind: 'template',
+      start: offset + (node.start ?? 0),
+      end: offset + (node.end ?? 0),
+      placeholders,
+      render: id => this.renderCall(id, placeholders, this.getQuote(), functionName),
+    };
+  }
+
+  /**
+   * 创建字符串拼接候选，如 '欢迎, ' + name + '!'，拼接的表达式转换为命名占位符
+   */
+  private createConcatCandidate(
+    node: BinaryExpression,
+    code: string,
+    offset: number,
+    functionName: string
+  ): RawCandidate | null {
+    if (node.operator !== '+') {
+      return null;
+    }
+
+    // 展开左结合的 + 链，spine[i] 覆盖 operands[0..i+1]
+    const spine: BinaryExpression[] = [node];
+    let current = node.left;
+    while (current.type === 'BinaryExpression' && current.operator === '+' && !current.extra?.parenthesized) {
+      spine.unshift(current);
+      current = current.left;
+    }
+    const operands = [current, ...spine.map(item => item.right)] as Expression[];
+
+    // 第一个字符串之前的操作数按数值运算求值，整体作为一个插值
+    const firstString = operands.findIndex(operand => this.isStringOperand(operand));
+    if (firstString === -1) {
+      return null;
+    }
+    const parts = firstString >= 2
+      ? [spine[firstString - 2] as Expression, ...operands.slice(firstString)]
+      : operands;
+
+    const hasCJK = parts.some(part =>
+      part.type === 'StringLiteral'
+        ? containsCJK(part.value)
+        : part.type === 'TemplateLiteral' && part.quasis.some(quasi => containsCJK(quasi.value.cooked ?? quasi.value.raw))
+    );
+    if (!hasCJK) {
+      return null;
+    }
+
+    const placeholders: Placeholder[] = [];
+    let text = '';
+    for (const part of parts) {
+      if (part.type === 'StringLiteral') {
+        text += part.value;
+      } else if (part.type === 'TemplateLiteral') {
+        text += this.getTemplateText(part, code, placeholders);
+      } else {
+        const name = this.getPlaceholderName(part, placeholders.length);
+        const numeric = isNumericName(name) || this.isNumericExpression(part);
+        text += this.formatPlaceholder(this.addPlaceholder(placeholders, name, getNodeSource(code, part), numeric));
+      }
+    }
+    this.markMeasuredPlaceholders(text, placeholders);
+
+    return {
+      text,
+      kind: 'concat',
+      start: offset + (node.start ?? 0),
+      end: offset + (node.end ?? 0),
+      placeholders,
+      render: id => this.renderCall(id, placeholders, this.getQuote(), functionName),
+    };
+  }
+
+  /**
+   * 判断拼接操作数是否为字符串
+   */
+  private isStringOperand(node: Node): boolean {
+    return node.type === 'StringLiteral' || node.type === 'TemplateLiteral';
+  }
+
+  /**
+   * 生成模板字符串对应的文本，插值表达式登记为占位符
+   */
+  private getTemplateText(node: TemplateLiteral, code: string, placeholders: Placeholder[]): string {
+    let text = '';
+
+    node.quasis.forEach((quasi, index) => {
+      text += quasi.value.cooked ?? quasi.value.raw;
+
+      const expression = node.expressions[index];
+      if (expression) {
+        const name = this.getPlaceholderName(expression, placeholders.length);
+        const numeric = isNumericName(name) || this.isNumericExpression(expression);
+        text += this.formatPlaceholder(this.addPlaceholder(placeholders, name, getNodeSource(code, expression), numeric));
+      }
+    });
+    this.markMeasuredPlaceholders(text, placeholders);
+
+    return text;
+  }
+
+  /**
+   * 判断插值表达式是否为数值：数字字面量、算术运算、.length / .size、数值函数调用
+   */
+  private isNumericExpression(expression: Node): boolean {
+    switch (expression.type) {
+      case 'NumericLiteral':
+        return true;
+      case 'BinaryExpression':
+        return ['-', '*', '/', '%', '**'].includes(expression.operator);
+      case 'MemberExpression':
+      case 'OptionalMemberExpression':
+        return !expression.computed
+          && expression.property.type === 'Identifier'
+          && ['length', 'size'].includes(expression.property.name);
+      case 'CallExpression': {
+        const callee = expression.callee;
+        const object = callee.type === 'MemberExpression' ? callee.object : callee;
+        return object.type === 'Identifier' && NUMERIC_CALLEES.includes(object.name);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 将紧跟中文量词的占位符标记为数量，如 共{count}条
+   */
+  private markMeasuredPlaceholders(text: string, placeholders: Placeholder[]): void {
+    if (isPositionalSyntax(this.config.replacement.placeholderSyntax)) {
+      return;
+    }
+
+    for (const placeholder of placeholders) {
+      const marker = this.formatPlaceholder(placeholder.name);
+      const index = text.indexOf(marker);
+      if (index !== -1 && isMeasuredPlaceholder(text.slice(0, index), text.slice(index + marker.length))) {
+        placeholder.numeric = true;
+      }
+    }
+  }
+
+  /**
+   * 创建 JSX 文本候选
+   */
+  private createJSXTextCandidate(
+    node: JSXText,
+    code: string,
+    offset: number,
+    functionName: string
+  ): RawCandidate | null {
+    const raw = getNodeSource(code, node);
+    if (!containsCJK(raw)) {
+      return null;
+    }
+
+    const leading = raw.length - raw.trimStart().length;
+    const trailing = raw.length - raw.trimEnd().length;
+
+    return {
+      text: raw.trim().replace(/\s+/g, ' '),
+      kind: 'jsxText',
+      start: offset + (node.start ?? 0) + leading,
+      end: offset + (node.end ?? 0) - trailing,
+      render: id => `{${this.renderCall(id, [], this.getQuote(), functionName)}}`,
+    };
+  }
+
+  /**
+   * 创建富文本候选，如 <p>点击<a href="/x">这里</a>查看详情</p> 的子节点整体提取为 点击<0>这里</0>查看详情
+   * 行内标签只能包含纯文本，无法整体提取时返回 null，仍按片段提取
+   */
+  private createRichTextCandidate(node: JSXElement, code: string, offset: number): RawCandidate | null {
+    const richText = this.config.replacement.richText;
+    const children = node.children;
+
+    if (
+      !richText.enabled ||
+      !children.some(child => child.type === 'JSXElement') ||
+      !children.some(child => child.type === 'JSXText' && containsCJK(child.value))
+    ) {
+      return null;
+    }
+
+    const placeholders: Placeholder[] = [];
+    const components: Array<{ name: string; source: string }> = [];
+    let text = '';
+
+    for (const child of children) {
+      if (child.type === 'JSXText') {
+        text += getNodeSource(code, child);
+      } else if (child.type === 'JSXExpressionContainer') {
+        const expression = child.expression;
+        if (expression.type === 'StringLiteral') {
+          text += expression.value;
+          continue;
+        }
+        if (
+          expression.type === 'JSXEmptyExpression' ||
+          !this.isRichTextValue(expression, code) ||
+          isPositionalSyntax(this.config.replacement.placeholderSyntax)
+        ) {
+          return null;
+        }
+
+        const name = this.getPlaceholderName(expression, placeholders.length);
+        const numeric = isNumericName(name) || this.isNumericExpression(expression);
+        text += this.formatPlaceholder(this.addPlaceholder(placeholders, name, getNodeSource(code, expression), numeric));
+      } else if (child.type === 'JSXElement') {
+        const tag = this.addRichTextComponent(child, code, components);
+        if (tag === null) {
+          return null;
+        }
+        const inner = child.children.map(item => getNodeSource(code, item)).join('');
+        text += child.openingElement.selfClosing ? `<${tag}/>` : `<${tag}>${inner}</${tag}>`;
+      } else {
+        return null;
+      }
+    }
+    text = text.trim().replace(/\s+/g, ' ');
+    this.markMeasuredPlaceholders(text, placeholders);
+
+    const first = children[0];
+    const last = children[children.length - 1];
+    const raw = code.slice(first.start ?? 0, last.end ?? 0);
+    const leading = raw.length - raw.trimStart().length;
+    const trailing = raw.length - raw.trimEnd().length;
+
+    return {
+      text,
+      kind: 'richText',
+      start: offset + (first.start ?? 0) + leading,
+      end: offset + (last.end ?? 0) - trailing,
+      placeholders,
+      render: id => {
+        const componentsSource = richText.tagStyle === 'named'
+          ? `{{ ${components.map(({ name, source }) => `${name}: ${source}`).join(', ')} }}`
+          : `{[${components.map(({ source }) => source).join(', ')}]}`;
+        const values = placeholders.length > 0 ? ` values={{ ${this.renderParams(placeholders)} }}` : '';
+
+        return `<${richText.component} i18nKey="${id}" components=${componentsSource}${values} />`;
+      },
+    };
+  }
+
+  /**
+   * 判断富文本中的插值表达式能否作为 values 传入：不渲染元素，且不包含中文
+   */
+  private isRichTextValue(expression: Expression, code: string): boolean {
+    return ![
+      'JSXElement',
+      'JSXFragment',
+      'ConditionalExpression',
+      'LogicalExpression',
+      'ArrowFunctionExpression',
+    ].includes(expression.type) && !containsCJK(getNodeSource(code, expression));
+  }
+
+  /**
+   * 登记富文本中的行内标签，返回消息中使用的标签名
+   * 标签只能包含纯文本，属性中不能有中文；属性相同的标签复用同一个组件
+   */
+  private addRichTextComponent(
+    element: JSXElement,
+    code: string,
+    components: Array<{ name: string; source: string }>
+  ): string | null {
+    const opening = element.openingElement;
+    if (
+      element.children.some(child => child.type !== 'JSXText') ||
+      opening.attributes.some(attribute => containsCJK(getNodeSource(code, attribute)))
+    ) {
+      return null;
+    }
+
+    const openingSource = getNodeSource(code, opening);
+    const source = opening.selfClosing ? openingSource : openingSource.replace(/\s*>$/, ' />');
+
+    const existing = components.find(component => component.source === source);
+    if (existing) {
+      return existing.name;
+    }
+
+    let name = String(components.length);
+    if (this.config.replacement.richText.tagStyle === 'named') {
+      const elementName = opening.name.type === 'JSXMemberExpression'
+        ? opening.name.property.name
+        : opening.name.type === 'JSXNamespacedName' ? opening.name.name.name : opening.name.name;
+      const base = (elementName.charAt(0).toLowerCase() + elementName.slice(1)).replace(/\W/g, '') || 'tag';
+
+      name = base;
+      let suffix = 1;
+      while (components.some(component => component.name === name)) {
+        name = `${base}${suffix++}`;
+      }
+    }
+
+    components.push({ name, source });
+    return name;
+  }
+
+  /**
+   * 判断字符串字面量是否应跳过
+   */
+  private shouldSkipLiteral(node: StringLiteral, parent: Node | undefined): boolean {
+    if (!parent) {
+      return false;
+    }
+
+    const fields = parent as unknown as Record<string, unknown>;
+
+    // 对象键、类成员名等非计算属性
+    if (fields.key === node && !fields.computed) {
+      return true;
+    }
+
+    // 模块路径、导入导出名称、模块声明名称
+    if (['source', 'imported', 'exported', 'local', 'id'].some(field => fields[field] === node)) {
+      return true;
+    }
+
+    if (parent.type === 'JSXAttribute') {
+      return this.isIgnoredAttribute(this.getJSXAttributeName(parent));
+    }
+
+    return this.isComparedValue(node, parent) || this.isComputedMemberKey(node, parent);
+  }
+
+  /**
+   * 判断文本是否为相等比较或 switch 分支的比较值，如 role === '管理员'、case '启用':
+   */
+  private isComparedValue(node: Node, parent: Node | undefined): boolean {
+    if (parent?.type === 'BinaryExpression') {
+      return EQUALITY_OPERATORS.includes(parent.operator);
+    }
+
+    return parent?.type === 'SwitchCase' && parent.test === node;
+  }
+
+  /**
+   * 判断文本是否为计算属性访问的键，如 obj['中文键']、obj?.['中文键']
+   */
+  private isComputedMemberKey(node: Node, parent: Node | undefined): boolean {
+    return (
+      (parent?.type === 'MemberExpression' || parent?.type === 'OptionalMemberExpression') &&
+      parent.computed &&
+      parent.property === node
+    );
+  }
+
+  /**
+   * 判断调用是否应忽略
+   */
+  private isIgnoredCall(callee: string): boolean {
+    if (getFunctionNames(this.config.replacement).includes(callee)) {
+      return true;
+    }
+
+    return IGNORED_CALLEES.some(name => callee === name || callee.startsWith(`${name}.`));
+  }
+
+  /**
+   * 判断属性是否应忽略
+   */
+  private isIgnoredAttribute(name: string): boolean {
+    return IGNORED_ATTRIBUTES.includes(name) || name.startsWith('data-');
+  }
+
+  /**
+   * 获取 JSX 属性名
+   */
+  private getJSXAttributeName(attribute: JSXAttribute): string {
+    return attribute.name.type === 'JSXIdentifier'
+      ? attribute.name.name
+      : `${attribute.name.namespace.name}:${attribute.name.name.name}`;
+  }
+
+  /**
+   * 根据插值表达式推导占位符名称
+   */
+  private getPlaceholderName(expression: Expression | TSType, index: number): string {
+    if (expression.type === 'Identifier') {
+      return expression.name;
+    }
+
+    if (
+      (expression.type === 'MemberExpression' || expression.type === 'OptionalMemberExpression') &&
+      !expression.computed &&
+      expression.property.type === 'Identifier'
+    ) {
+      return expression.property.name;
+    }
+
+    return `value${index}`;
+  }
+
+  /**
+   * 获取 Vue 模板中的调用形式
+   */
+  private getVueTemplateFunctionName(): string {
+    return this.config.replacement.callForms?.vueTemplate || this.config.replacement.functionName;
+  }
+
+  /**
+   * 按脚本位置获取调用形式：<script setup> 和选项式 API 的 setup() 使用 vueScriptSetup，
+   * 选项式 API 中仅在默认导出组件的方法内使用 vueOptionsApi（this 指向组件实例），
+   * this. 开头的调用形式（如 Angular 的 this.translate.instant）仅用于声明或可注入该属性的类成员中，
+   * 其他位置配置了 instance 时使用 i18n 实例；hook 声明的函数在组件外不可用且没有 instance 时返回 null
+   */
+  private getScriptFunctionName(
+    context: ScriptContext,
+    ancestors: readonly Node[],
+    hook: HookDeclaration | null
+  ): string | null {
+    const { functionName, callForms, instance } = this.config.replacement;
+    const fallback = instance?.functionName ?? null;
+    const scoped = hook?.kind === 'variable' && hook.names.includes(functionName);
+
+    if (context === 'vueScriptSetup') {
+      return callForms?.vueScriptSetup || functionName;
+    }
+
+    if (context === 'vueOptions') {
+      if (ancestors.some(ancestor => ancestor.type === 'ExportDefaultDeclaration')) {
+        if (this.isInObjectMethod(ancestors)) {
+          return callForms?.vueOptionsApi || functionName;
+        }
+        if (findEnclosingVueSetup(ancestors)) {
+          return callForms?.vueScriptSetup || functionName;
+        }
+      }
+      return fallback ?? (scoped ? null : functionName);
+    }
+
+    if (functionName.startsWith('this.')) {
+      return this.isThisCallAvailable(functionName.split('.')[1], ancestors, hook) ? functionName : fallback;
+    }
+
+    if (findEnclosingComponent(ancestors)) {
+      return functionName;
+    }
+    return scoped ? fallback : fallback ?? functionName;
+  }
+
+  /**
+   * 判断 this 上的翻译服务属性是否可用：类成员中且类已声明该属性，或 hook 会将其注入到带装饰器的类中，
+   * 对象方法中的 this 由调用方绑定，沿用配置的调用形式
+   */
+  private isThisCallAvailable(property: string, ancestors: readonly Node[], hook: HookDeclaration | null): boolean {
+    const classNode = findEnclosingClass(ancestors);
+    if (!classNode) {
+      return this.isInObjectMethod(ancestors);
+    }
+
+    const injectable = hook?.kind === 'classProperty' && hook.names.includes(property);
+    return declaresClassMember(classNode, property) || (injectable && Boolean(classNode.decorators?.length));
+  }
+
+  /**
+   * 判断最近的非箭头函数是否为对象的方法，setup() 中没有 this
+   */
+  private isInObjectMethod(ancestors: readonly Node[]): boolean {
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      const ancestor = ancestors[i];
+      const parent = ancestors[i - 1];
+
+      if (ancestor.type === 'ObjectMethod') {
+        return !(ancestor.key.type === 'Identifier' && ancestor.key.name === 'setup');
+      }
+      if (ancestor.type === 'FunctionExpression') {
+        return parent?.type === 'ObjectProperty'
+          && !(parent.key.type === 'Identifier' && parent.key.name === 'setup');
+      }
+      if (ancestor.type === 'FunctionDeclaration' || ancestor.type === 'ClassMethod') {
+        return false;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * 按配置的语法生成占位符文本
+   */
+  private formatPlaceholder(name: string): string {
+    return formatPlaceholder(name, this.config.replacement.placeholderSyntax);
+  }
+
+  /**
+   * 登记占位符，同名但表达式不同时追加序号
+   * 位置占位符按出现顺序传参，相同表达式也需要重复登记
+   */
+  private addPlaceholder(
+    placeholders: Placeholder[],
+    name: string,
+    source: string,
+    numeric: boolean = false
+  ): string {
+    const existing = placeholders.find(p => p.source === source);
+    if (existing && !isPositionalSyntax(this.config.replacement.placeholderSyntax)) {
+      return existing.name;
+    }
+
+    let uniqueName = name;
+    let suffix = 1;
+    while (placeholders.some(p => p.name === uniqueName)) {
+      uniqueName = `${name}${suffix++}`;
+    }
+
+    placeholders.push(numeric ? { name: uniqueName, source, numeric } : { name: uniqueName, source });
+    return uniqueName;
+  }
+
+  /**
+   * 生成翻译函数调用代码
+   */
+  private renderCall(
+    id: string,
+    placeholders: Placeholder[],
+    quote: string = this.getQuote(),
+    functionName: string = this.config.replacement.functionName
+  ): string {
+
+    if (placeholders.length === 0) {
+      return `${functionName}(${quote}${id}${quote})`;
+    }
+
+    if (isPositionalSyntax(this.config.replacement.placeholderSyntax)) {
+      return `${functionName}(${quote}${id}${quote}, [${placeholders.map(({ source }) => source).join(', ')}])`;
+    }
+
+    return `${functionName}(${quote}${id}${quote}, { ${this.renderParams(placeholders)} })`;
+  }
+
+  /**
+   * 生成命名插值参数对象的属性列表
+   */
+  private renderParams(placeholders: Placeholder[]): string {
+    return placeholders
+      .map(({ name, source }) => (name === source ? name : `${name}: ${source}`))
+      .join(', ');
+  }
+
+  /**
+   * 获取引号类型，auto 模式下沿用原始引号
+   */
+  private getQuote(originalQuote?: string): string {
+    switch (this.config.replacement.quoteType) {
+      case 'double':
+        return '"';
+      case 'auto':
+        return originalQuote === '"' ? '"' : '\'';
+      case 'single':
+      default:
+        return '\'';
+    }
+  }
+}
@@ -4,6 +4,8 @@ import type { I18nConfig } from '../config/types.js';
 import { KeyGenerator } from '../utils/key-generator.js';
 import { AutoImportManager } from '../utils/auto-import.js';
 import { SyntaxValidator } from '../utils/syntax-validator.js';
+import { NamespaceResolver } from '../utils/namespace.js';
+import { InterpolationValidator } from './interpolation-validator.js';
 
 /**
  * 代码转换结果
@@ -13,6 +15,8 @@ export interface TransformResult {
   transformedCode: string;
   /** 生成的key映射 */
   keyMapping: Record<string, string>;
+  /** 文件所属的命名空间，未使用命名空间时为空字符串 */
+  namespace: string;
   /** 语法验证结果 */
   isValid: boolean;
   /** 警告信息 */
@@ -25,29 +29,46 @@ export interface TransformResult {
 export class CodeTransformer {
   private keyGenerator: KeyGenerator;
   private autoImportManager: AutoImportManager;
+  private namespaceResolver: NamespaceResolver;
+  private interpolationValidator: InterpolationValidator;
 
-  constructor(config: I18nConfig) {
-    this.keyGenerator = new KeyGenerator(config.keyGeneration);
+  constructor(private config: I18nConfig) {
+    // keyPrefix 策略下前缀作为命名空间，不再拼接到key中
+    const keyGeneration = config.output.namespace.strategy === 'keyPrefix'
+      ? { ...config.keyGeneration, keyPrefix: '' }
+      : config.keyGeneration;
+    this.keyGenerator = new KeyGenerator(keyGeneration);
+    this.namespaceResolver = new NamespaceResolver(config);
     this.autoImportManager = new AutoImportManager(config.replacement.autoImport);
+    this.interpolationValidator = new InterpolationValidator(config);
   }
 
   /**
-   * 转换代码
+   * 转换代码，提供 sourceCode（改写前的源码）时校验插值参数，未通过时拒绝改写
    */
   async transformCode(
     file: ScanResult,
     originalCode: string,
-    extractedTexts: Record<string, string>
+    extractedTexts: Record<string, string>,
+    sourceCode?: string
   ): Promise<TransformResult> {
     try {
+      if (sourceCode !== undefined) {
+        this.verifyInterpolations(file, sourceCode, originalCode, extractedTexts);
+      }
+
       // 生成真实的key映射
-      const keyMapping = this.generateKeyMapping(extractedTexts);
+      const namespace = this.namespaceResolver.resolve(file);
+      const keyMapping = this.generateKeyMapping(extractedTexts, namespace);
       
       // 替换临时key为真实key
       let transformedCode = this.keyGenerator.replaceTempKeys(originalCode, keyMapping);
 
-      // 处理自动导入
+      // 注入组件 hook 并处理自动导入
+      transformedCode = this.autoImportManager.injectHooks(transformedCode, file.relativePath);
       transformedCode = await this.processAutoImport(transformedCode, file);
+      transformedCode = this.processInstanceImport(transformedCode, file);
+      transformedCode = this.processRichTextImport(transformedCode, file);
 
       // 语法验证
       const validationResult = this.validateSyntax(transformedCode, file);
@@ -55,6 +76,7 @@ export class CodeTransformer {
       return {
         transformedCode,
         keyMapping,
+        namespace,
         isValid: validationResult.valid,
         warnings: validationResult.warnings,
       };
@@ -63,14 +85,30 @@ export class CodeTransformer {
     }
   }
 
+  /**
+   * 校验插值参数
+   */
+  private verifyInterpolations(
+    file: ScanResult,
+    sourceCode: string,
+    code: string,
+    extractedTexts: Record<string, string>
+  ): void {
+    const issues = this.interpolationValidator.validate(sourceCode, code, extractedTexts, path.extname(file.filePath));
+
+    if (issues.length > 0) {
+      throw new Error(`插值校验失败:\n${issues.map(issue => `  ${issue.key}: ${issue.reason}`).join('\n')}`);
+    }
+  }
+
   /**
    * 生成key映射
    */
-  private generateKeyMapping(extractedTexts: Record<string, string>): Record<string, string> {
+  private generateKeyMapping(extractedTexts: Record<string, string>, namespace: string): Record<string, string> {
     const keyMapping: Record<string, string> = {};
     
     for (const [tempKey, text] of Object.entries(extractedTexts)) {
-      const realKey = this.keyGenerator.generateKey(text);
+      const realKey = this.keyGenerator.generateKey(text, namespace);
       keyMapping[tempKey] = realKey;
     }
     
@@ -81,17 +119,56 @@ export class CodeTransformer {
    * 处理自动导入
    */
   private async processAutoImport(code: string, file: ScanResult): Promise<string> {
-    const autoImportResult = this.autoImportManager.processAutoImport(code, file.filePath);
-    
-    if (autoImportResult.added && autoImportResult.importStatement && autoImportResult.insertPosition !== undefined) {
-      return this.autoImportManager.insertImportStatement(
-        code,
+    const autoImportResult = this.autoImportManager.processAutoImport(code, file.relativePath);
+    let result = code;
+
+    // hook 位于导入语句之后，先插入 hook 避免行号偏移
+    if (autoImportResult.hookStatement && autoImportResult.hookPosition !== undefined) {
+      result = this.autoImportManager.insertImportStatement(
+        result,
+        autoImportResult.hookStatement,
+        autoImportResult.hookPosition
+      );
+    }
+
+    if (autoImportResult.importStatement && autoImportResult.insertPosition !== undefined) {
+      result = this.autoImportManager.insertImportStatement(
+        result,
         autoImportResult.importStatement,
         autoImportResult.insertPosition
       );
     }
     
-    return code;
+    return result;
+  }
+
+  /**
+   * 组件外使用了实例翻译函数但未导入时，添加实例导入语句
+   */
+  private processInstanceImport(code: string, file: ScanResult): string {
+    const { instance } = this.config.replacement;
+    if (!instance) {
+      return code;
+    }
+
+    return this.autoImportManager.ensureImport(code, file.relativePath, instance.importStatement, `${instance.functionName}(`);
+  }
+
+  /**
+   * 使用了富文本组件但未导入时，添加组件导入语句
+   */
+  private processRichTextImport(code: string, file: ScanResult): string {
+    const { enabled, component, importStatement } = this.config.replacement.richText;
+    if (!enabled || !importStatement || !code.includes(`<${component} i18nKey=`)) {
+      return code;
+    }
+
+    const importedPattern = new RegExp(`import\\s[^;]*\\b${component.split('.')[0]}\\b[^;]*from`);
+    if (importedPattern.test(code)) {
+      return code;
+    }
+
+    return this.autoImportManager.ensureImport(code, file.relativePath, importStatement, `<${component} i18nKey=`);
   }
 
   /**
@@ -150,14 +227,14 @@ export class CodeTransformer {
    * 获取已生成的所有key
    */
   getAllGeneratedKeys(): Record<string, string> {
-    const textToKeyMap = this.keyGenerator.getTextToKeyMap();
-    const result: Record<string, string> = {};
-    
-    for (const [text, key] of textToKeyMap.entries()) {
-      result[key] = text;
-    }
-    
-    return result;
+    return Object.fromEntries(this.keyGenerator.getKeyToTextMap());
+  }
+
+  /**
+   * 加载已有的key和文本（key → 文本）
+   */
+  loadExistingKeys(entries: Record<string, string>): void {
+    this.keyGenerator.loadExistingEntries(entries);
   }
 
   /**
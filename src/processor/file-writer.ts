@@ -1,6 +1,9 @@
 import type { ScanResult } from '../scanner/types.js';
-import type { I18nConfig } from '../config/types.js';
+import type { I18nConfig, LocaleConflict } from '../config/types.js';
 import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
+import { LocaleFileLayout } from '../utils/locale-layout.js';
+import { CatalogStore } from '../catalog/store.js';
+import { SourceHashStore } from '../utils/source-hash.js';
 
 /**
  * 文件写入结果
@@ -14,6 +17,32 @@ export interface WriteResult {
   error?: string;
   /** 写入时间 */
   timestamp: number;
+  /** 语言文件合并结果 */
+  merge?: LocaleMergeSummary;
+}
+
+/**
+ * 语言文件合并结果
+ */
+export interface LocaleMergeSummary {
+  /** 新增的key数量 */
+  added: number;
+  /** 移除的key */
+  pruned: string[];
+  /** 同一key对应不同文本的冲突，保留已有文本 */
+  conflicts: LocaleConflict[];
+}
+
+/**
+ * 语言文件写入选项
+ */
+export interface LocaleWriteOptions {
+  /** 源码中仍在引用的key，提供时移除语言文件中的其余key */
+  referencedKeys?: Set<string>;
+  /** key所属的命名空间，按命名空间拆分语言文件时用于确定写入的文件 */
+  namespaces?: Record<string, string>;
+  /** 翻译使用的源文本，提供时覆盖已有翻译，并在旁路文件中记录源文本哈希 */
+  sourceTexts?: Record<string, string>;
 }
 
 /**
@@ -21,9 +50,13 @@ export interface WriteResult {
  */
 export class FileWriter {
   private fs: FileSystemService;
+  private layout: LocaleFileLayout;
+  private catalogs: CatalogStore;
 
   constructor(private config: I18nConfig, fileSystem?: FileSystemService) {
     this.fs = fileSystem || getFileSystem();
+    this.layout = new LocaleFileLayout(config, this.fs);
+    this.catalogs = new CatalogStore(config, this.fs);
   }
 
   /**
@@ -61,10 +94,13 @@ export class FileWriter {
   /**
    * 生成本地化文件
    */
-  async writeLocalizationFiles(allExtractedTexts: Record<string, string>): Promise<WriteResult[]> {
+  async writeLocalizationFiles(
+    allExtractedTexts: Record<string, string>,
+    options: LocaleWriteOptions = {}
+  ): Promise<WriteResult[]> {
     const results: WriteResult[] = [];
     
-    if (Object.keys(allExtractedTexts).length === 0) {
+    if (Object.keys(allExtractedTexts).length === 0 && !options.referencedKeys) {
       console.log('没有提取到文本，跳过本地化文件生成');
       return results;
     }
@@ -76,11 +112,14 @@ export class FileWriter {
       // 生成主语言文件
       const localeResult = await this.writeLocaleFile(
         this.config.locale,
-        allExtractedTexts
+        allExtractedTexts,
+        options
       );
       results.push(localeResult);
 
-      console.log(`生成本地化文件: ${localeResult.filePath}`);
+      if (localeResult.success) {
+        console.log(`更新本地化文件: ${localeResult.filePath}${this.formatMergeSummary(localeResult.merge)}`);
+      }
       
       return results;
     } catch (error) {
@@ -98,43 +137,63 @@ export class FileWriter {
   }
 
   /**
-   * 写入翻译文件
+   * 写入翻译文件，已有的翻译保持不变
    */
   async writeTranslationFile(
     targetLanguage: string, 
-    translations: Record<string, string>
+    translations: Record<string, string>,
+    options: LocaleWriteOptions = {}
   ): Promise<WriteResult> {
-    const startTime = Date.now();
-    
-    try {
-      await this.fs.ensureDir(this.config.outputDir);
-      
-      const translationFileName = this.config.output.localeFileName.replace('{locale}', targetLanguage);
-      const translationFilePath = this.fs.join(this.config.outputDir, translationFileName);
-      
-      const translationData = this.config.output.prettyJson
-        ? JSON.stringify(translations, null, 2)
-        : JSON.stringify(translations);
-      
-      await this.fs.writeFile(translationFilePath, translationData, 'utf-8');
-      
-      console.log(`生成翻译文件: ${translationFilePath}`);
-      
-      return {
-        filePath: translationFilePath,
-        success: true,
-        timestamp: Date.now() - startTime,
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      return {
-        filePath: `${this.config.outputDir}/${targetLanguage}.json`,
-        success: false,
-        error: errorMessage,
-        timestamp: Date.now() - startTime,
-      };
+    await this.fs.ensureDir(this.config.outputDir);
+
+    const result = await this.writeLocaleFile(targetLanguage, translations, options);
+    if (result.success) {
+      console.log(`更新翻译文件: ${result.filePath}${this.formatMergeSummary(result.merge)}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * 找出目标语言文件中缺失或源文本已变更的key，与 translate 命令使用相同的源文本哈希记录
+   */
+  async collectPendingTranslations(
+    targetLanguage: string,
+    texts: Record<string, string>,
+    options: LocaleWriteOptions = {}
+  ): Promise<Record<string, string>> {
+    const existingGroups = await this.readLocaleGroups(targetLanguage);
+    const pending: Record<string, string> = {};
+
+    for (const [namespace, group] of this.groupByNamespace(texts, existingGroups, options.namespaces)) {
+      const existing = existingGroups.get(namespace) || {};
+      const sourceHashes = new SourceHashStore(this.layout.getFilePath(targetLanguage, namespace), this.fs);
+      await sourceHashes.load();
+
+      for (const [key, text] of Object.entries(group)) {
+        if (!(key in existing) || sourceHashes.isStale(this.stripNamespaceKey(key, namespace), text)) {
+          pending[key] = text;
+        }
+      }
     }
+
+    return pending;
+  }
+
+  /**
+   * 移除语言文件中源码已不再引用的key，文件不存在时跳过
+   */
+  async pruneLocaleFile(locale: string, referencedKeys: Set<string>): Promise<WriteResult | null> {
+    if ((await this.layout.listFiles(locale)).length === 0) {
+      return null;
+    }
+
+    const result = await this.writeLocaleFile(locale, {}, { referencedKeys });
+    if (result.success && result.merge?.pruned.length) {
+      console.log(`更新本地化文件: ${result.filePath}${this.formatMergeSummary(result.merge)}`);
+    }
+
+    return result;
   }
 
   /**
@@ -165,7 +224,7 @@ export class FileWriter {
   /**
    * 获取目标文件路径
    */
-  private getTargetPath(file: ScanResult): string {
+  getTargetPath(file: ScanResult): string {
     if (this.config.tempDir) {
       // 写入临时目录，保持相对路径结构
       const relativePath = this.fs.relative(process.cwd(), file.filePath);
@@ -177,34 +236,61 @@ export class FileWriter {
   }
 
   /**
-   * 写入单个语言文件
+   * 写入单个语言的语言文件，与已有内容合并
+   * 按命名空间拆分时，每个命名空间写入各自的文件，文件中的key不带命名空间前缀
    */
   private async writeLocaleFile(
     locale: string,
-    texts: Record<string, string>
+    texts: Record<string, string>,
+    options: LocaleWriteOptions = {}
   ): Promise<WriteResult> {
     const startTime = Date.now();
+    const localeFilePath = this.layout.getFilePath(locale, this.layout.isSplitByNamespace() ? '*' : '');
     
     try {
-      const localeFileName = this.config.output.localeFileName.replace('{locale}', locale);
-      const localeFilePath = this.fs.join(this.config.outputDir, localeFileName);
-      
-      const localeData = this.config.output.prettyJson 
-        ? JSON.stringify(texts, null, 2)
-        : JSON.stringify(texts);
-      
-      await this.fs.writeFile(localeFilePath, localeData, 'utf-8');
+      const existingGroups = await this.readLocaleGroups(locale);
+      const incomingGroups = this.groupByNamespace(texts, existingGroups, options.namespaces);
+      const summary: LocaleMergeSummary = { added: 0, pruned: [], conflicts: [] };
+      // XLIFF 等双语格式的目标语言文件需要同时写入源语言文本
+      const sourceGroups = locale !== this.config.locale && this.catalogs.getFormat(localeFilePath).bilingual
+        ? await this.readLocaleGroups(this.config.locale)
+        : null;
+
+      for (const namespace of new Set([...existingGroups.keys(), ...incomingGroups.keys()])) {
+        const incoming = incomingGroups.get(namespace);
+        const merged = this.mergeLocaleData(existingGroups.get(namespace) || {}, incoming || {}, options);
+
+        // 未涉及的已有文件保持原样
+        if (!incoming && merged.summary.pruned.length === 0) {
+          continue;
+        }
+
+        const filePath = this.layout.getFilePath(locale, namespace);
+        await this.catalogs.write(filePath, this.stripNamespace(merged.data, namespace), {
+          locale,
+          ...(sourceGroups ? { sourceMessages: this.stripNamespace(sourceGroups.get(namespace) || {}, namespace) } : {}),
+        });
+
+        if (options.sourceTexts && incoming) {
+          await this.recordSourceHashes(filePath, Object.keys(incoming), namespace, options.sourceTexts);
+        }
+
+        summary.added += merged.summary.added;
+        summary.pruned.push(...merged.summary.pruned);
+        summary.conflicts.push(...merged.summary.conflicts);
+      }
       
       return {
         filePath: localeFilePath,
         success: true,
         timestamp: Date.now() - startTime,
+        merge: summary,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       
       return {
-        filePath: `${this.config.outputDir}/${locale}.json`,
+        filePath: localeFilePath,
         success: false,
         error: errorMessage,
         timestamp: Date.now() - startTime,
@@ -212,6 +298,164 @@ export class FileWriter {
     }
   }
 
+  /**
+   * 读取指定语言的全部语言文件，key带命名空间前缀，不存在时返回空对象
+   */
+  async readLocale(locale: string): Promise<Record<string, string>> {
+    const groups = await this.readLocaleGroups(locale);
+    return Object.assign({}, ...groups.values());
+  }
+
+  /**
+   * 按命名空间读取已有的语言文件
+   */
+  private async readLocaleGroups(locale: string): Promise<Map<string, Record<string, string>>> {
+    const groups = new Map<string, Record<string, string>>();
+
+    for (const { namespace, filePath } of await this.layout.listFiles(locale)) {
+      const data = await this.readLocaleFile(filePath);
+      groups.set(namespace, namespace
+        ? Object.fromEntries(Object.entries(data).map(([key, text]) => [`${namespace}.${key}`, text]))
+        : data);
+    }
+
+    return groups;
+  }
+
+  /**
+   * 按命名空间对文本分组，未拆分语言文件时全部归入空命名空间
+   */
+  private groupByNamespace(
+    texts: Record<string, string>,
+    existingGroups: Map<string, Record<string, string>>,
+    namespaces: Record<string, string> = {}
+  ): Map<string, Record<string, string>> {
+    const groups = new Map<string, Record<string, string>>();
+    const split = this.layout.isSplitByNamespace();
+    // 较长的命名空间优先匹配
+    const knownNamespaces = [...existingGroups.keys()].sort((a, b) => b.length - a.length);
+
+    for (const [key, text] of Object.entries(texts)) {
+      const namespace = !split
+        ? ''
+        : namespaces[key]
+          ?? knownNamespaces.find(ns => key.startsWith(`${ns}.`))
+          ?? this.config.output.namespace.defaultNamespace;
+
+      const group = groups.get(namespace) ?? {};
+      group[key] = text;
+      groups.set(namespace, group);
+    }
+
+    return groups;
+  }
+
+  /**
+   * 在语言文件的旁路文件中记录key翻译时使用的源文本
+   */
+  private async recordSourceHashes(
+    filePath: string,
+    keys: string[],
+    namespace: string,
+    sourceTexts: Record<string, string>
+  ): Promise<void> {
+    const sourceHashes = new SourceHashStore(filePath, this.fs);
+    await sourceHashes.load();
+
+    for (const key of keys) {
+      if (key in sourceTexts) {
+        sourceHashes.record(this.stripNamespaceKey(key, namespace), sourceTexts[key]);
+      }
+    }
+
+    await sourceHashes.save();
+  }
+
+  /**
+   * 去掉单个key的命名空间前缀
+   */
+  private stripNamespaceKey(key: string, namespace: string): string {
+    return namespace && key.startsWith(`${namespace}.`) ? key.slice(namespace.length + 1) : key;
+  }
+
+  /**
+   * 去掉key中的命名空间前缀
+   */
+  private stripNamespace(data: Record<string, string>, namespace: string): Record<string, string> {
+    if (!namespace) {
+      return data;
+    }
+
+    return Object.fromEntries(
+      Object.entries(data).map(([key, text]) => [this.stripNamespaceKey(key, namespace), text])
+    );
+  }
+
+  /**
+   * 读取已有的语言文件并展开为扁平key，不存在时返回空对象
+   */
+  private async readLocaleFile(localeFilePath: string): Promise<Record<string, string>> {
+    try {
+      return await this.catalogs.readMessages(localeFilePath);
+    } catch (error) {
+      throw new Error(`读取语言文件失败 ${localeFilePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 合并语言数据：保留已有key，追加新key，记录冲突并按需移除未引用的key
+   */
+  private mergeLocaleData(
+    existing: Record<string, string>,
+    incoming: Record<string, string>,
+    options: LocaleWriteOptions
+  ): { data: Record<string, string>; summary: LocaleMergeSummary } {
+    const data: Record<string, string> = { ...existing };
+    const summary: LocaleMergeSummary = { added: 0, pruned: [], conflicts: [] };
+
+    for (const [key, text] of Object.entries(incoming)) {
+      if (!(key in data)) {
+        data[key] = text;
+        summary.added++;
+      } else if (options.sourceTexts) {
+        // 源文本已变更的key重新翻译后覆盖旧译文
+        data[key] = text;
+      } else if (data[key] !== text) {
+        summary.conflicts.push({ key, existingText: data[key], incomingText: text });
+      }
+    }
+
+    if (options.referencedKeys) {
+      for (const key of Object.keys(data)) {
+        if (!options.referencedKeys.has(key) && !(key in incoming)) {
+          delete data[key];
+          summary.pruned.push(key);
+        }
+      }
+    }
+
+    return { data, summary };
+  }
+
+  /**
+   * 格式化合并结果说明
+   */
+  private formatMergeSummary(summary?: LocaleMergeSummary): string {
+    if (!summary) {
+      return '';
+    }
+
+    const parts = [`新增 ${summary.added} 个key`];
+    if (summary.pruned.length > 0) {
+      parts.push(`移除 ${summary.pruned.length} 个key`);
+    }
+    if (summary.conflicts.length > 0) {
+      parts.push(`${summary.conflicts.length} 个冲突`);
+    }
+
+    return ` (${parts.join('，')})`;
+  }
+
   /**
    * 清理临时文件
    */
@@ -1,5 +1,8 @@
 export * from './types.js';
 export * from './processor.js';
 export * from './text-extractor.js';
+export * from './ast-extractor.js';
 export * from './code-transformer.js';
-export * from './file-writer.js';
\ No newline at end of file
+export * from './file-writer.js';
+export * from './typings-writer.js';
+export * from './interpolation-validator.js';
@@ -0,0 +1,335 @@
+import { parseExpression } from '@babel/parser';
+import type { Expression, CallExpression, ObjectExpression } from '@babel/types';
+import type { I18nConfig, TranslationIssue } from '../config/types.js';
+import { getNodeSource } from '../utils/ast-utils.js';
+import { isPositionalSyntax, parsePlaceholders, type Placeholder } from '../utils/placeholder.js';
+import { AstTextExtractor } from './ast-extractor.js';
+import { getFunctionNames } from '../config/presets.js';
+
+/**
+ * 替换后翻译函数调用传入的插值参数，无法静态分析时为 null
+ */
+type CallParams = Placeholder[] | null;
+
+/**
+ * 临时key字面量
+ */
+const TEMP_KEY_REGEX = /(['"`])(__I18N_\d+__)\1/g;
+
+/**
+ * 去除空白，用于比较表达式源码
+ */
+function normalizeSource(source: string): string {
+  return source.replace(/\s+/g, '');
+}
+
+/**
+ * 插值校验器 - 检查替换后的调用参数与文本占位符一一对应，且原始代码中的插值表达式都保留在调用中
+ */
+export class InterpolationValidator {
+  private astExtractor: AstTextExtractor;
+
+  constructor(private config: I18nConfig) {
+    this.astExtractor = new AstTextExtractor(config);
+  }
+
+  /**
+   * 校验代码中临时key调用的插值参数，返回未通过的条目
+   */
+  validate(
+    sourceCode: string,
+    transformedCode: string,
+    extractedTexts: Record<string, string>,
+    fileExtension: string
+  ): TranslationIssue[] {
+    const issues: TranslationIssue[] = [];
+    const calls = this.findCalls(transformedCode);
+    const normalizedSource = normalizeSource(sourceCode);
+
+    for (const [tempKey, text] of Object.entries(extractedTexts)) {
+      const expected = parsePlaceholders(text, this.config.replacement.placeholderSyntax);
+      if (!calls.has(tempKey)) {
+        if (expected.length > 0) {
+          issues.push({ key: tempKey, reason: `文本 "${text}" 包含占位符，但代码中没有对应的翻译函数调用` });
+        }
+        continue;
+      }
+
+      const params = calls.get(tempKey);
+      if (params === null || params === undefined) {
+        continue;
+      }
+
+      const reason = this.checkParams(expected, params, normalizedSource);
+      if (reason) {
+        issues.push({ key: tempKey, reason: `${reason}，文本: "${text}"` });
+      }
+    }
+
+    issues.push(...this.checkSurvival(sourceCode, fileExtension, extractedTexts, calls));
+
+    return issues;
+  }
+
+  /**
+   * 检查调用参数与文本占位符是否一致，参数表达式是否来自原始代码
+   */
+  private checkParams(expected: string[], params: Placeholder[], normalizedSource: string): string | null {
+    // 嵌套占位符如 {user.name} 对应参数 user
+    const expectedNames = new Set(expected.map(name => name.split('.')[0]));
+    const paramNames = new Set(params.map(param => param.name));
+
+    const missing = [...expectedNames].filter(name => !paramNames.has(name));
+    if (missing.length > 0) {
+      return `占位符 ${missing.join(', ')} 缺少对应的参数`;
+    }
+
+    const extra = [...paramNames].filter(name => !expectedNames.has(name));
+    if (extra.length > 0) {
+      return `参数 ${extra.join(', ')} 在文本中没有对应的占位符`;
+    }
+
+    const invented = params.find(param => !normalizedSource.includes(normalizeSource(param.source)));
+    if (invented) {
+      return `参数 ${invented.name} 的表达式 ${invented.source} 在原始代码中不存在`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 检查原始代码中被提取的插值文本，其插值表达式是否全部保留在对应调用的参数中
+   */
+  private checkSurvival(
+    sourceCode: string,
+    fileExtension: string,
+    extractedTexts: Record<string, string>,
+    calls: Map<string, CallParams>
+  ): TranslationIssue[] {
+    let candidates;
+    try {
+      candidates = this.astExtractor.collectCandidates(sourceCode, fileExtension);
+    } catch {
+      // 原始代码无法解析时只做调用参数检查
+      return [];
+    }
+
+    const issues: TranslationIssue[] = [];
+    const textToKey = new Map(Object.entries(extractedTexts).map(([tempKey, text]) => [text, tempKey]));
+
+    for (const candidate of candidates) {
+      const tempKey = textToKey.get(candidate.text);
+      const params = tempKey ? calls.get(tempKey) : null;
+      if (!tempKey || !params || !candidate.placeholders) {
+        continue;
+      }
+
+      const passed = new Set(params.map(param => normalizeSource(param.source)));
+      const lost = candidate.placeholders.find(placeholder => !passed.has(normalizeSource(placeholder.source)));
+      if (lost) {
+        issues.push({ key: tempKey, reason: `第 ${candidate.line} 行的插值表达式 ${lost.source} 未保留在调用参数中` });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * 查找代码中以临时key为第一个参数的翻译函数调用，以及 i18nKey 为临时key的富文本组件
+   */
+  private findCalls(code: string): Map<string, CallParams> {
+    const calls = new Map<string, CallParams>();
+    const functionNames = getFunctionNames(this.config.replacement);
+
+    for (const match of code.matchAll(TEMP_KEY_REGEX)) {
+      const index = match.index ?? 0;
+      const before = code.slice(0, index).trimEnd();
+
+      if (before.endsWith('i18nKey=')) {
+        const element = this.findRichTextElement(code, index);
+        if (element !== null) {
+          calls.set(match[2], this.parseRichTextParams(element));
+        }
+        continue;
+      }
+
+      const callee = before.slice(0, -1).trimEnd();
+      const functionName = functionNames.find(name => callee.endsWith(name));
+      if (!before.endsWith('(') || !functionName) {
+        continue;
+      }
+
+      const start = callee.length - functionName.length;
+      const end = this.findClosingParen(code, before.length - 1);
+      if (end === -1) {
+        continue;
+      }
+
+      calls.set(match[2], this.parseCallParams(code.slice(start, end + 1)));
+    }
+
+    return calls;
+  }
+
+  /**
+   * 解析调用的插值参数
+   */
+  private parseCallParams(callSource: string): CallParams {
+    let call: Expression;
+    try {
+      call = parseExpression(callSource, { plugins: ['typescript', 'jsx'] });
+    } catch {
+      return null;
+    }
+    if (call.type !== 'CallExpression') {
+      return null;
+    }
+
+    const params = (call as CallExpression).arguments[1];
+    if (!params) {
+      return [];
+    }
+
+    if (params.type === 'ArrayExpression' && isPositionalSyntax(this.config.replacement.placeholderSyntax)) {
+      return params.elements.map((element, index) => ({
+        name: String(index),
+        source: element ? getNodeSource(callSource, element) : '',
+      }));
+    }
+
+    if (params.type !== 'ObjectExpression') {
+      return null;
+    }
+
+    return this.parseObjectParams(params, callSource);
+  }
+
+  /**
+   * 解析富文本组件 values 属性传入的插值参数
+   */
+  private parseRichTextParams(elementSource: string): CallParams {
+    let element: Expression;
+    try {
+      element = parseExpression(elementSource, { plugins: ['typescript', 'jsx'] });
+    } catch {
+      return null;
+    }
+    if (element.type !== 'JSXElement') {
+      return null;
+    }
+
+    const values = element.openingElement.attributes.find(
+      attribute => attribute.type === 'JSXAttribute' && attribute.name.name === 'values'
+    );
+    if (!values) {
+      return [];
+    }
+    if (
+      values.type !== 'JSXAttribute' ||
+      values.value?.type !== 'JSXExpressionContainer' ||
+      values.value.expression.type !== 'ObjectExpression'
+    ) {
+      return null;
+    }
+
+    return this.parseObjectParams(values.value.expression, elementSource);
+  }
+
+  /**
+   * 解析对象形式的命名插值参数
+   */
+  private parseObjectParams(params: ObjectExpression, source: string): CallParams {
+    const result: Placeholder[] = [];
+    for (const property of params.properties) {
+      // 展开参数或计算属性无法静态校验
+      if (property.type !== 'ObjectProperty' || property.computed) {
+        return null;
+      }
+
+      const name = property.key.type === 'Identifier'
+        ? property.key.name
+        : property.key.type === 'StringLiteral' ? property.key.value : null;
+      if (name === null) {
+        return null;
+      }
+
+      result.push({ name, source: getNodeSource(source, property.value) });
+    }
+
+    return result;
+  }
+
+  /**
+   * 查找 i18nKey 属性所在的富文本组件源码，组件需为自闭合标签
+   */
+  private findRichTextElement(code: string, keyIndex: number): string | null {
+    const start = code.lastIndexOf(`<${this.config.replacement.richText.component}`, keyIndex);
+    if (start === -1) {
+      return null;
+    }
+
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = keyIndex; i < code.length; i++) {
+      const char = code[i];
+
+      if (quote) {
+        if (char === '\\') {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+        continue;
+      }
+
+      if (char === '\'' || char === '"' || char === '`') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+      } else if (depth === 0 && char === '/' && code[i + 1] === '>') {
+        return code.slice(start, i + 2);
+      } else if (depth === 0 && char === '>') {
+        return null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 查找与指定左括号匹配的右括号位置，跳过字符串和模板字符串中的括号
+   */
+  private findClosingParen(code: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openIndex; i < code.length; i++) {
+      const char = code[i];
+
+      if (quote) {
+        if (char === '\\') {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+        continue;
+      }
+
+      if (char === '\'' || char === '"' || char === '`') {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+
+    return -1;
+  }
+}
@@ -1,13 +1,26 @@
 import fs from 'fs-extra';
-import type { I18nConfig, ProcessingStats } from '../config/types.js';
+import path from 'path';
+import type { I18nConfig, ProcessingStats, ProcessingTimings, ExtractionResult, LanguageTranslationStats, CacheStats } from '../config/types.js';
 import type { ScanResult } from '../scanner/types.js';
-import type { FileProcessResult } from './types.js';
+import type { FileProcessResult, FilePreviewResult, ProcessOptions } from './types.js';
+import type { TransformResult } from './code-transformer.js';
 import { FileScanner } from '../scanner/scanner.js';
 import { TemplateManager } from '../templates/manager.js';
 import { LLMClient } from '../llm/client.js';
 import { TextExtractor } from './text-extractor.js';
 import { CodeTransformer } from './code-transformer.js';
 import { FileWriter } from './file-writer.js';
+import { TypingsWriter } from './typings-writer.js';
+import { createUnifiedDiff } from '../utils/diff.js';
+import { RunManifest } from '../utils/run-manifest.js';
+import { RunBackup, BackupFileSystem } from '../utils/run-backup.js';
+import { getFileSystem } from '../utils/file-system.js';
+import { GitService } from '../utils/git.js';
+import { findKeyReferences } from '../utils/key-references.js';
+import { getFunctionNames } from '../config/presets.js';
+import { NumericPlaceholderStore } from '../utils/numeric-placeholders.js';
+import { DEFAULT_CACHE_DIR } from '../config/defaults.js';
+import { getTargetLanguages } from '../config/manager.js';
 
 /**
  * 文件处理器 - 协调各个组件完成文件处理
@@ -15,69 +28,213 @@ import { FileWriter } from './file-writer.js';
 export class FileProcessor {
   private config: I18nConfig;
   private scanner: FileScanner;
-  private llmClient: LLMClient;
+  private llmClient: LLMClient | null = null;
   private textExtractor: TextExtractor;
   private codeTransformer: CodeTransformer;
   private fileWriter: FileWriter;
+  private typingsWriter: TypingsWriter;
+  private runManifest: RunManifest;
+  private runBackup: RunBackup;
   private allExtractedTexts: Record<string, string> = {};
+  private keyNamespaces: Record<string, string> = {};
+  private numericPlaceholders: NumericPlaceholderStore;
 
   constructor(config: I18nConfig) {
     this.config = config;
     this.scanner = new FileScanner(config);
     
     const templateManager = new TemplateManager();
-    this.llmClient = new LLMClient(
-      config.llm, 
-      config.locale, 
-      config.displayLanguage,
-      { enabled: true, cacheDir: '.ai-i18n-cache' }
-    );
-    
-    this.textExtractor = new TextExtractor(config, this.llmClient, templateManager);
+    this.textExtractor = new TextExtractor(config, () => this.getLLMClient(), templateManager);
     this.codeTransformer = new CodeTransformer(config);
-    this.fileWriter = new FileWriter(config);
+    this.runManifest = new RunManifest(DEFAULT_CACHE_DIR);
+    this.runBackup = new RunBackup(DEFAULT_CACHE_DIR);
+    this.numericPlaceholders = new NumericPlaceholderStore(DEFAULT_CACHE_DIR);
+
+    // 运行期间的写入先备份原始内容，便于 ai-i18n rollback 撤销
+    const fileSystem = new BackupFileSystem(getFileSystem(), this.runBackup);
+    this.fileWriter = new FileWriter(config, fileSystem);
+    this.typingsWriter = new TypingsWriter(config, fileSystem);
   }
 
   /**
    * 处理所有文件
    */
-  async processAll(options: { skipTranslate?: boolean; concurrency?: number } = {}): Promise<ProcessingStats> {
+  async processAll(options: ProcessOptions = {}): Promise<ProcessingStats> {
     const startTime = Date.now();
     const { concurrency = 3 } = options;
     
     try {
+      await this.runBackup.begin(startTime);
+
       // 扫描文件
       const { files } = await this.scanner.scan();
-      const targetFiles = files.filter(file => this.scanner.shouldProcessFile(file));
+      const processableFiles = files.filter(file => this.scanner.shouldProcessFile(file));
+      const targetFiles = await this.selectTargetFiles(processableFiles, options);
+      await this.loadExistingKeys();
+      await this.numericPlaceholders.load();
+      const timings: ProcessingTimings = { scan: Date.now() - startTime, files: 0, locales: 0, translation: 0 };
 
       console.log(`发现 ${targetFiles.length} 个需要处理的文件`);
 
       // 并发处理文件
+      let phaseStart = Date.now();
       const results = await this.processFilesConcurrently(targetFiles, concurrency);
+      timings.files = Date.now() - phaseStart;
       const failedFiles = results.filter(r => !r.success).map(r => r.filePath);
       const totalExtracted = results.reduce((sum, r) => sum + r.extractedCount, 0);
 
-      // 生成本地化文件
-      await this.fileWriter.writeLocalizationFiles(this.allExtractedTexts);
+      // 合并到本地化文件
+      phaseStart = Date.now();
+      const referencedKeys = options.prune ? await this.collectReferencedKeys(files) : undefined;
+      const [localeResult] = await this.fileWriter.writeLocalizationFiles(
+        this.allExtractedTexts,
+        { namespaces: this.keyNamespaces, ...(referencedKeys ? { referencedKeys } : {}) }
+      );
+      if (localeResult && !localeResult.success) {
+        throw new Error(`本地化文件写入失败: ${localeResult.error}`);
+      }
+      const typingsFile = this.config.output.typings.enabled ? await this.writeTypings() : undefined;
+      timings.locales = Date.now() - phaseStart;
 
       // 翻译处理
-      let translatedCount = 0;
+      let translations: LanguageTranslationStats[] = [];
       if (!options.skipTranslate && Object.keys(this.allExtractedTexts).length > 0) {
-        translatedCount = await this.processTranslation();
+        phaseStart = Date.now();
+        translations = await this.processTranslation();
+        timings.translation = Date.now() - phaseStart;
+      }
+
+      if (referencedKeys) {
+        for (const language of getTargetLanguages(this.config)) {
+          await this.fileWriter.pruneLocaleFile(language, referencedKeys);
+        }
       }
 
+      // 语言文件写入和翻译都成功后才记录本次运行，失败时下次 --changed 仍会处理这些文件
+      await this.runManifest.save(startTime);
+      await this.numericPlaceholders.save();
+      const runId = await this.runBackup.complete();
+
       return {
         filesProcessed: results.filter(r => r.success).length,
         textsExtracted: totalExtracted,
-        textsTranslated: translatedCount,
+        textsTranslated: translations.reduce((sum, t) => sum + t.translated, 0),
+        translations,
+        filesSkipped: processableFiles.length - targetFiles.length,
+        keysAdded: localeResult?.merge?.added ?? 0,
+        keysPruned: localeResult?.merge?.pruned.length ?? 0,
+        conflicts: localeResult?.merge?.conflicts ?? [],
         failedFiles,
+        ...(typingsFile ? { typingsFile } : {}),
+        ...(runId ? { runId } : {}),
+        files: results,
+        cacheStats: this.getCacheStats(),
+        timings,
         processingTime: Date.now() - startTime,
       };
     } catch (error) {
+      // 失败前已写入的文件同样可以回滚
+      await this.runBackup.complete().catch(() => null);
       throw new Error(`处理失败: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * 获取本次处理将会写入的源文件路径，使用临时目录时为临时目录中的路径
+   */
+  async getTargetPaths(options: ProcessOptions = {}): Promise<string[]> {
+    const { files } = await this.scanner.scan();
+    const targetFiles = await this.selectTargetFiles(
+      files.filter(file => this.scanner.shouldProcessFile(file)),
+      options
+    );
+    return targetFiles.map(file => path.resolve(this.fileWriter.getTargetPath(file)));
+  }
+
+  /**
+   * 根据源语言文件中的全部key生成类型定义
+   */
+  private async writeTypings(): Promise<string> {
+    const messages = await this.fileWriter.readLocale(this.config.locale);
+    const result = await this.typingsWriter.write(Object.keys(messages));
+    if (!result.success) {
+      throw new Error(`类型定义生成失败: ${result.error}`);
+    }
+    return result.filePath;
+  }
+
+  /**
+   * 根据增量选项筛选需要处理的文件
+   */
+  private async selectTargetFiles(files: ScanResult[], options: ProcessOptions): Promise<ScanResult[]> {
+    let targetFiles = files;
+
+    if (options.since) {
+      const changedPaths = new Set(await new GitService().getChangedFiles(options.since));
+      targetFiles = targetFiles.filter(file => changedPaths.has(path.resolve(file.filePath)));
+    }
+
+    await this.runManifest.load();
+
+    if (options.changed) {
+      targetFiles = await this.filterChangedFiles(targetFiles);
+    }
+
+    return targetFiles;
+  }
+
+  /**
+   * 从源语言文件加载已有的key，保证相同文本在多次运行间复用同一个key
+   */
+  private async loadExistingKeys(): Promise<void> {
+    const existing = await this.fileWriter.readLocale(this.config.locale);
+    this.codeTransformer.loadExistingKeys(existing);
+  }
+
+  /**
+   * 筛选自上次运行以来新增或修改的文件
+   */
+  private async filterChangedFiles(files: ScanResult[]): Promise<ScanResult[]> {
+    const lastRunAt = this.runManifest.getLastRunAt();
+    if (!lastRunAt) {
+      return files;
+    }
+
+    // 仅对上次运行后修改过或未记录的文件比较内容哈希
+    const recentFiles = new Set(this.scanner.filterByMtime(files, lastRunAt));
+    const changedFiles: ScanResult[] = [];
+
+    for (const file of files) {
+      if (!recentFiles.has(file) && this.runManifest.has(file)) {
+        continue;
+      }
+      if (await this.runManifest.isChanged(file)) {
+        changedFiles.push(file);
+      }
+    }
+
+    return changedFiles;
+  }
+
+  /**
+   * 收集源码中仍在引用的key，使用临时目录时读取处理后的文件
+   */
+  private async collectReferencedKeys(files: ScanResult[]): Promise<Set<string>> {
+    const referencedKeys = new Set<string>();
+
+    for (const file of files) {
+      const targetPath = this.fileWriter.getTargetPath(file);
+      const filePath = await fs.pathExists(targetPath) ? targetPath : file.filePath;
+      const code = await fs.readFile(filePath, 'utf-8');
+
+      for (const key of findKeyReferences(code, getFunctionNames(this.config.replacement))) {
+        referencedKeys.add(key);
+      }
+    }
+
+    return referencedKeys;
+  }
+
   /**
    * 并发处理文件
    */
@@ -136,18 +293,8 @@ export class FileProcessor {
     try {
       console.log(`处理文件: ${file.relativePath}`);
 
-      // 读取文件内容
-      const fileContent = await fs.readFile(file.filePath, 'utf-8');
-      
-      // 提取文本
-      const extractionResult = await this.textExtractor.extractFromFile(file, fileContent);
-      
-      // 转换代码
-      const transformResult = await this.codeTransformer.transformCode(
-        file, 
-        extractionResult.transformedCode,
-        extractionResult.extractedTexts
-      );
+      // 提取文本并转换代码
+      const { originalCode, extractionResult, transformResult } = await this.extractAndTransform(file);
 
       // 输出警告信息
       if (transformResult.warnings.length > 0) {
@@ -166,11 +313,21 @@ export class FileProcessor {
         throw new Error(`文件写入失败: ${writeResult.error}`);
       }
 
+      // 记录源文件当前内容，供增量提取比较
+      this.runManifest.record(file, this.config.tempDir ? originalCode : transformResult.transformedCode);
+
       // 收集提取的文本
+      const keys: Record<string, string> = {};
       for (const [tempKey, text] of Object.entries(extractionResult.extractedTexts)) {
         const realKey = transformResult.keyMapping[tempKey];
         if (realKey) {
+          keys[realKey] = text;
           this.allExtractedTexts[realKey] = text;
+          this.keyNamespaces[realKey] = transformResult.namespace;
+          const numeric = extractionResult.numericPlaceholders?.[tempKey];
+          if (numeric) {
+            this.numericPlaceholders.record(text, numeric);
+          }
         }
       }
 
@@ -178,6 +335,8 @@ export class FileProcessor {
         filePath: file.filePath,
         success: true,
         extractedCount: Object.keys(extractionResult.extractedTexts).length,
+        keys,
+        ...(transformResult.warnings.length > 0 ? { warnings: transformResult.warnings } : {}),
         processingTime: Date.now() - startTime,
       };
     } catch (error) {
@@ -195,30 +354,174 @@ export class FileProcessor {
   }
 
   /**
-   * 处理翻译
+   * 预览所有文件的处理结果（试运行，不写入任何文件）
    */
-  private async processTranslation(): Promise<number> {
+  async previewAll(options: ProcessOptions = {}): Promise<FilePreviewResult[]> {
+    const { concurrency = 3 } = options;
+
     try {
-      console.log(`开始翻译 ${Object.keys(this.allExtractedTexts).length} 个文本...`);
-      
+      const { files } = await this.scanner.scan();
+      const targetFiles = await this.selectTargetFiles(
+        files.filter(file => this.scanner.shouldProcessFile(file)),
+        options
+      );
+      await this.loadExistingKeys();
+      const results: FilePreviewResult[] = [];
+
+      // 分批预览
+      for (let i = 0; i < targetFiles.length; i += concurrency) {
+        const batch = targetFiles.slice(i, i + concurrency);
+        results.push(...await Promise.all(batch.map(file => this.previewFile(file))));
+      }
+
+      return results;
+    } catch (error) {
+      throw new Error(`预览失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 预览单个文件的处理结果
+   */
+  async previewFile(file: ScanResult): Promise<FilePreviewResult> {
+    try {
+      const { originalCode, extractionResult, transformResult } = await this.extractAndTransform(file);
+
+      // 以真实key展示提取结果
+      const extractedTexts: Record<string, string> = {};
+      for (const [tempKey, text] of Object.entries(extractionResult.extractedTexts)) {
+        extractedTexts[transformResult.keyMapping[tempKey] || tempKey] = text;
+      }
+
+      return {
+        filePath: file.filePath,
+        relativePath: file.relativePath,
+        success: transformResult.isValid,
+        extractedTexts,
+        diff: createUnifiedDiff(originalCode, transformResult.transformedCode, file.relativePath),
+        warnings: transformResult.warnings,
+        ...(transformResult.isValid ? {} : { error: `语法验证失败: ${transformResult.warnings.join(', ')}` }),
+      };
+    } catch (error) {
+      return {
+        filePath: file.filePath,
+        relativePath: file.relativePath,
+        success: false,
+        extractedTexts: {},
+        diff: '',
+        warnings: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * 读取文件并完成文本提取和代码转换
+   */
+  private async extractAndTransform(file: ScanResult): Promise<{
+    originalCode: string;
+    extractionResult: ExtractionResult;
+    transformResult: TransformResult;
+  }> {
+    // 读取文件内容
+    const originalCode = await fs.readFile(file.filePath, 'utf-8');
+
+    // 提取文本
+    const extractionResult = await this.textExtractor.extractFromFile(file, originalCode);
+
+    // 转换代码
+    const transformResult = await this.codeTransformer.transformCode(
+      file,
+      extractionResult.transformedCode,
+      extractionResult.extractedTexts,
+      originalCode
+    );
+
+    // 提取阶段跳过的文本与转换警告一并报告
+    if (extractionResult.warnings?.length) {
+      transformResult.warnings = [...extractionResult.warnings, ...transformResult.warnings];
+    }
+
+    return { originalCode, extractionResult, transformResult };
+  }
+
+  /**
+   * 处理翻译，按配置的并发数同时翻译多个目标语言
+   */
+  private async processTranslation(): Promise<LanguageTranslationStats[]> {
+    const languages = getTargetLanguages(this.config);
+    const concurrency = this.config.llm.translation.concurrency;
+    const results: LanguageTranslationStats[] = [];
+
+    console.log(`开始翻译 ${Object.keys(this.allExtractedTexts).length} 个文本到 ${languages.join(', ')}...`);
+
+    for (let i = 0; i < languages.length; i += concurrency) {
+      const batch = languages.slice(i, i + concurrency);
+      results.push(...await Promise.all(batch.map(language => this.translateToLanguage(language))));
+    }
+
+    return results;
+  }
+
+  /**
+   * 翻译到单个目标语言并写入翻译文件
+   */
+  private async translateToLanguage(language: string): Promise<LanguageTranslationStats> {
+    let total = Object.keys(this.allExtractedTexts).length;
+
+    try {
+      // 只翻译目标语言文件中缺失或源文本已变更的key
+      const pending = await this.fileWriter.collectPendingTranslations(language, this.allExtractedTexts, {
+        namespaces: this.keyNamespaces,
+      });
+      total = Object.keys(pending).length;
+      if (total === 0) {
+        return { language, translated: 0, failed: 0, unresolved: [] };
+      }
+
       // 批量翻译
-      const translations = await this.llmClient.batchTranslateTexts(this.allExtractedTexts);
+      const plurals = this.numericPlaceholders.collectPlurals(pending, this.config.replacement);
+      const { translations, unresolved } = await this.getLLMClient().batchTranslateTexts(pending, language, plurals);
       
-      // 写入翻译文件
-      const writeResult = await this.fileWriter.writeTranslationFile(
-        this.config.displayLanguage, 
-        translations
-      );
+      // 写入翻译文件，并记录源文本哈希供 translate 命令判断变更
+      const writeResult = await this.fileWriter.writeTranslationFile(language, translations, {
+        namespaces: this.keyNamespaces,
+        sourceTexts: pending,
+      });
       
       if (!writeResult.success) {
         throw new Error(`翻译文件写入失败: ${writeResult.error}`);
       }
       
-      return Object.keys(translations).length;
+      const translated = Object.keys(translations).length;
+      return {
+        language,
+        translated,
+        failed: total - translated,
+        unresolved,
+        filePath: writeResult.filePath,
+      };
     } catch (error) {
-      console.error('翻译处理失败:', error);
-      return 0;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error(`翻译到 ${language} 失败:`, errorMsg);
+      
+      return { language, translated: 0, failed: total, unresolved: [], error: errorMsg };
+    }
+  }
+
+  /**
+   * 获取 LLM 客户端，首次使用时创建，本地提取模式下无需配置大模型
+   */
+  private getLLMClient(): LLMClient {
+    if (!this.llmClient) {
+      this.llmClient = new LLMClient(
+        this.config.llm, 
+        this.config.locale, 
+        this.config.displayLanguage,
+        { enabled: true, cacheDir: DEFAULT_CACHE_DIR }
+      );
     }
+    return this.llmClient;
   }
 
   /**
@@ -231,8 +534,8 @@ export class FileProcessor {
   /**
    * 获取缓存统计信息
    */
-  getCacheStats() {
-    return this.llmClient.getCacheStats();
+  getCacheStats(): CacheStats | null {
+    return this.llmClient?.getCacheStats() ?? null;
   }
 
   /**
@@ -240,14 +543,16 @@ export class FileProcessor {
    */
   clear(): void {
     this.allExtractedTexts = {};
+    this.keyNamespaces = {};
+    this.numericPlaceholders = new NumericPlaceholderStore(DEFAULT_CACHE_DIR);
     this.codeTransformer.clear();
-    this.llmClient.clearCache();
+    this.llmClient?.clearCache();
   }
 
   /**
    * 清理过期缓存
    */
   cleanupCache(): void {
-    this.llmClient.cleanupCache();
+    this.llmClient?.cleanupCache();
   }
 }
\ No newline at end of file
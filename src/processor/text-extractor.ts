@@ -2,16 +2,22 @@ import type { ScanResult } from '../scanner/types.js';
 import type { I18nConfig, ExtractionResult } from '../config/types.js';
 import type { LLMClient } from '../llm/client.js';
 import type { TemplateManager } from '../templates/manager.js';
+import { AstTextExtractor } from './ast-extractor.js';
+import { formatPlaceholder, isPositionalSyntax } from '../utils/placeholder.js';
 
 /**
  * 文本提取器 - 专门负责从文件中提取中文文本
  */
 export class TextExtractor {
+  private astExtractor: AstTextExtractor;
+
   constructor(
     private config: I18nConfig,
-    private llmClient: LLMClient,
+    private getLLMClient: () => LLMClient,
     private templateManager: TemplateManager
-  ) {}
+  ) {
+    this.astExtractor = new AstTextExtractor(config);
+  }
 
   /**
    * 从文件中提取中文文本
@@ -21,21 +27,37 @@ export class TextExtractor {
     fileContent: string
   ): Promise<ExtractionResult> {
     try {
+      // 本地语法树提取，无需调用大模型
+      if (this.config.extraction.mode === 'ast') {
+        return this.astExtractor.extract(fileContent, file.fileType, file.relativePath);
+      }
+
+      // 语法树提取候选，大模型仅负责分类
+      if (this.config.extraction.mode === 'hybrid') {
+        return await this.extractHybrid(file, fileContent);
+      }
+
       // 获取模板类型
       const templateType = this.getTemplateType(file);
       
       // 编译提示词
+      const placeholderSyntax = this.config.replacement.placeholderSyntax;
       const templateResult = await this.templateManager.compileTemplate(templateType, {
         locale: this.config.locale,
         displayLanguage: this.config.displayLanguage,
         functionName: this.config.replacement.functionName,
         autoImport: this.config.replacement.autoImport,
+        placeholderSyntax,
+        interpolationParams: isPositionalSyntax(placeholderSyntax) ? '[count]' : '{ count }',
+        interpolationText: `共${formatPlaceholder('count', placeholderSyntax)}条记录`,
+        callForms: this.describeCallForms(),
+        richTextRules: this.describeRichTextRules(),
         fileContent,
         fileType: file.fileType,
       });
 
       // 调用LLM提取文本  
-      const extractionResult = await this.llmClient.extractTexts(templateResult.prompt);
+      const extractionResult = await this.getLLMClient().extractTexts(templateResult.prompt);
       
       return extractionResult;
     } catch (error) {
@@ -43,6 +65,30 @@ export class TextExtractor {
     }
   }
 
+  /**
+   * 混合模式提取：代码改写保持确定性，大模型只判断哪些候选需要国际化
+   */
+  private async extractHybrid(file: ScanResult, fileContent: string): Promise<ExtractionResult> {
+    const candidates = this.astExtractor.collectCandidates(fileContent, file.fileType, file.relativePath);
+    
+    if (candidates.length === 0) {
+      return { extractedTexts: {}, transformedCode: fileContent };
+    }
+
+    const templateResult = await this.templateManager.compileClassificationTemplate(
+      candidates,
+      file,
+      this.config.locale
+    );
+    const { userFacing } = await this.getLLMClient().classifyCandidates(templateResult.prompt);
+    const selectedIds = new Set(userFacing);
+
+    return this.astExtractor.applyCandidates(
+      fileContent,
+      candidates.filter(candidate => selectedIds.has(candidate.id))
+    );
+  }
+
   /**
    * 获取模板类型
    */
@@ -60,6 +106,39 @@ export class TextExtractor {
     return templateMap[extension || ''] || 'extraction-generic';
   }
 
+  /**
+   * 生成 Vue 文件中不同位置的调用形式说明
+   */
+  private describeCallForms(): string {
+    const { functionName, callForms = {} } = this.config.replacement;
+
+    return [
+      `模板中使用 ${callForms.vueTemplate || functionName}`,
+      `<script setup> 和选项式 API 的 setup() 中使用 ${callForms.vueScriptSetup || functionName}`,
+      `选项式 API 组件方法中使用 ${callForms.vueOptionsApi || functionName}`,
+      `其他位置使用 ${functionName}`,
+    ].join('，');
+  }
+
+  /**
+   * 生成富文本规则说明
+   */
+  private describeRichTextRules(): string {
+    const { enabled, tagStyle, component } = this.config.replacement.richText;
+    if (!enabled) {
+      return '未启用，包含行内标签的文本按片段分别提取';
+    }
+
+    const tag = tagStyle === 'named' ? 'a' : '0';
+    const components = tagStyle === 'named' ? '{{ a: <a href="/x" /> }}' : '{[<a href="/x" />]}';
+
+    return [
+      `1. **行内标签**: <p>点击<a href="/x">这里</a>查看详情</p> → <p><${component} i18nKey="__I18N_1__" components=${components} /></p>，提取的文本为 "点击<${tag}>这里</${tag}>查看详情"`,
+      `2. 标签${tagStyle === 'named' ? '以元素名命名' : '按出现顺序从 0 编号'}，组件保留原有属性并改为自闭合，属性相同的标签共用一个组件`,
+      `3. 插值通过 values 传入，如 values={{ name }}；行内标签只能包含纯文本，否则按片段分别提取`,
+    ].join('\n');
+  }
+
   /**
    * 批量提取文本
    */
@@ -1,3 +1,5 @@
+import type { Placeholder } from '../utils/placeholder.js';
+
 /**
  * 文件处理结果
  */
@@ -8,12 +10,32 @@ export interface FileProcessResult {
   success: boolean;
   /** 提取的文本数量 */
   extractedCount: number;
+  /** 生成的key及对应文本 */
+  keys?: Record<string, string>;
+  /** 警告信息 */
+  warnings?: string[];
   /** 错误信息 */
   error?: string;
   /** 处理时间（毫秒） */
   processingTime: number;
 }
 
+/**
+ * 文件处理选项
+ */
+export interface ProcessOptions {
+  /** 跳过翻译 */
+  skipTranslate?: boolean;
+  /** 并发数 */
+  concurrency?: number;
+  /** 仅处理自上次运行以来新增或修改的文件 */
+  changed?: boolean;
+  /** 仅处理相对于该 Git 引用有变更的文件 */
+  since?: string;
+  /** 移除语言文件中源码已不再引用的key */
+  prune?: boolean;
+}
+
 /**
  * 自动导入结果
  */
@@ -24,4 +46,56 @@ export interface AutoImportResult {
   importStatement?: string;
   /** 插入位置 */
   insertPosition?: number;
-}
\ No newline at end of file
+  /** 添加的 hook 语句 */
+  hookStatement?: string;
+  /** hook 插入位置 */
+  hookPosition?: number;
+}
+
+/**
+ * 文件预览结果（试运行）
+ */
+export interface FilePreviewResult {
+  /** 文件路径 */
+  filePath: string;
+  /** 相对路径 */
+  relativePath: string;
+  /** 是否成功 */
+  success: boolean;
+  /** 提取的文本映射（key -> 文本） */
+  extractedTexts: Record<string, string>;
+  /** 代码变更的统一格式差异 */
+  diff: string;
+  /** 警告信息 */
+  warnings: string[];
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 候选文本（本地语法树扫描结果）
+ */
+export interface TextCandidate {
+  /** 临时key */
+  id: string;
+  /** 文本内容 */
+  text: string;
+  /** 文本类型 */
+  kind: 'string' | 'template' | 'concat' | 'jsxText' | 'jsxAttribute' | 'richText' | 'vueText' | 'vueAttribute';
+  /** 起始偏移 */
+  start: number;
+  /** 结束偏移 */
+  end: number;
+  /** 行号（从1开始） */
+  line: number;
+  /** 列号（从0开始） */
+  column: number;
+  /** 替换后的代码 */
+  replacement: string;
+  /** 所在行代码 */
+  context: string;
+  /** 插值占位符及对应的原始表达式 */
+  placeholders?: Placeholder[];
+  /** 所在位置没有可用的翻译函数调用形式，如未配置 instance 时组件外的文本，提取时跳过 */
+  unsupported?: boolean;
+}
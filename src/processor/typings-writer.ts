@@ -0,0 +1,178 @@
+import type { I18nConfig } from '../config/types.js';
+import type { WriteResult } from './file-writer.js';
+import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
+import { unflattenMessages, type NestedMessages } from '../utils/locale-structure.js';
+
+/** 生成文件的头部说明 */
+const FILE_HEADER = '// 此文件由 ai-i18n 根据源语言文件自动生成，请勿手动修改';
+
+/**
+ * 生成TypeScript字符串字面量
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * 生成对象类型的属性名，非标识符时加引号
+ */
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+/**
+ * 类型定义写入器 - 根据源语言文件中的key生成 .d.ts 或 keys.ts
+ * 未知key在 $t() 中会成为编译错误，并可增强 i18next / vue-i18n 的类型以获得编辑器补全
+ */
+export class TypingsWriter {
+  private fs: FileSystemService;
+
+  constructor(private config: I18nConfig, fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+  }
+
+  /**
+   * 写入类型定义文件，内容未变化时不重复写入
+   */
+  async write(keys: string[]): Promise<WriteResult> {
+    const startTime = Date.now();
+    const { outputFile } = this.config.output.typings;
+
+    try {
+      const content = this.generate(keys);
+      const existing = await this.fs.pathExists(outputFile)
+        ? await this.fs.readFile(outputFile, 'utf-8')
+        : null;
+
+      if (existing !== content) {
+        await this.fs.ensureDir(this.fs.dirname(outputFile));
+        await this.fs.writeFile(outputFile, content, 'utf-8');
+      }
+
+      return {
+        filePath: outputFile,
+        success: true,
+        timestamp: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        filePath: outputFile,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * 生成类型定义内容
+   */
+  generate(keys: string[]): string {
+    const { outputFile, framework } = this.config.output.typings;
+    const sortedKeys = [...new Set(keys)].sort();
+    const sections: string[] = [];
+
+    if (framework !== 'none') {
+      sections.push(`import '${framework}';`);
+    }
+
+    sections.push(outputFile.endsWith('.d.ts')
+      ? this.generateKeyType(sortedKeys)
+      : this.generateKeyConstant(sortedKeys));
+
+    if (framework !== 'none') {
+      sections.push(this.generateMessageType(sortedKeys, framework));
+      sections.push(framework === 'i18next'
+        ? this.generateI18nextAugmentation(sortedKeys)
+        : this.generateVueI18nAugmentation());
+    }
+
+    return `${FILE_HEADER}\n\n${sections.join('\n\n')}\n`;
+  }
+
+  /**
+   * 生成key联合类型
+   */
+  private generateKeyType(keys: string[]): string {
+    if (keys.length === 0) {
+      return 'export type I18nKey = never;';
+    }
+
+    return ['export type I18nKey =', ...keys.map(key => `  | ${quote(key)}`)].join('\n') + ';';
+  }
+
+  /**
+   * 生成包含全部key的常量及其联合类型
+   */
+  private generateKeyConstant(keys: string[]): string {
+    return [
+      'export const I18N_KEYS = [',
+      ...keys.map(key => `  ${quote(key)},`),
+      '] as const;',
+      '',
+      'export type I18nKey = (typeof I18N_KEYS)[number];',
+    ].join('\n');
+  }
+
+  /**
+   * 生成语言数据的结构类型
+   * vue-i18n 和嵌套结构的语言文件按点号展开为嵌套对象，扁平结构保留完整key
+   */
+  private generateMessageType(keys: string[], framework: 'i18next' | 'vue-i18n'): string {
+    const messages = Object.fromEntries(keys.map(key => [key, key]));
+    const nested = framework === 'vue-i18n'
+      || this.config.output.structure === 'nested'
+      || this.config.output.localeFileName.includes('{namespace}');
+    const shape: NestedMessages = nested ? unflattenMessages(messages) : messages;
+
+    return `export interface I18nMessages ${this.renderObjectType(shape, 0)}`;
+  }
+
+  /**
+   * 生成对象类型字面量
+   */
+  private renderObjectType(shape: NestedMessages, depth: number): string {
+    const indent = '  '.repeat(depth + 1);
+    const lines = Object.entries(shape).map(([name, value]) => {
+      const type = typeof value === 'string' ? 'string' : this.renderObjectType(value, depth + 1);
+      return `${indent}${propertyName(name)}: ${type};`;
+    });
+
+    return lines.length > 0
+      ? `{\n${lines.join('\n')}\n${'  '.repeat(depth)}}`
+      : '{}';
+  }
+
+  /**
+   * 生成 i18next 的 CustomTypeOptions 增强
+   * 扁平结构中的key包含点号时需关闭 keySeparator
+   */
+  private generateI18nextAugmentation(keys: string[]): string {
+    const flatWithDots = this.config.output.structure === 'flat'
+      && !this.config.output.localeFileName.includes('{namespace}')
+      && keys.some(key => key.includes('.'));
+
+    return [
+      'declare module \'i18next\' {',
+      '  interface CustomTypeOptions {',
+      '    defaultNS: \'translation\';',
+      ...(flatWithDots ? ['    keySeparator: false;'] : []),
+      '    resources: {',
+      '      translation: I18nMessages;',
+      '    };',
+      '  }',
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * 生成 vue-i18n 的 DefineLocaleMessage 增强
+   */
+  private generateVueI18nAugmentation(): string {
+    return [
+      'declare module \'vue-i18n\' {',
+      '  export interface DefineLocaleMessage extends I18nMessages {}',
+      '}',
+    ].join('\n');
+  }
+}
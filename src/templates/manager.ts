@@ -1,6 +1,9 @@
 import { fileURLToPath } from 'url';
 import type { TemplateVariables, TemplateResult } from './types.js';
+import type { TextCandidate } from '../processor/types.js';
+import type { ScanResult } from '../scanner/types.js';
 import { getFileSystem, type FileSystemService } from '../utils/file-system.js';
+import { getPluralCategories } from '../utils/plural.js';
 
 // 获取当前文件的目录路径
 const __filename = fileURLToPath(import.meta.url);
@@ -123,7 +126,8 @@ export class TemplateManager {
   async compileTranslationTemplate(
     textsToTranslate: Record<string, string>,
     locale: string,
-    displayLanguage: string
+    displayLanguage: string,
+    plurals: Record<string, string[]> = {}
   ): Promise<TemplateResult> {
     const variables: TemplateVariables = {
       locale,
@@ -132,11 +136,54 @@ export class TemplateManager {
       autoImport: {},   // 翻译模板不需要
       fileContent: '',  // 翻译模板不需要
       textsToTranslate: JSON.stringify(textsToTranslate, null, 2),
+      pluralRules: this.describePluralRules(displayLanguage, plurals),
     };
 
     return await this.compileTemplate('translation-batch', variables);
   }
 
+  /**
+   * 生成复数规则说明，列出目标语言的 CLDR 复数类别和需要使用 ICU plural 的key
+   */
+  private describePluralRules(language: string, plurals: Record<string, string[]>): string {
+    const entries = Object.entries(plurals);
+    if (entries.length === 0) {
+      return '本批文本无需处理复数。';
+    }
+
+    return [
+      `${language} 的 CLDR 复数类别: ${getPluralCategories(language).join(', ')}`,
+      '以下文本中的数量占位符必须使用 ICU plural 格式，且必须提供全部复数类别、不能使用其他类别（可额外使用 =0 等精确匹配），分支中用 # 表示数量:',
+      ...entries.map(([key, names]) => `- ${key}: ${names.map(name => `{${name}}`).join(', ')}`),
+    ].join('\n');
+  }
+
+  /**
+   * 编译候选文本分类模板
+   */
+  async compileClassificationTemplate(
+    candidates: TextCandidate[],
+    file: ScanResult,
+    locale: string
+  ): Promise<TemplateResult> {
+    const variables: TemplateVariables = {
+      locale,
+      displayLanguage: '', // 分类模板不需要
+      functionName: '',    // 分类模板不需要
+      autoImport: {},      // 分类模板不需要
+      fileContent: '',     // 分类模板不需要
+      fileType: file.fileType,
+      filePath: file.relativePath,
+      candidates: JSON.stringify(
+        candidates.map(({ id, text, line, context }) => ({ id, text, line, context })),
+        null,
+        2
+      ),
+    };
+
+    return await this.compileTemplate('extraction-classify', variables);
+  }
+
   /**
    * 添加自定义模板
    */
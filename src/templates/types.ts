@@ -12,10 +12,26 @@ export interface TemplateVariables {
   autoImport: object;
   /** 文件内容 */
   fileContent: string;
+  /** 占位符语法（仅提取模板） */
+  placeholderSyntax?: string;
+  /** 插值调用参数示例（仅提取模板） */
+  interpolationParams?: string;
+  /** 插值文本示例（仅提取模板） */
+  interpolationText?: string;
+  /** 调用形式说明（仅 Vue 提取模板） */
+  callForms?: string;
+  /** 富文本规则说明（仅 React 提取模板） */
+  richTextRules?: string;
   /** 文件类型（仅通用模板） */
   fileType?: string;
   /** 待翻译文本（仅翻译模板） */
   textsToTranslate?: string;
+  /** 复数规则说明（仅翻译模板） */
+  pluralRules?: string;
+  /** 文件路径（仅分类模板） */
+  filePath?: string;
+  /** 候选文本（仅分类模板） */
+  candidates?: string;
 }
 
 /**
@@ -0,0 +1,291 @@
+import { parse } from '@babel/parser';
+import type { File, Node, Function as FunctionNode, Class } from '@babel/types';
+import { SyntaxValidator } from './syntax-validator.js';
+
+/**
+ * 中日韩统一表意文字匹配
+ */
+export const CJK_REGEX = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+
+/**
+ * 遍历时跳过的非子节点属性
+ */
+const SKIPPED_KEYS = new Set([
+  'loc',
+  'start',
+  'end',
+  'extra',
+  'range',
+  'leadingComments',
+  'trailingComments',
+  'innerComments',
+  'comments',
+  'tokens',
+]);
+
+/**
+ * AST 访问函数，返回 false 时不再遍历该节点的子节点
+ */
+export type AstVisitor = (node: Node, ancestors: readonly Node[]) => boolean | void;
+
+/**
+ * Vue 单文件组件中的代码块
+ */
+export interface VueBlock {
+  /** 块内容 */
+  content: string;
+  /** 内容在整个文件中的起始偏移 */
+  offset: number;
+  /** 用于解析的文件扩展名 */
+  fileExtension: string;
+  /** 是否为 <script setup> 块 */
+  setup?: boolean;
+}
+
+/**
+ * 判断文本是否包含中文
+ */
+export function containsCJK(text: string): boolean {
+  return CJK_REGEX.test(text);
+}
+
+/**
+ * 解析源代码为 AST
+ */
+export function parseSource(code: string, fileExtension: string): File {
+  return parse(code, SyntaxValidator.getParserOptions(fileExtension));
+}
+
+/**
+ * 深度优先遍历 AST
+ */
+export function walkAst(node: Node, visitor: AstVisitor, ancestors: Node[] = []): void {
+  if (visitor(node, ancestors) === false) {
+    return;
+  }
+
+  ancestors.push(node);
+
+  for (const key of Object.keys(node)) {
+    if (SKIPPED_KEYS.has(key)) continue;
+
+    const value = (node as unknown as Record<string, unknown>)[key];
+    if (Array.isArray(value)) {
+      for (const child of value) {
+        if (isNode(child)) {
+          walkAst(child, visitor, ancestors);
+        }
+      }
+    } else if (isNode(value)) {
+      walkAst(value, visitor, ancestors);
+    }
+  }
+
+  ancestors.pop();
+}
+
+/**
+ * 判断函数名是否为 React 函数组件（大写开头）或自定义 hook（use 开头）
+ */
+export function isComponentOrHookName(name: string): boolean {
+  return /^[A-Z]/.test(name) || /^use[A-Z0-9]/.test(name);
+}
+
+/**
+ * 获取函数的名称：函数声明名，或赋值的变量名（包括 memo、forwardRef 等包裹）
+ */
+function getFunctionName(fn: FunctionNode, parent: Node | undefined, grandparent: Node | undefined): string | null {
+  if ((fn.type === 'FunctionDeclaration' || fn.type === 'FunctionExpression') && fn.id) {
+    return fn.id.name;
+  }
+
+  const declarator = parent?.type === 'CallExpression' ? grandparent : parent;
+  if (declarator?.type === 'VariableDeclarator' && declarator.id.type === 'Identifier') {
+    return declarator.id.name;
+  }
+
+  return null;
+}
+
+/**
+ * 查找节点所在的函数组件或自定义 hook，跳过其中嵌套的回调函数
+ * 默认导出的匿名函数视为组件，遇到类方法时停止查找
+ */
+export function findEnclosingComponent(ancestors: readonly Node[]): FunctionNode | null {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const node = ancestors[i];
+
+    if (node.type === 'ClassMethod' || node.type === 'ClassPrivateMethod' || node.type === 'ObjectMethod') {
+      return null;
+    }
+    if (
+      node.type !== 'FunctionDeclaration' &&
+      node.type !== 'FunctionExpression' &&
+      node.type !== 'ArrowFunctionExpression'
+    ) {
+      continue;
+    }
+
+    const parent = ancestors[i - 1];
+    const name = getFunctionName(node, parent, ancestors[i - 2]);
+    if (name ? isComponentOrHookName(name) : parent?.type === 'ExportDefaultDeclaration') {
+      return node;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 查找节点所在的 Vue 选项式 API 组件的 setup 函数，setup 中嵌套的函数可以使用其中声明的变量
+ */
+export function findEnclosingVueSetup(ancestors: readonly Node[]): FunctionNode | null {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const node = ancestors[i];
+    const parent = ancestors[i - 1];
+
+    if (node.type === 'ObjectMethod' && isSetupKey(node.key)) {
+      return node;
+    }
+    if (
+      (node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression') &&
+      parent?.type === 'ObjectProperty' &&
+      isSetupKey(parent.key)
+    ) {
+      return node;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 判断对象属性名是否为 setup
+ */
+function isSetupKey(key: Node): boolean {
+  return key.type === 'Identifier' && key.name === 'setup';
+}
+
+/**
+ * 查找 this 指向实例的类：节点位于类的实例方法、构造函数或实例属性初始化中，其间只有箭头函数
+ */
+export function findEnclosingClass(ancestors: readonly Node[]): Class | null {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const node = ancestors[i];
+
+    switch (node.type) {
+      case 'ClassMethod':
+      case 'ClassPrivateMethod':
+      case 'ClassProperty':
+      case 'ClassPrivateProperty': {
+        const classNode = ancestors[i - 2];
+        const isClass = classNode?.type === 'ClassDeclaration' || classNode?.type === 'ClassExpression';
+        return isClass && !node.static ? classNode : null;
+      }
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ObjectMethod':
+      case 'StaticBlock':
+        return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 判断类是否声明了指定的实例成员：类属性、方法，或构造函数的参数属性，如 constructor(private translate: TranslateService)
+ */
+export function declaresClassMember(classNode: Class, name: string): boolean {
+  return classNode.body.body.some(member => {
+    if (member.type === 'ClassMethod' && member.kind === 'constructor') {
+      return member.params.some(param => {
+        if (param.type !== 'TSParameterProperty') {
+          return false;
+        }
+        const target = param.parameter.type === 'AssignmentPattern' ? param.parameter.left : param.parameter;
+        return target.type === 'Identifier' && target.name === name;
+      });
+    }
+
+    return (member.type === 'ClassProperty' || member.type === 'ClassMethod')
+      && member.key.type === 'Identifier'
+      && member.key.name === name;
+  });
+}
+
+/**
+ * 获取节点对应的源代码
+ */
+export function getNodeSource(code: string, node: Node): string {
+  return code.slice(node.start ?? 0, node.end ?? 0);
+}
+
+/**
+ * 根据偏移计算行列号（行从1开始，列从0开始）
+ */
+export function getLineColumn(code: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+
+  for (let i = 0; i < offset && i < code.length; i++) {
+    if (code[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+
+  return { line, column: offset - lineStart };
+}
+
+/**
+ * 拆分 Vue 单文件组件的 script 块
+ */
+export function getVueScriptBlocks(code: string): VueBlock[] {
+  const blocks: VueBlock[] = [];
+  const scriptRegex = /<script\b([^>]*)>([\s\S]*?)<\/script>/g;
+
+  for (const match of code.matchAll(scriptRegex)) {
+    const attrs = match[1];
+    const lang = attrs.match(/\blang\s*=\s*["']([^"']+)["']/)?.[1] || 'js';
+    const openTagLength = match[0].indexOf('>') + 1;
+
+    blocks.push({
+      content: match[2],
+      offset: (match.index ?? 0) + openTagLength,
+      fileExtension: `.${lang}`,
+      setup: /(^|\s)setup(\s|=|$)/.test(attrs),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * 获取 Vue 单文件组件的 template 块
+ */
+export function getVueTemplateBlock(code: string): VueBlock | null {
+  const openMatch = code.match(/<template\b[^>]*>/);
+  if (!openMatch || openMatch.index === undefined) {
+    return null;
+  }
+
+  const contentStart = openMatch.index + openMatch[0].length;
+  const contentEnd = code.lastIndexOf('</template>');
+  if (contentEnd < contentStart) {
+    return null;
+  }
+
+  return {
+    content: code.slice(contentStart, contentEnd),
+    offset: contentStart,
+    fileExtension: '.vue',
+  };
+}
+
+/**
+ * 判断值是否为 AST 节点
+ */
+function isNode(value: unknown): value is Node {
+  return typeof value === 'object' && value !== null && typeof (value as Node).type === 'string';
+}
@@ -1,5 +1,9 @@
-import type { AutoImportConfig } from '../config/types.js';
+import path from 'path';
+import type { AutoImportConfig, ImportStatement } from '../config/types.js';
 import type { AutoImportResult } from '../processor/types.js';
+import { globToRegExp } from './namespace.js';
+import { HookInjector, parseHookStatement } from './hook-injector.js';
+import { getVueScriptBlocks } from './ast-utils.js';
 
 /**
  * 自动导入管理器
@@ -12,34 +16,61 @@ export class AutoImportManager {
   }
 
   /**
-   * 处理自动导入
+   * 处理自动导入，Vue 文件插入到 <script setup> 或 <script> 块中
+   * 配置了 hookStatement 时，<script setup> 在导入语句后插入 hook；其他脚本的 hook 由 injectHooks 注入，
+   * 未注入 hook 时（如只在组件外使用了实例翻译函数）不添加导入
    */
   processAutoImport(fileContent: string, filePath: string): AutoImportResult {
     if (!this.config.enabled) {
       return { added: false };
     }
 
-    // 检查是否已存在导入
-    if (this.hasExistingImport(fileContent)) {
+    // 获取导入配置
+    const importConfig = this.getImportConfig(filePath);
+    if (!importConfig) {
       return { added: false };
     }
 
-    // 获取导入语句
-    const importStatement = this.getImportStatement(filePath);
-    if (!importStatement) {
+    // 确定插入范围
+    const lines = fileContent.split('\n');
+    const scope = filePath.endsWith('.vue')
+      ? this.findVueScriptScope(lines)
+      : { start: 0, end: lines.length, setup: false };
+    if (!scope) {
+      return { added: false };
+    }
+
+    const scopeLines = lines.slice(scope.start, scope.end);
+    const scopeContent = scopeLines.join('\n');
+
+    // hook 声明的函数在脚本中未被调用时无需导入
+    if (importConfig.hookStatement && !this.usesHookNames(scopeContent, importConfig.hookStatement)) {
       return { added: false };
     }
 
-    // 确定插入位置
-    const insertPosition = this.findInsertPosition(fileContent);
+    if (importConfig.hookStatement && !scope.setup && !scopeContent.includes(importConfig.hookStatement.trim())) {
+      return { added: false };
+    }
+
+    const importStatement = this.getMissingImports(scopeContent, importConfig.importStatement);
+    const hookStatement = scope.setup && importConfig.hookStatement && !scopeContent.includes(importConfig.hookStatement.trim())
+      ? importConfig.hookStatement
+      : undefined;
+    if (!importStatement && !hookStatement) {
+      return { added: false };
+    }
+
+    // 确定插入位置，插入 hook 时导入语句与 hook 都放在已有导入之后
+    const hookPosition = this.findAfterImportsPosition(scopeLines);
+    const insertPosition = hookStatement ? hookPosition : this.findInsertPosition(scopeContent);
     if (insertPosition === -1) {
       return { added: false };
     }
 
     return {
       added: true,
-      importStatement,
-      insertPosition,
+      ...(importStatement ? { importStatement, insertPosition: scope.start + insertPosition } : {}),
+      ...(hookStatement ? { hookStatement, hookPosition: scope.start + hookPosition } : {}),
     };
   }
 
@@ -53,27 +84,129 @@ export class AutoImportManager {
   }
 
   /**
-   * 检查是否已存在导入
+   * 在使用翻译函数的函数组件、自定义 hook 或类中注入 hook 语句
+   * Vue 文件注入到选项式 API 组件的 setup() 中，<script setup> 的 hook 由 processAutoImport 插入
    */
-  private hasExistingImport(fileContent: string): boolean {
-    // 检查常见的i18n导入模式
-    const importPatterns = [
-      /import.*from\s+['"]react-i18next['"]/,
-      /import.*from\s+['"]vue-i18n['"]/,
-      /import.*from\s+['"]@\/i18n['"]/,
-      /import.*from\s+['"]@\/utils\/i18n['"]/,
-      /import.*\$t.*from/,
-      /const.*\$t.*=.*useTranslation/,
-      /const.*t.*=.*useTranslation/,
-    ];
+  injectHooks(fileContent: string, filePath: string): string {
+    const hookStatement = this.getHookStatement(filePath);
+    if (!hookStatement) {
+      return fileContent;
+    }
+
+    const injector = new HookInjector(hookStatement);
+    if (!filePath.endsWith('.vue')) {
+      return injector.inject(fileContent, path.extname(filePath));
+    }
+
+    // 从后往前替换脚本块，避免偏移变化
+    let result = fileContent;
+    for (const block of getVueScriptBlocks(fileContent).filter(item => !item.setup).reverse()) {
+      const content = injector.inject(block.content, block.fileExtension, 'vueSetup');
+      result = result.slice(0, block.offset) + content + result.slice(block.offset + block.content.length);
+    }
 
-    return importPatterns.some(pattern => pattern.test(fileContent));
+    return result;
   }
 
   /**
-   * 获取导入语句
+   * 获取文件匹配的 hook 语句，未启用自动导入时返回 undefined
    */
-  private getImportStatement(filePath: string): string | null {
+  getHookStatement(filePath: string): string | undefined {
+    return this.config.enabled ? this.getImportConfig(filePath)?.hookStatement : undefined;
+  }
+
+  /**
+   * 代码包含 usage 但缺少导入时，在已有导入之后插入导入语句，Vue 文件插入到包含 usage 的脚本块
+   */
+  ensureImport(fileContent: string, filePath: string, importStatement: string, usage: string): string {
+    const lines = fileContent.split('\n');
+    const scope = filePath.endsWith('.vue')
+      ? this.findVueScriptBlocks(lines).find(block => lines.slice(block.start, block.end).join('\n').includes(usage))
+      : { start: 0, end: lines.length };
+    if (!scope) {
+      return fileContent;
+    }
+
+    const scopeLines = lines.slice(scope.start, scope.end);
+    const scopeContent = scopeLines.join('\n');
+    if (!scopeContent.includes(usage) || this.hasExistingImport(scopeContent, importStatement)) {
+      return fileContent;
+    }
+
+    return this.insertImportStatement(fileContent, importStatement, scope.start + this.findAfterImportsPosition(scopeLines));
+  }
+
+  /**
+   * 检查导入语句中的名称是否都已从同一模块导入，非 import 语句按原文查找
+   */
+  private hasExistingImport(fileContent: string, importStatement: string): boolean {
+    const statements = importStatement.split('\n').map(line => line.trim()).filter(Boolean);
+
+    return statements.every(statement => {
+      const match = statement.match(/^import\s+(.+?)\s+from\s+(['"])([^'"]+)\2/);
+      if (!match) {
+        return fileContent.includes(statement);
+      }
+
+      const [, clause, , source] = match;
+      const existingClauses = Array.from(
+        fileContent.matchAll(/import\s+([^;]+?)\s+from\s+(['"])([^'"]+)\2/g),
+        existing => (existing[3] === source ? existing[1] : '')
+      ).join(',');
+
+      return this.getImportedNames(clause).every(name =>
+        new RegExp(`(^|[^\\w$])${name.replace(/\$/g, '\\$')}([^\\w$]|$)`).test(existingClauses)
+      );
+    });
+  }
+
+  /**
+   * 获取导入语句中尚未导入的部分，全部已导入时返回 undefined
+   */
+  private getMissingImports(fileContent: string, importStatement: string): string | undefined {
+    const missing = importStatement
+      .split('\n')
+      .filter(statement => statement.trim() && !this.hasExistingImport(fileContent, statement));
+
+    return missing.length > 0 ? missing.join('\n') : undefined;
+  }
+
+  /**
+   * 检查代码是否使用了 hook 语句声明的名称，如 const { t } = useI18n(); 声明的 t 被调用，
+   * 或 private translate = inject(TranslateService); 声明的 this.translate 被访问
+   */
+  private usesHookNames(fileContent: string, hookStatement: string): boolean {
+    const declaration = parseHookStatement(hookStatement);
+    if (!declaration) {
+      return true;
+    }
+
+    return declaration.names.some(name => {
+      const escaped = name.replace(/\$/g, '\\$');
+      const pattern = declaration.kind === 'classProperty'
+        ? `\\bthis\\.${escaped}(?![\\w$])`
+        : `(^|[^\\w$.])${escaped}\\s*\\(`;
+      return new RegExp(pattern).test(fileContent);
+    });
+  }
+
+  /**
+   * 获取导入子句中的本地名称，如 { a as b }, c 返回 b、c
+   */
+  private getImportedNames(clause: string): string[] {
+    return clause
+      .replace(/^type\s+/, '')
+      .replace(/[{}]/g, ',')
+      .split(',')
+      .map(part => part.trim().split(/\s+as\s+/).pop() || '')
+      .map(name => name.replace(/^\*\s*/, '').trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * 获取导入配置
+   */
+  private getImportConfig(filePath: string): ImportStatement | null {
     if (!this.config.imports) {
       return null;
     }
@@ -81,25 +214,46 @@ export class AutoImportManager {
     // 根据文件路径匹配导入配置
     for (const [pattern, importConfig] of Object.entries(this.config.imports)) {
       if (this.matchesPattern(filePath, pattern)) {
-        return importConfig.importStatement;
+        return importConfig;
       }
     }
 
     return null;
   }
 
+  /**
+   * 查找 Vue 文件的脚本块行范围（不含标签行），优先 <script setup>
+   */
+  private findVueScriptScope(lines: string[]): { start: number; end: number; setup: boolean } | null {
+    const blocks = this.findVueScriptBlocks(lines);
+    return blocks.find(block => block.setup) || blocks[0] || null;
+  }
+
+  /**
+   * 查找 Vue 文件的所有脚本块行范围（不含标签行）
+   */
+  private findVueScriptBlocks(lines: string[]): Array<{ start: number; end: number; setup: boolean }> {
+    const blocks: Array<{ start: number; end: number; setup: boolean }> = [];
+    let current: { start: number; setup: boolean } | null = null;
+
+    lines.forEach((line, index) => {
+      const open = line.match(/^\s*<script\b([^>]*)>\s*$/);
+      if (!current && open) {
+        current = { start: index + 1, setup: /(^|\s)setup(\s|=|$)/.test(open[1]) };
+      } else if (current && /^\s*<\/script>/.test(line)) {
+        blocks.push({ ...current, end: index });
+        current = null;
+      }
+    });
+
+    return blocks;
+  }
+
   /**
    * 匹配文件模式
    */
   private matchesPattern(filePath: string, pattern: string): boolean {
-    // 简单的glob模式匹配
-    const regexPattern = pattern
-      .replace(/\*\*/g, '.*')
-      .replace(/\*/g, '[^/]*')
-      .replace(/\?/g, '.');
-    
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(filePath);
+    return globToRegExp(pattern.replace(/^\.\//, '')).test(filePath.replace(/\\/g, '/'));
   }
 
   /**
@@ -1,5 +1,5 @@
 import { createHash } from 'crypto';
-import type { ExtractionResult, TranslationResult } from '../config/types.js';
+import type { ExtractionResult, TranslationResult, ClassificationResult, CacheStats } from '../config/types.js';
 import { getFileSystem, type FileSystemService } from './file-system.js';
 
 /**
@@ -73,6 +73,8 @@ export class CacheManager {
     this.cleanupTimer = setInterval(() => {
       this.cleanExpired();
     }, 10 * 60 * 1000);
+    // 不阻止进程在任务完成后退出，避免 CI 等非交互环境中挂起
+    this.cleanupTimer.unref();
   }
 
   /**
@@ -88,7 +90,7 @@ export class CacheManager {
   /**
    * 生成缓存键
    */
-  private generateCacheKey(content: string, type: 'extraction' | 'translation'): string {
+  private generateCacheKey(content: string, type: 'extraction' | 'translation' | 'classification'): string {
     const hash = createHash('sha256').update(content).digest('hex');
     return `${type}:${hash}`;
   }
@@ -244,6 +246,22 @@ export class CacheManager {
     return this.get<ExtractionResult>(key);
   }
 
+  /**
+   * 缓存分类结果
+   */
+  cacheClassificationResult(prompt: string, result: ClassificationResult, ttl?: number): void {
+    const key = this.generateCacheKey(prompt, 'classification');
+    this.set(key, result, ttl);
+  }
+
+  /**
+   * 获取分类结果缓存
+   */
+  getClassificationResult(prompt: string): ClassificationResult | null {
+    const key = this.generateCacheKey(prompt, 'classification');
+    return this.get<ClassificationResult>(key);
+  }
+
   /**
    * 缓存翻译结果
    */
@@ -260,6 +278,14 @@ export class CacheManager {
     return this.get<TranslationResult>(key);
   }
 
+  /**
+   * 移除翻译结果缓存
+   */
+  deleteTranslationResult(prompt: string): boolean {
+    const key = this.generateCacheKey(prompt, 'translation');
+    return this.delete(key);
+  }
+
   /**
    * 从磁盘加载缓存
    */
@@ -304,15 +330,7 @@ export class CacheManager {
   /**
    * 获取缓存统计信息
    */
-  getStats(): {
-    totalEntries: number;
-    memoryUsage: number;
-    hitRate: number;
-    oldestEntry: number | null;
-    newestEntry: number | null;
-    hits: number;
-    misses: number;
-  } {
+  getStats(): CacheStats {
     const entries = Array.from(this.memoryCache.values());
     
     let totalSize = 0;
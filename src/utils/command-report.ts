@@ -0,0 +1,113 @@
+import { getLogger } from './logger.js';
+import { getFileSystem, type FileSystemService } from './file-system.js';
+
+/**
+ * 命令报告输出选项
+ */
+export interface CommandReportOptions {
+  /** 向标准输出打印 JSON 结果，日志转为结构化 JSON 写入标准错误 */
+  json?: boolean;
+  /** 将 JSON 结果写入指定文件 */
+  report?: string;
+}
+
+/**
+ * 机器可读的命令执行报告
+ */
+export interface CommandReport<T = unknown> {
+  /** 命令名称 */
+  command: string;
+  /** 是否成功，部分失败时为 false */
+  success: boolean;
+  /** 进程退出码: 0 成功，1 失败，2 部分失败 */
+  exitCode: number;
+  /** 开始时间（ISO 格式） */
+  startedAt: string;
+  /** 总耗时（毫秒） */
+  duration: number;
+  /** 命令结果 */
+  result?: T;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 命令报告输出器 - 为 --json 和 --report 生成统一结构的 JSON 报告
+ */
+export class CommandReporter {
+  private fs: FileSystemService;
+  private startTime = Date.now();
+  private restoreConsole: (() => void) | null = null;
+  private finished = false;
+
+  constructor(
+    private command: string,
+    private options: CommandReportOptions = {},
+    fileSystem?: FileSystemService
+  ) {
+    this.fs = fileSystem || getFileSystem();
+  }
+
+  /**
+   * 是否以 JSON 格式输出
+   */
+  get json(): boolean {
+    return Boolean(this.options.json);
+  }
+
+  /**
+   * 开始记录，JSON 模式下将日志转为结构化输出，保证标准输出只包含最终结果
+   */
+  begin(): void {
+    this.startTime = Date.now();
+    if (this.json) {
+      const logger = getLogger();
+      logger.setStructured(true);
+      this.restoreConsole = logger.captureConsole();
+    }
+  }
+
+  /**
+   * 结束记录并输出报告，已输出过报告时不再重复输出并返回 null
+   * 传入 error 时为失败路径，报告写入失败只输出到标准错误，不再抛出，保证调用方能以失败退出码结束
+   */
+  async finish<T>(exitCode: number, result?: T, error?: unknown): Promise<CommandReport<T> | null> {
+    if (this.finished) {
+      return null;
+    }
+    if (this.restoreConsole) {
+      this.restoreConsole();
+      this.restoreConsole = null;
+    }
+
+    const report: CommandReport<T> = {
+      command: this.command,
+      success: exitCode === 0,
+      exitCode,
+      startedAt: new Date(this.startTime).toISOString(),
+      duration: Date.now() - this.startTime,
+      ...(result !== undefined ? { result } : {}),
+      ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+    };
+    const content = JSON.stringify(report, null, 2);
+
+    if (this.options.report) {
+      try {
+        await this.fs.ensureDir(this.fs.dirname(this.options.report));
+        await this.fs.writeFile(this.options.report, content + '\n', 'utf-8');
+      } catch (writeError) {
+        const message = `写入报告失败: ${writeError instanceof Error ? writeError.message : String(writeError)}`;
+        if (error === undefined) {
+          throw new Error(message);
+        }
+        console.error(message);
+      }
+    }
+    if (this.json) {
+      process.stdout.write(content + '\n');
+    }
+
+    this.finished = true;
+    return report;
+  }
+}
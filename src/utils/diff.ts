@@ -0,0 +1,181 @@
+/**
+ * 行级差异操作
+ */
+export interface DiffLine {
+  /** 操作类型 */
+  type: 'equal' | 'insert' | 'delete';
+  /** 行内容 */
+  line: string;
+}
+
+/**
+ * 计算两段文本的行级差异（Myers 算法）
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // 先剥离公共前缀和后缀，缩小比较范围
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middle = myersDiff(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix)
+  );
+
+  return [
+    ...a.slice(0, prefix).map(line => ({ type: 'equal' as const, line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(line => ({ type: 'equal' as const, line })),
+  ];
+}
+
+/**
+ * 生成统一格式（unified）的差异文本，无差异时返回空字符串
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  fileName: string,
+  context: number = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const lines = diffLines(oldText, newText);
+  const output: string[] = [`--- a/${fileName}`, `+++ b/${fileName}`];
+
+  // 为每一行记录在新旧文件中的行号
+  let oldLine = 1;
+  let newLine = 1;
+  const numbered = lines.map(diffLine => {
+    const entry = { ...diffLine, oldLine, newLine };
+    if (diffLine.type !== 'insert') oldLine++;
+    if (diffLine.type !== 'delete') newLine++;
+    return entry;
+  });
+
+  let index = 0;
+  while (index < numbered.length) {
+    // 找到下一处变更
+    while (index < numbered.length && numbered[index].type === 'equal') {
+      index++;
+    }
+    if (index >= numbered.length) break;
+
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+
+    // 向后扩展，直到连续相同行超过两倍上下文
+    let equalRun = 0;
+    while (hunkEnd < numbered.length) {
+      if (numbered[hunkEnd].type === 'equal') {
+        if (equalRun === context * 2) break;
+        equalRun++;
+      } else {
+        equalRun = 0;
+      }
+      hunkEnd++;
+    }
+    hunkEnd -= Math.max(0, equalRun - context);
+
+    const hunk = numbered.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter(l => l.type !== 'insert').length;
+    const newCount = hunk.filter(l => l.type !== 'delete').length;
+    // 计数为0时按惯例使用前一行的行号
+    const oldStart = oldCount > 0 ? hunk[0].oldLine : hunk[0].oldLine - 1;
+    const newStart = newCount > 0 ? hunk[0].newLine : hunk[0].newLine - 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const l of hunk) {
+      const marker = l.type === 'insert' ? '+' : l.type === 'delete' ? '-' : ' ';
+      output.push(`${marker}${l.line}`);
+    }
+
+    index = hunkEnd;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Myers 最短编辑路径
+ */
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+
+  if (max === 0) return [];
+
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+        ? v[k + 1 + offset]
+        : v[k - 1 + offset] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[k + offset] = x;
+
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  // 回溯编辑路径
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const frame = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && frame[k - 1 + offset] < frame[k + 1 + offset]) ? k + 1 : k - 1;
+    const prevX = frame[prevK + offset];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: 'insert', line: b[y - 1] });
+      } else {
+        result.push({ type: 'delete', line: a[x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
@@ -0,0 +1,130 @@
+import path from 'path';
+import { GitService } from './git.js';
+import { RunBackup } from './run-backup.js';
+import { DEFAULT_CACHE_DIR } from '../config/defaults.js';
+
+/**
+ * 改写源文件前的 Git 安全选项
+ */
+export interface GitSafetyOptions {
+  /** 要求整个工作区没有未提交的修改 */
+  requireClean?: boolean;
+  /** 将待处理文件的未提交修改存入 stash */
+  stash?: boolean;
+  /** 待处理文件有未提交的修改时仍然处理 */
+  allowDirty?: boolean;
+  /** 处理前创建的分支 */
+  branch?: string | boolean;
+  /** 处理完成后提交修改的文件 */
+  commit?: boolean;
+}
+
+/**
+ * Git 安全检查结果
+ */
+export interface GitSafetyCheck {
+  /** 是否位于 Git 仓库中 */
+  isRepository: boolean;
+  /** 待处理文件中有未提交修改的文件（绝对路径） */
+  dirtyFiles: string[];
+}
+
+/**
+ * 提交信息中最多列出的key数量
+ */
+const MAX_COMMIT_KEYS = 50;
+
+/**
+ * Git 安全守卫 - 原地改写源文件前检查未提交的修改，并可暂存修改、创建分支和提交结果
+ */
+export class GitSafetyGuard {
+  constructor(private git: GitService = new GitService()) {}
+
+  /**
+   * 检查待处理文件是否有未提交的修改，不满足安全要求时抛出错误
+   */
+  async check(targetPaths: string[], options: GitSafetyOptions): Promise<GitSafetyCheck> {
+    if (!await this.git.isRepository()) {
+      if (options.stash || options.branch || options.commit || options.requireClean) {
+        throw new Error('当前目录不是 Git 仓库，无法使用 --require-clean、--stash、--branch 或 --commit');
+      }
+      return { isRepository: false, dirtyFiles: [] };
+    }
+
+    const dirtyPaths = await this.git.getDirtyFiles();
+    if (options.requireClean && dirtyPaths.length > 0) {
+      throw new Error(`工作区有 ${dirtyPaths.length} 个文件存在未提交的修改，--require-clean 要求工作区干净:\n${this.formatFiles(dirtyPaths)}`);
+    }
+
+    const targets = new Set(targetPaths.map(filePath => path.resolve(filePath)));
+    const dirtyFiles = dirtyPaths.filter(filePath => targets.has(filePath));
+
+    if (dirtyFiles.length > 0 && !options.stash && !options.allowDirty) {
+      throw new Error(
+        `以下待处理文件存在未提交的修改，原地改写可能覆盖这些工作:\n${this.formatFiles(dirtyFiles)}\n` +
+        '请先提交修改，或使用 --stash 暂存、--allow-dirty 忽略'
+      );
+    }
+
+    return { isRepository: true, dirtyFiles };
+  }
+
+  /**
+   * 将文件的未提交修改存入 stash，返回 stash 说明
+   */
+  async stash(files: string[]): Promise<string> {
+    const message = `ai-i18n: extract 前暂存的修改 (${new Date().toLocaleString()})`;
+    await this.git.stash(files, message);
+    return message;
+  }
+
+  /**
+   * 创建并切换到新分支，未指定名称时按当前时间生成，返回分支名
+   */
+  async createBranch(name?: string): Promise<string> {
+    const branch = name || `ai-i18n/extract-${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '')}`;
+    await this.git.createBranch(branch);
+    return branch;
+  }
+
+  /**
+   * 提交本次运行修改过的文件，提交信息中列出提取的key，运行没有修改文件时返回 null
+   */
+  async commit(runId: string | undefined, extractedTexts: Record<string, string>): Promise<string | null> {
+    const run = runId ? await new RunBackup(DEFAULT_CACHE_DIR).load(runId) : null;
+    if (!run || run.files.length === 0) {
+      return null;
+    }
+
+    const message = this.buildCommitMessage(extractedTexts);
+    await this.git.commit(run.files.map(entry => entry.path), message);
+    return message.split('\n')[0];
+  }
+
+  /**
+   * 生成提交信息
+   */
+  private buildCommitMessage(extractedTexts: Record<string, string>): string {
+    const entries = Object.entries(extractedTexts);
+    const lines = [`chore(i18n): 提取 ${entries.length} 条中文文本`];
+
+    if (entries.length > 0) {
+      lines.push('');
+      entries.slice(0, MAX_COMMIT_KEYS).forEach(([key, text]) => {
+        lines.push(`- ${key}: ${text.replace(/\s+/g, ' ')}`);
+      });
+      if (entries.length > MAX_COMMIT_KEYS) {
+        lines.push(`- ... 等 ${entries.length} 条`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 格式化文件列表，使用相对当前目录的路径
+   */
+  private formatFiles(files: string[]): string {
+    return files.map(filePath => `  ${path.relative(process.cwd(), filePath)}`).join('\n');
+  }
+}
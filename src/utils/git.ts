@@ -0,0 +1,116 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Git 操作服务
+ */
+export class GitService {
+  constructor(private cwd: string = process.cwd()) {}
+
+  /**
+   * 执行 git 命令并返回标准输出
+   */
+  async run(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd: this.cwd,
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return stdout;
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args.join(' ')} 执行失败: ${stderr || (error instanceof Error ? error.message : String(error))}`);
+    }
+  }
+
+  /**
+   * 判断当前目录是否位于 Git 仓库中
+   */
+  async isRepository(): Promise<boolean> {
+    try {
+      await this.run(['rev-parse', '--is-inside-work-tree']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取仓库根目录
+   */
+  async getRoot(): Promise<string> {
+    return (await this.run(['rev-parse', '--show-toplevel'])).trim();
+  }
+
+  /**
+   * 获取相对指定引用有变更的文件（绝对路径），包含未提交和未跟踪的文件
+   */
+  async getChangedFiles(ref: string): Promise<string[]> {
+    const root = await this.getRoot();
+    const mergeBase = (await this.run(['merge-base', ref, 'HEAD'])).trim();
+
+    const changed = await this.run(['diff', '--name-only', '--diff-filter=d', mergeBase]);
+    const untracked = await this.run(['ls-files', '--others', '--exclude-standard', '--full-name']);
+
+    const files = new Set(
+      [...this.splitLines(changed), ...this.splitLines(untracked)]
+        .map(file => path.resolve(root, file))
+    );
+
+    return Array.from(files);
+  }
+
+  /**
+   * 获取有未提交修改的文件（绝对路径），包含已暂存、未暂存和未跟踪的文件
+   */
+  async getDirtyFiles(): Promise<string[]> {
+    const root = await this.getRoot();
+    const output = await this.run(['status', '--porcelain=v1', '-z', '--untracked-files=all']);
+    const fields = output.split('\0').filter(Boolean);
+    const files: string[] = [];
+
+    for (let i = 0; i < fields.length; i++) {
+      const status = fields[i].slice(0, 2);
+      files.push(path.resolve(root, fields[i].slice(3)));
+
+      // 重命名和复制的条目后紧跟原路径
+      if (status.includes('R') || status.includes('C')) {
+        i++;
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * 将指定文件的未提交修改（含未跟踪文件）存入 stash
+   */
+  async stash(files: string[], message: string): Promise<void> {
+    await this.run(['stash', 'push', '--include-untracked', '-m', message, '--', ...files]);
+  }
+
+  /**
+   * 基于当前提交创建并切换到新分支，工作区中的修改会保留
+   */
+  async createBranch(name: string): Promise<void> {
+    await this.run(['checkout', '-b', name]);
+  }
+
+  /**
+   * 仅提交指定文件，不影响暂存区中的其他修改
+   */
+  async commit(files: string[], message: string): Promise<void> {
+    await this.run(['add', '-A', '--', ...files]);
+    await this.run(['commit', '-m', message, '--only', '--', ...files]);
+  }
+
+  /**
+   * 拆分命令输出的行
+   */
+  private splitLines(output: string): string[] {
+    return output.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+}
@@ -0,0 +1,243 @@
+import type { Node, Function as FunctionNode, Class, LVal } from '@babel/types';
+import {
+  parseSource,
+  walkAst,
+  findEnclosingComponent,
+  findEnclosingVueSetup,
+  findEnclosingClass,
+  declaresClassMember,
+} from './ast-utils.js';
+
+/**
+ * hook 语句的声明：variable 为函数体内的变量声明，如 const { t } = useTranslation();
+ * classProperty 为类属性，如 private translate = inject(TranslateService);
+ */
+export interface HookDeclaration {
+  kind: 'variable' | 'classProperty';
+  /** 声明的变量名或属性名 */
+  names: string[];
+}
+
+/**
+ * 注入位置: component 为函数组件和自定义 hook，vueSetup 为 Vue 选项式 API 组件的 setup()
+ */
+export type HookScope = 'component' | 'vueSetup';
+
+/**
+ * 注入 hook 的目标：函数或类
+ */
+type HookTarget = FunctionNode | Class;
+
+/**
+ * 组件函数的源码修改
+ */
+interface HookEdit {
+  start: number;
+  end: number;
+  render: (source: string) => string;
+}
+
+/**
+ * 收集解构模式中声明的变量名
+ */
+function collectBindingNames(pattern: LVal | Node, names: string[] = []): string[] {
+  switch (pattern.type) {
+    case 'Identifier':
+      names.push(pattern.name);
+      break;
+    case 'ObjectPattern':
+      for (const property of pattern.properties) {
+        collectBindingNames(property.type === 'RestElement' ? property.argument : property.value, names);
+      }
+      break;
+    case 'ArrayPattern':
+      pattern.elements.forEach(element => element && collectBindingNames(element, names));
+      break;
+    case 'RestElement':
+      collectBindingNames(pattern.argument, names);
+      break;
+    case 'AssignmentPattern':
+      collectBindingNames(pattern.left, names);
+      break;
+  }
+
+  return names;
+}
+
+/**
+ * 获取行首缩进
+ */
+function getIndent(code: string, offset: number): string {
+  const lineStart = code.lastIndexOf('\n', offset - 1) + 1;
+  return code.slice(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+}
+
+/**
+ * 判断注入目标是否为类
+ */
+function isClass(target: HookTarget): target is Class {
+  return target.type === 'ClassDeclaration' || target.type === 'ClassExpression';
+}
+
+/**
+ * 解析 hook 语句声明的名称，无法识别时返回 null
+ */
+export function parseHookStatement(hookStatement: string): HookDeclaration | null {
+  try {
+    const statement = parseSource(hookStatement, '.ts').program.body[0];
+    if (statement?.type === 'VariableDeclaration') {
+      return {
+        kind: 'variable',
+        names: statement.declarations.flatMap(declaration => collectBindingNames(declaration.id)),
+      };
+    }
+  } catch {
+    // 类属性无法作为语句解析，继续按类成员解析
+  }
+
+  try {
+    const statement = parseSource(`class Hook {\n${hookStatement}\n}`, '.ts').program.body[0];
+    const member = statement?.type === 'ClassDeclaration' ? statement.body.body[0] : undefined;
+    if (member?.type === 'ClassProperty' && member.key.type === 'Identifier') {
+      return { kind: 'classProperty', names: [member.key.name] };
+    }
+  } catch {
+    // 无法识别的 hook 语句
+  }
+
+  return null;
+}
+
+/**
+ * hook 注入器 - 在使用翻译函数的函数组件和自定义 hook 顶部注入 hook 语句，如 const { t } = useTranslation();
+ * hook 语句为类属性时，注入到使用了该属性的带装饰器的类（如 Angular 的 @Component）中
+ */
+export class HookInjector {
+  private declaration: HookDeclaration | null;
+
+  constructor(private hookStatement: string) {
+    this.declaration = parseHookStatement(hookStatement);
+  }
+
+  /**
+   * 每个组件只注入一次，组件内已声明同名变量或类成员时跳过
+   */
+  inject(code: string, fileExtension: string, scope: HookScope = 'component'): string {
+    const declaration = this.declaration;
+    if (!declaration) {
+      return code;
+    }
+
+    let ast;
+    try {
+      ast = parseSource(code, fileExtension);
+    } catch {
+      // 无法解析时保持原样，由后续语法验证报告
+      return code;
+    }
+
+    const targets = new Set<HookTarget>();
+    walkAst(ast.program, (node, ancestors) => {
+      const target = this.findTarget(node, ancestors, scope, declaration);
+      if (target) {
+        targets.add(target);
+      }
+    });
+
+    // 从后往前修改，内层组件的修改会使外层箭头函数的结束位置后移
+    const applied: Array<{ position: number; delta: number }> = [];
+    let result = code;
+
+    const sorted = [...targets].sort((a, b) => (b.start ?? 0) - (a.start ?? 0));
+    for (const target of sorted) {
+      const edit = this.createEdit(code, target);
+      const end = edit.end + applied
+        .filter(({ position }) => position >= edit.start && position < edit.end)
+        .reduce((sum, { delta }) => sum + delta, 0);
+
+      const replacement = edit.render(result.slice(edit.start, end));
+      result = result.slice(0, edit.start) + replacement + result.slice(end);
+      applied.push({ position: edit.start, delta: replacement.length - (end - edit.start) });
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取使用了 hook 声明名称的节点所在的注入目标，已声明时返回 null
+   */
+  private findTarget(
+    node: Node,
+    ancestors: readonly Node[],
+    scope: HookScope,
+    { kind, names }: HookDeclaration
+  ): HookTarget | null {
+    if (kind === 'classProperty') {
+      if (
+        node.type !== 'MemberExpression' ||
+        node.object.type !== 'ThisExpression' ||
+        node.property.type !== 'Identifier' ||
+        !names.includes(node.property.name)
+      ) {
+        return null;
+      }
+
+      // 只有带装饰器的类由框架创建，可以通过属性注入依赖
+      const classNode = findEnclosingClass(ancestors);
+      return classNode?.decorators?.length && !names.some(name => declaresClassMember(classNode, name))
+        ? classNode
+        : null;
+    }
+
+    if (node.type !== 'CallExpression' || node.callee.type !== 'Identifier' || !names.includes(node.callee.name)) {
+      return null;
+    }
+
+    const component = scope === 'vueSetup' ? findEnclosingVueSetup(ancestors) : findEnclosingComponent(ancestors);
+    return component && !this.isDeclared(component, names) ? component : null;
+  }
+
+  /**
+   * 生成注入 hook 的修改：函数体或类体开头插入 hook，表达式形式的箭头函数改写为语句块
+   */
+  private createEdit(code: string, target: HookTarget): HookEdit {
+    const body = target.body;
+
+    if (isClass(target) || body.type === 'BlockStatement') {
+      // 目标内使用了 hook 声明的名称，函数体或类体至少有一个成员
+      const members = body.type === 'ClassBody' || body.type === 'BlockStatement' ? body.body : [];
+      const position = members[0]?.start ?? 0;
+      const indent = getIndent(code, position);
+      return {
+        start: position,
+        end: position,
+        render: () => `${this.hookStatement}\n${indent}`,
+      };
+    }
+
+    const start = body.extra?.parenthesized ? (body.extra.parenStart as number) : body.start ?? 0;
+    const indent = getIndent(code, target.start ?? 0);
+    return {
+      start,
+      end: target.end ?? 0,
+      render: source => `{\n${indent}  ${this.hookStatement}\n${indent}  return ${source};\n${indent}}`,
+    };
+  }
+
+  /**
+   * 组件参数或函数体顶层已声明 hook 中的变量时不再注入
+   */
+  private isDeclared(component: FunctionNode, names: string[]): boolean {
+    const declared = component.params.flatMap(param => collectBindingNames(param));
+
+    if (component.body.type === 'BlockStatement') {
+      for (const statement of component.body.body) {
+        if (statement.type === 'VariableDeclaration') {
+          statement.declarations.forEach(declaration => collectBindingNames(declaration.id, declared));
+        }
+      }
+    }
+
+    return names.some(name => declared.includes(name));
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * ICU MessageFormat 语法树节点
+ */
+export type IcuNode =
+  | { type: 'literal'; value: string }
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | { type: 'plural'; name: string; ordinal: boolean; offset: number; options: Record<string, IcuNode[]> }
+  | { type: 'select'; name: string; options: Record<string, IcuNode[]> }
+  | { type: 'pound' };
+
+/**
+ * 判断文本是否包含 plural、selectordinal 或 select 参数
+ */
+export function hasIcuArguments(text: string): boolean {
+  return /\{\s*[\w$]+\s*,\s*(plural|selectordinal|select)\s*,/.test(text);
+}
+
+/**
+ * 解析 ICU MessageFormat 消息，语法错误时抛出错误
+ */
+export function parseIcuMessage(text: string): IcuNode[] {
+  return new IcuMessageParser(text).parse();
+}
+
+/**
+ * 遍历消息中的全部节点，包括 plural 和 select 各分支中的节点
+ */
+export function walkIcuNodes(nodes: IcuNode[], visitor: (node: IcuNode) => void): void {
+  for (const node of nodes) {
+    visitor(node);
+    if (node.type === 'plural' || node.type === 'select') {
+      Object.values(node.options).forEach(option => walkIcuNodes(option, visitor));
+    }
+  }
+}
+
+/**
+ * ICU MessageFormat 解析器，支持简单参数、带格式的参数、plural、selectordinal、select 和单引号转义
+ */
+class IcuMessageParser {
+  private position = 0;
+
+  constructor(private text: string) {}
+
+  /**
+   * 解析整条消息
+   */
+  parse(): IcuNode[] {
+    const nodes = this.parseMessage(false);
+    if (this.position < this.text.length) {
+      this.fail('多余的 }');
+    }
+    return nodes;
+  }
+
+  /**
+   * 解析消息片段，遇到未转义的 } 时停止
+   */
+  private parseMessage(inPlural: boolean): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let literal = '';
+
+    const flushLiteral = () => {
+      if (literal) {
+        nodes.push({ type: 'literal', value: literal });
+        literal = '';
+      }
+    };
+
+    while (this.position < this.text.length) {
+      const char = this.text[this.position];
+
+      if (char === '}') {
+        break;
+      }
+
+      if (char === '{') {
+        flushLiteral();
+        nodes.push(this.parseArgument());
+      } else if (char === '#' && inPlural) {
+        flushLiteral();
+        nodes.push({ type: 'pound' });
+        this.position++;
+      } else if (char === '\'') {
+        literal += this.parseQuoted(inPlural);
+      } else {
+        literal += char;
+        this.position++;
+      }
+    }
+
+    flushLiteral();
+    return nodes;
+  }
+
+  /**
+   * 解析单引号转义：'' 表示单引号，'{...}' 中的内容按字面处理
+   */
+  private parseQuoted(inPlural: boolean): string {
+    const next = this.text[this.position + 1];
+
+    if (next === '\'') {
+      this.position += 2;
+      return '\'';
+    }
+
+    if (next === '{' || next === '}' || (next === '#' && inPlural)) {
+      const end = this.text.indexOf('\'', this.position + 1);
+      if (end === -1) {
+        this.fail('未闭合的单引号');
+      }
+      const quoted = this.text.slice(this.position + 1, end);
+      this.position = end + 1;
+      return quoted;
+    }
+
+    this.position++;
+    return '\'';
+  }
+
+  /**
+   * 解析 {name}、{name, type, style} 形式的参数
+   */
+  private parseArgument(): IcuNode {
+    this.position++;
+    this.skipWhitespace();
+
+    const name = this.readIdentifier();
+    if (!name) {
+      this.fail('缺少参数名');
+    }
+    this.skipWhitespace();
+
+    if (this.consume('}')) {
+      return { type: 'argument', name };
+    }
+    if (!this.consume(',')) {
+      this.fail(`参数 ${name} 后应为 , 或 }`);
+    }
+
+    this.skipWhitespace();
+    const format = this.readIdentifier();
+    if (!format) {
+      this.fail(`参数 ${name} 缺少类型`);
+    }
+    this.skipWhitespace();
+
+    if (format === 'plural' || format === 'selectordinal' || format === 'select') {
+      if (!this.consume(',')) {
+        this.fail(`${format} 参数 ${name} 缺少选项`);
+      }
+      return format === 'select'
+        ? { type: 'select', name, options: this.parseOptions(name, false) }
+        : this.parsePlural(name, format === 'selectordinal');
+    }
+
+    let style: string | undefined;
+    if (this.consume(',')) {
+      const end = this.text.indexOf('}', this.position);
+      if (end === -1) {
+        this.fail(`参数 ${name} 未闭合`);
+      }
+      style = this.text.slice(this.position, end).trim();
+      this.position = end;
+    }
+    if (!this.consume('}')) {
+      this.fail(`参数 ${name} 未闭合`);
+    }
+
+    return { type: 'argument', name, format, ...(style ? { style } : {}) };
+  }
+
+  /**
+   * 解析 plural / selectordinal 参数，支持 offset
+   */
+  private parsePlural(name: string, ordinal: boolean): IcuNode {
+    this.skipWhitespace();
+
+    let offset = 0;
+    const offsetMatch = this.text.slice(this.position).match(/^offset\s*:\s*(\d+)/);
+    if (offsetMatch) {
+      offset = Number(offsetMatch[1]);
+      this.position += offsetMatch[0].length;
+    }
+
+    return { type: 'plural', name, ordinal, offset, options: this.parseOptions(name, true) };
+  }
+
+  /**
+   * 解析选项列表，必须包含 other
+   */
+  private parseOptions(name: string, isPlural: boolean): Record<string, IcuNode[]> {
+    const options: Record<string, IcuNode[]> = {};
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.consume('}')) {
+        break;
+      }
+
+      const selector = isPlural ? this.readPluralSelector() : this.readIdentifier();
+      if (!selector) {
+        this.fail(`参数 ${name} 的选项格式不正确`);
+      }
+      if (options[selector]) {
+        this.fail(`参数 ${name} 的选项 ${selector} 重复`);
+      }
+
+      this.skipWhitespace();
+      if (!this.consume('{')) {
+        this.fail(`参数 ${name} 的选项 ${selector} 缺少 {`);
+      }
+      options[selector] = this.parseMessage(isPlural);
+      if (!this.consume('}')) {
+        this.fail(`参数 ${name} 的选项 ${selector} 未闭合`);
+      }
+    }
+
+    if (!options.other) {
+      this.fail(`参数 ${name} 缺少 other 选项`);
+    }
+
+    return options;
+  }
+
+  /**
+   * 读取 plural 选项，关键字或 =数字
+   */
+  private readPluralSelector(): string {
+    const match = this.text.slice(this.position).match(/^(=\d+|[A-Za-z]+)/);
+    if (!match) {
+      return '';
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * 读取参数名或类型名
+   */
+  private readIdentifier(): string {
+    const match = this.text.slice(this.position).match(/^[^\s,{}#'=]+/);
+    if (!match) {
+      return '';
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * 跳过空白
+   */
+  private skipWhitespace(): void {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) {
+      this.position++;
+    }
+  }
+
+  /**
+   * 当前字符匹配时前进一位
+   */
+  private consume(char: string): boolean {
+    if (this.text[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 抛出带位置信息的语法错误
+   */
+  private fail(message: string): never {
+    throw new Error(`${message} (位置 ${this.position})`);
+  }
+}
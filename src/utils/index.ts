@@ -4,4 +4,22 @@ export * from './logger.js';
 export * from './errors.js';
 export * from './syntax-validator.js';
 export * from './cache-manager.js';
-export * from './error-utils.js';
\ No newline at end of file
+export * from './error-utils.js';
+export * from './diff.js';
+export * from './ast-utils.js';
+export * from './run-manifest.js';
+export * from './git.js';
+export * from './key-references.js';
+export * from './source-hash.js';
+export * from './translation-validator.js';
+export * from './locale-structure.js';
+export * from './namespace.js';
+export * from './locale-layout.js';
+export * from './run-backup.js';
+export * from './git-safety.js';
+export * from './command-report.js';
+export * from './placeholder.js';
+export * from './icu-message.js';
+export * from './plural.js';
+export * from './numeric-placeholders.js';
+export * from './hook-injector.js';
@@ -9,22 +9,25 @@ export class KeyGenerator {
   private config: KeyGenerationConfig;
   private existingKeys = new Set<string>();
   private textToKeyMap = new Map<string, string>();
+  private keyToTextMap = new Map<string, string>();
 
   constructor(config: KeyGenerationConfig) {
     this.config = config;
   }
 
   /**
-   * 生成Key
+   * 生成Key，指定命名空间时生成以点号分隔的完整路径
    */
-  generateKey(text: string): string {
+  generateKey(text: string, namespace: string = ''): string {
+    const scopedText = this.getScopedText(text, namespace);
+
     // 如果配置了复用已有key，且文本已存在，直接返回
-    if (this.config.reuseExistingKey && this.textToKeyMap.has(text)) {
-      return this.textToKeyMap.get(text)!;
+    if (this.config.reuseExistingKey && this.textToKeyMap.has(scopedText)) {
+      return this.textToKeyMap.get(scopedText)!;
     }
 
     // 中文转拼音
-    const pinyinResult = this.convertToPinyin(text);
+    const pinyinResult = this.sanitizeKey(this.convertToPinyin(text), text);
     
     // 处理长度限制
     let baseKey = this.limitLength(pinyinResult, text);
@@ -34,15 +37,21 @@ export class KeyGenerator {
       baseKey = `${this.config.keyPrefix}${this.config.separator}${baseKey}`;
     }
 
-    // 处理重复key
+    // 添加命名空间
+    if (namespace) {
+      baseKey = `${namespace}.${baseKey}`;
+    }
+
+    // 处理重复key（复用模式下相同文本已在上面返回，这里的重复一定来自不同文本）
     let finalKey = baseKey;
-    if (!this.config.reuseExistingKey && this.existingKeys.has(baseKey)) {
+    if (this.existingKeys.has(baseKey)) {
       finalKey = this.handleDuplicateKey(baseKey, text);
     }
 
     // 记录key
     this.existingKeys.add(finalKey);
-    this.textToKeyMap.set(text, finalKey);
+    this.textToKeyMap.set(scopedText, finalKey);
+    this.keyToTextMap.set(finalKey, text);
 
     return finalKey;
   }
@@ -103,6 +112,20 @@ export class KeyGenerator {
     }
   }
 
+  /**
+   * 将标点、空格、占位符括号等非字母数字字符替换为分隔符，无可用字符时使用hash
+   */
+  private sanitizeKey(pinyin: string, originalText: string): string {
+    const separator = this.config.separator;
+    const escaped = separator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const sanitized = pinyin
+      .replace(/[^A-Za-z0-9]+/g, separator)
+      .replace(new RegExp(`(${escaped})+`, 'g'), separator)
+      .replace(new RegExp(`^(${escaped})+|(${escaped})+$`, 'g'), '');
+
+    return sanitized || this.generateHash(originalText, this.config.hashLength);
+  }
+
   /**
    * 处理长度限制
    */
@@ -112,7 +135,10 @@ export class KeyGenerator {
     }
 
     // 截取并添加hash
-    const truncated = pinyin.substring(0, this.config.maxChineseLength);
+    let truncated = pinyin.substring(0, this.config.maxChineseLength);
+    while (this.config.separator && truncated.endsWith(this.config.separator)) {
+      truncated = truncated.slice(0, -this.config.separator.length);
+    }
     const hash = this.generateHash(originalText, this.config.hashLength);
     
     return `${truncated}${this.config.separator}${hash}`;
@@ -122,8 +148,16 @@ export class KeyGenerator {
    * 处理重复key
    */
   private handleDuplicateKey(baseKey: string, text: string): string {
-    const hash = this.generateHash(text + Date.now(), this.config.hashLength);
-    return `${baseKey}${this.config.separator}${hash}`;
+    // 基于文本生成hash，保证多次运行得到相同的key
+    let attempt = 0;
+    let candidate = `${baseKey}${this.config.separator}${this.generateHash(text, this.config.hashLength)}`;
+    
+    while (this.existingKeys.has(candidate)) {
+      attempt++;
+      candidate = `${baseKey}${this.config.separator}${this.generateHash(`${text}#${attempt}`, this.config.hashLength)}`;
+    }
+    
+    return candidate;
   }
 
   /**
@@ -166,6 +200,34 @@ export class KeyGenerator {
     }
   }
 
+  /**
+   * 加载已有语言文件中的key和文本，使相同文本在多次运行间得到相同的key
+   */
+  loadExistingEntries(entries: Record<string, string>): void {
+    for (const [key, text] of Object.entries(entries)) {
+      this.existingKeys.add(key);
+      if (typeof text !== 'string') {
+        continue;
+      }
+
+      this.keyToTextMap.set(key, text);
+      // 不区分命名空间时任意key都可复用，区分时只复用同一命名空间下的key
+      const namespace = key.includes('.') ? key.slice(0, key.lastIndexOf('.')) : '';
+      for (const scopedText of new Set([text, this.getScopedText(text, namespace)])) {
+        if (!this.textToKeyMap.has(scopedText)) {
+          this.textToKeyMap.set(scopedText, key);
+        }
+      }
+    }
+  }
+
+  /**
+   * 获取文本在命名空间内的唯一标识
+   */
+  private getScopedText(text: string, namespace: string): string {
+    return namespace ? `${namespace}\u0000${text}` : text;
+  }
+
   /**
    * 获取已生成的key统计
    */
@@ -182,6 +244,7 @@ export class KeyGenerator {
   clear(): void {
     this.existingKeys.clear();
     this.textToKeyMap.clear();
+    this.keyToTextMap.clear();
   }
 
   /**
@@ -210,6 +273,13 @@ export class KeyGenerator {
     return new Map(this.textToKeyMap);
   }
 
+  /**
+   * 获取key到文本的映射
+   */
+  getKeyToTextMap(): Map<string, string> {
+    return new Map(this.keyToTextMap);
+  }
+
   /**
    * 获取所有已生成的key
    */
@@ -0,0 +1,40 @@
+/**
+ * 转义正则表达式特殊字符
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 富文本组件的 i18nKey 属性，如 <Trans i18nKey="key" />
+ */
+const I18N_KEY_ATTRIBUTE_REGEX = /\bi18nKey=(['"])([^'"\n]+)\1/g;
+
+/**
+ * 查找代码中通过国际化函数或富文本组件引用的key
+ * 例如 $t('key')、i18n.t("key")、{{ $t(`key`) }}、<Trans i18nKey="key" />
+ * 函数也可通过 this 调用，如 Vue 选项式 API 中的 this.$t('key')，其他对象上的同名方法不计入
+ */
+export function findKeyReferences(code: string, functionNames: string | string[]): string[] {
+  const names = (Array.isArray(functionNames) ? functionNames : [functionNames]).map(escapeRegExp);
+  const pattern = new RegExp(
+    `(?<![\\w$.])(?:this\\s*\\.\\s*)?(?:${names.join('|')})\\s*\\(\\s*(['"\`])((?:(?!\\1)[^\\\\\\n]|\\\\.)+)\\1`,
+    'g'
+  );
+
+  const keys = new Set<string>();
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code)) !== null) {
+    // 模板字符串中包含插值的key无法静态确定，跳过
+    if (match[1] === '`' && match[2].includes('${')) {
+      continue;
+    }
+    keys.add(match[2]);
+  }
+
+  for (const attribute of code.matchAll(I18N_KEY_ATTRIBUTE_REGEX)) {
+    keys.add(attribute[2]);
+  }
+
+  return Array.from(keys);
+}
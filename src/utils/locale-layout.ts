@@ -0,0 +1,105 @@
+import fg from 'fast-glob';
+import type { I18nConfig } from '../config/types.js';
+import { getFileSystem, type FileSystemService } from './file-system.js';
+
+/**
+ * 转义正则表达式特殊字符
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 语言文件条目
+ */
+export interface LocaleFileEntry {
+  /** 命名空间，未按命名空间拆分时为空字符串 */
+  namespace: string;
+  /** 文件路径 */
+  filePath: string;
+}
+
+/**
+ * 语言文件布局 - 根据 localeFileName 中的 {locale} 和 {namespace} 定位语言文件
+ */
+export class LocaleFileLayout {
+  private fs: FileSystemService;
+
+  constructor(private config: I18nConfig, fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+  }
+
+  /**
+   * 是否按命名空间拆分语言文件
+   */
+  isSplitByNamespace(): boolean {
+    return this.config.output.localeFileName.includes('{namespace}');
+  }
+
+  /**
+   * 获取语言文件路径
+   */
+  getFilePath(locale: string, namespace: string = ''): string {
+    const fileName = this.config.output.localeFileName
+      .replace(/\{locale\}/g, locale)
+      .replace(/\{namespace\}/g, namespace);
+    return this.fs.join(this.config.outputDir, fileName);
+  }
+
+  /**
+   * 列出指定语言已存在的语言文件
+   */
+  async listFiles(locale: string): Promise<LocaleFileEntry[]> {
+    if (!this.isSplitByNamespace()) {
+      const filePath = this.getFilePath(locale);
+      return await this.fs.pathExists(filePath) ? [{ namespace: '', filePath }] : [];
+    }
+
+    if (!await this.fs.pathExists(this.config.outputDir)) {
+      return [];
+    }
+
+    const fileName = this.config.output.localeFileName.replace(/\{locale\}/g, locale);
+    const pattern = fileName.replace(/\{namespace\}/g, '*');
+    const namespaceRegex = new RegExp(
+      `^${fileName.split('{namespace}').map(escapeRegExp).join('([^/]+)')}$`
+    );
+
+    const files = await fg(pattern, { cwd: this.config.outputDir, onlyFiles: true, dot: false });
+
+    return files
+      .sort()
+      .flatMap(file => {
+        const match = namespaceRegex.exec(file);
+        return match ? [{ namespace: match[1], filePath: this.fs.join(this.config.outputDir, file) }] : [];
+      });
+  }
+
+  /**
+   * 列出 outputDir 中已存在语言文件的全部语言
+   */
+  async listLocales(): Promise<string[]> {
+    if (!await this.fs.pathExists(this.config.outputDir)) {
+      return [];
+    }
+
+    const { localeFileName } = this.config.output;
+    const pattern = localeFileName.replace(/\{(locale|namespace)\}/g, '*');
+    const localeRegex = new RegExp(`^${localeFileName
+      .split(/(\{locale\}|\{namespace\})/)
+      .map(part => part === '{locale}' ? '([^/]+)' : part === '{namespace}' ? '[^/]+' : escapeRegExp(part))
+      .join('')}$`);
+
+    const files = await fg(pattern, { cwd: this.config.outputDir, onlyFiles: true, dot: false });
+    const locales = new Set<string>();
+
+    for (const file of files) {
+      const match = localeRegex.exec(file);
+      if (match) {
+        locales.add(match[1]);
+      }
+    }
+
+    return [...locales].sort();
+  }
+}
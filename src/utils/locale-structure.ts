@@ -0,0 +1,72 @@
+/**
+ * 嵌套的语言数据
+ */
+export interface NestedMessages {
+  [key: string]: string | NestedMessages;
+}
+
+/**
+ * 判断是否为普通对象
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 将嵌套的语言数据展开为点号分隔的扁平key
+ * 例如 { user: { name: '用户名' } } → { 'user.name': '用户名' }
+ */
+export function flattenMessages(messages: Record<string, unknown>, prefix: string = ''): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(messages)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value)) {
+      Object.assign(result, flattenMessages(value, fullKey));
+    } else {
+      result[fullKey] = value as string;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 将点号分隔的扁平key还原为嵌套结构
+ * 与已有文本冲突的路径（如同时存在 a 和 a.b）保留为带点号的key，保证再次展开时结果一致
+ */
+export function unflattenMessages(messages: Record<string, string>): NestedMessages {
+  const result: NestedMessages = {};
+
+  for (const [key, value] of Object.entries(messages)) {
+    const segments = key.split('.');
+    let current = result;
+    let index = 0;
+
+    // 沿路径向下，遇到文本节点时停止
+    while (index < segments.length - 1) {
+      const segment = segments[index];
+      const next = current[segment];
+
+      if (next === undefined) {
+        current[segment] = {};
+      } else if (typeof next === 'string') {
+        break;
+      }
+      current = current[segment] as NestedMessages;
+      index++;
+    }
+
+    const restKey = segments.slice(index).join('.');
+    const existing = current[restKey];
+    if (isPlainObject(existing)) {
+      // 同名路径已是嵌套对象，将其展开为带点号的key，为当前文本腾出位置
+      delete current[restKey];
+      Object.assign(current, flattenMessages(existing, restKey));
+    }
+    current[restKey] = value;
+  }
+
+  return result;
+}
@@ -1,6 +1,12 @@
 import chalk from 'chalk';
+import { format } from 'util';
 import { LoggingConfig } from '../config/types.js';
 
+/**
+ * 终端颜色等 ANSI 转义序列，util.stripVTControlCharacters 需要 Node 16.11 以上
+ */
+const ANSI_ESCAPE_REGEX = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*[A-Za-z]`, 'g');
+
 /**
  * 日志级别
  */
@@ -273,7 +279,33 @@ export class Logger {
       };
     }
 
-    console.log(JSON.stringify(entry));
+    // 写入标准错误，标准输出留给命令的 JSON 结果
+    process.stderr.write(JSON.stringify(entry) + '\n');
+  }
+
+  /**
+   * 将 console 输出转为结构化日志，返回恢复原 console 方法的函数
+   */
+  captureConsole(): () => void {
+    const original = {
+      log: console.log,
+      info: console.info,
+      warn: console.warn,
+      error: console.error,
+    };
+    const capture = (level: string, logLevel: LogLevel) => (...args: unknown[]) => {
+      if (!this.shouldLog(logLevel)) return;
+      this.logStructured(level, format(...args).replace(ANSI_ESCAPE_REGEX, '').trim());
+    };
+
+    console.log = capture('info', LogLevel.INFO);
+    console.info = capture('info', LogLevel.INFO);
+    console.warn = capture('warn', LogLevel.WARN);
+    console.error = capture('error', LogLevel.ERROR);
+
+    return () => {
+      Object.assign(console, original);
+    };
   }
 
   /**
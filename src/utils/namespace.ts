@@ -0,0 +1,116 @@
+import path from 'path';
+import type { I18nConfig } from '../config/types.js';
+import type { ScanResult } from '../scanner/types.js';
+
+/**
+ * 将glob模式转换为正则表达式，支持 **、*、? 和 {a,b}
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // **/ 匹配任意层目录（包括零层）
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const options = pattern.slice(i + 1, end).split(',').map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+        source += `(?:${options.join('|')})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 命名空间解析器 - 根据配置的映射和策略确定源文件中文本所属的命名空间
+ */
+export class NamespaceResolver {
+  private mappingRules: Array<{ regex: RegExp; namespace: string }>;
+
+  constructor(private config: I18nConfig) {
+    this.mappingRules = Object.entries(config.output.namespace.mapping || {}).map(([pattern, namespace]) => ({
+      regex: globToRegExp(pattern.replace(/^\.\//, '')),
+      namespace,
+    }));
+  }
+
+  /**
+   * 是否按命名空间拆分语言文件
+   */
+  isSplitByNamespace(): boolean {
+    return this.config.output.localeFileName.includes('{namespace}');
+  }
+
+  /**
+   * 解析文件对应的命名空间，多级用点号分隔，不使用命名空间时返回空字符串
+   * 按命名空间拆分语言文件时，每个文本都必须属于某个命名空间
+   */
+  resolve(file: ScanResult): string {
+    const namespace = this.resolveFromMapping(file) ?? this.resolveFromStrategy(file);
+
+    if (!namespace && this.isSplitByNamespace()) {
+      return this.config.output.namespace.defaultNamespace;
+    }
+    return namespace;
+  }
+
+  /**
+   * 按glob映射匹配命名空间
+   */
+  private resolveFromMapping(file: ScanResult): string | undefined {
+    const relativePath = file.relativePath.replace(/\\/g, '/');
+    return this.mappingRules.find(rule => rule.regex.test(relativePath))?.namespace;
+  }
+
+  /**
+   * 按配置的策略生成命名空间
+   */
+  private resolveFromStrategy(file: ScanResult): string {
+    const { strategy, value } = this.config.output.namespace;
+
+    switch (strategy) {
+      case 'directory':
+        return this.resolveFromDirectory(file);
+      case 'keyPrefix':
+        return this.config.keyGeneration.keyPrefix;
+      case 'fixed':
+        return value || '';
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * 按源文件相对 baseDir 的目录生成命名空间
+   * 例如 src/pages/user/profile.tsx → pages.user
+   */
+  private resolveFromDirectory(file: ScanResult): string {
+    const directory = path.dirname(file.relativePath);
+    const relativeDir = path.relative(this.config.output.namespace.baseDir, directory);
+    const namespaceDir = relativeDir.startsWith('..') || path.isAbsolute(relativeDir) ? directory : relativeDir;
+
+    return namespaceDir
+      .split(/[\\/]/)
+      .filter(segment => segment && segment !== '.')
+      .map(segment => segment.replace(/[^\w-]/g, '_'))
+      .join('.');
+  }
+}
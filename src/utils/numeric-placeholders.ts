@@ -0,0 +1,63 @@
+import type { ReplacementConfig } from '../config/types.js';
+import { getFileSystem, type FileSystemService } from './file-system.js';
+import { collectPluralPlaceholders } from './plural.js';
+
+/**
+ * 数量占位符记录 - 按源文本保存提取时根据表达式标记的数量占位符，
+ * 使 extract 与 translate 命令对同一文本生成相同的复数消息
+ */
+export class NumericPlaceholderStore {
+  private placeholders: Record<string, string[]> = {};
+  private storePath: string;
+  private fs: FileSystemService;
+
+  constructor(cacheDir: string = '.ai-i18n-cache', fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+    this.storePath = this.fs.join(cacheDir, 'numeric-placeholders.json');
+  }
+
+  /**
+   * 从磁盘加载记录
+   */
+  async load(): Promise<void> {
+    try {
+      if (await this.fs.pathExists(this.storePath)) {
+        this.placeholders = JSON.parse(await this.fs.readFile(this.storePath, 'utf-8'));
+      }
+    } catch (error) {
+      console.warn('加载数量占位符记录失败，将仅按文本识别数量占位符:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 保存记录到磁盘
+   */
+  async save(): Promise<void> {
+    await this.fs.ensureDir(this.fs.dirname(this.storePath));
+    await this.fs.writeFile(this.storePath, JSON.stringify(this.placeholders, null, 2), 'utf-8');
+  }
+
+  /**
+   * 记录源文本中提取时标记的数量占位符
+   */
+  record(text: string, names: string[]): void {
+    this.placeholders[text] = Array.from(new Set([...(this.placeholders[text] || []), ...names]));
+  }
+
+  /**
+   * 汇总各key文本中的数量占位符，合并已记录的标记结果
+   */
+  collectPlurals(
+    texts: Record<string, string>,
+    replacement: Pick<ReplacementConfig, 'placeholderSyntax' | 'pluralFormat'>
+  ): Record<string, string[]> {
+    const marked: Record<string, string[]> = {};
+    for (const [key, text] of Object.entries(texts)) {
+      if (this.placeholders[text]) {
+        marked[key] = this.placeholders[text];
+      }
+    }
+
+    return collectPluralPlaceholders(texts, replacement, marked);
+  }
+}
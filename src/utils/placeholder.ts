@@ -0,0 +1,55 @@
+import type { ReplacementConfig } from '../config/types.js';
+
+/**
+ * 插值占位符语法
+ */
+export type PlaceholderSyntax = ReplacementConfig['placeholderSyntax'];
+
+/**
+ * 插值占位符，name 为参数名，source 为原始代码中的表达式
+ */
+export interface Placeholder {
+  name: string;
+  source: string;
+  /** 是否为数量，翻译时可能需要复数形式 */
+  numeric?: boolean;
+}
+
+/**
+ * 是否为按出现顺序传参的位置占位符语法
+ */
+export function isPositionalSyntax(syntax: PlaceholderSyntax): boolean {
+  return syntax === '%s';
+}
+
+/**
+ * 按语法生成占位符文本
+ */
+export function formatPlaceholder(name: string, syntax: PlaceholderSyntax): string {
+  switch (syntax) {
+    case '{{x}}':
+      return `{{${name}}}`;
+    case '%s':
+      return '%s';
+    case '{x}':
+    default:
+      return `{${name}}`;
+  }
+}
+
+/**
+ * 按语法提取文本中的占位符，位置占位符返回从 0 开始的序号
+ */
+export function parsePlaceholders(text: string, syntax: PlaceholderSyntax): string[] {
+  switch (syntax) {
+    case '{{x}}':
+      return Array.from(text.matchAll(/\{\{\s*([\w$.]+)\s*\}\}/g), match => match[1]);
+    case '%s':
+      return Array.from(text.matchAll(/%(?:(\d+)\$)?[sd]/g), (match, index) =>
+        match[1] ? String(Number(match[1]) - 1) : String(index)
+      );
+    case '{x}':
+    default:
+      return Array.from(text.matchAll(/(?<!\{)\{\s*([\w$.]+)\s*\}(?!\})/g), match => match[1]);
+  }
+}
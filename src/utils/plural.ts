@@ -0,0 +1,86 @@
+import type { ReplacementConfig } from '../config/types.js';
+
+/**
+ * 数量占位符名称，如 n、count、fileCount、list.length
+ */
+const NUMERIC_NAME_REGEX = /^(n|num|number|count|total|amount|quantity|size|length)$|(Count|Num|Number|Total|Amount|Quantity|Size|Length)$/;
+
+/**
+ * 中文量词，紧跟在占位符后时视为数量占位符
+ */
+const MEASURE_WORDS = '个条件项次张人位名份篇页台部本只元岁秒天周月年行列笔处';
+
+/**
+ * 获取语言的 CLDR 复数类别，如 en 为 one、other，ru 为 one、few、many、other
+ */
+export function getPluralCategories(locale: string, ordinal: boolean = false): string[] {
+  try {
+    return new Intl.PluralRules(locale, { type: ordinal ? 'ordinal' : 'cardinal' })
+      .resolvedOptions()
+      .pluralCategories;
+  } catch {
+    return ['other'];
+  }
+}
+
+/**
+ * 判断语言的数量表达是否需要区分复数形式
+ */
+export function requiresPlural(locale: string): boolean {
+  return getPluralCategories(locale).length > 1;
+}
+
+/**
+ * 根据占位符名称判断是否为数量
+ */
+export function isNumericName(name: string): boolean {
+  return NUMERIC_NAME_REGEX.test(name);
+}
+
+/**
+ * 判断占位符是否表示数量：紧跟中文量词，且不是“第{n}页”这样的序数
+ */
+export function isMeasuredPlaceholder(before: string, after: string): boolean {
+  const first = after.trimStart()[0];
+  return first !== undefined && MEASURE_WORDS.includes(first) && !before.trimEnd().endsWith('第');
+}
+
+/**
+ * 查找 {x} 语法文本中的数量占位符：名称表示数量，或紧跟中文量词
+ */
+export function findNumericPlaceholders(text: string): string[] {
+  const names = new Set<string>();
+
+  for (const match of text.matchAll(/(?<!\{)\{\s*([\w$]+)\s*\}(?!\})/g)) {
+    const index = match.index ?? 0;
+    if (isNumericName(match[1]) || isMeasuredPlaceholder(text.slice(0, index), text.slice(index + match[0].length))) {
+      names.add(match[1]);
+    }
+  }
+
+  return Array.from(names);
+}
+
+/**
+ * 汇总各key文本中的数量占位符，合并提取时标记的结果
+ * ICU plural 使用 {x} 占位符，其他占位符语法或 pluralFormat 为 none 时不处理复数
+ */
+export function collectPluralPlaceholders(
+  texts: Record<string, string>,
+  replacement: Pick<ReplacementConfig, 'placeholderSyntax' | 'pluralFormat'>,
+  marked: Record<string, string[]> = {}
+): Record<string, string[]> {
+  if (replacement.placeholderSyntax !== '{x}' || replacement.pluralFormat !== 'icu') {
+    return {};
+  }
+
+  const result: Record<string, string[]> = {};
+  for (const [key, text] of Object.entries(texts)) {
+    const names = new Set([...(marked[key] || []), ...findNumericPlaceholders(text)]);
+    if (names.size > 0) {
+      result[key] = Array.from(names);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,335 @@
+import type fs from 'fs-extra';
+import { RunManifest } from './run-manifest.js';
+import { getFileSystem, type FileSystemService } from './file-system.js';
+
+/**
+ * 运行备份中的文件条目
+ */
+export interface RunBackupEntry {
+  /** 相对路径 */
+  path: string;
+  /** 运行前文件是否存在 */
+  existed: boolean;
+  /** 运行前的内容哈希 */
+  originalHash: string | null;
+  /** 运行结束时的内容哈希，文件不存在时为 null */
+  resultHash: string | null;
+  /** 备份副本在运行目录中的相对路径 */
+  backup: string | null;
+}
+
+/**
+ * 运行备份数据
+ */
+export interface RunBackupData {
+  /** 备份格式版本 */
+  version: number;
+  /** 运行ID */
+  runId: string;
+  /** 运行开始时间戳 */
+  startedAt: number;
+  /** 运行结束时间戳，未正常结束时为 null */
+  completedAt: number | null;
+  /** 回滚时间戳 */
+  rolledBackAt: number | null;
+  /** 本次运行修改过的文件 */
+  files: RunBackupEntry[];
+}
+
+/**
+ * 运行备份 - 在每次提取运行首次写入文件前保存原始内容，用于 ai-i18n rollback
+ * 备份保存在 <cacheDir>/runs/<runId>/ 中，只保留最近的若干次运行
+ */
+export class RunBackup {
+  private static readonly VERSION = 1;
+  private static readonly MAX_RUNS = 10;
+  private fs: FileSystemService;
+  private runsDir: string;
+  private data: RunBackupData | null = null;
+  private captures = new Map<string, Promise<void>>();
+
+  constructor(cacheDir: string = '.ai-i18n-cache', fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+    this.runsDir = this.fs.join(cacheDir, 'runs');
+  }
+
+  /**
+   * 开始新的运行
+   */
+  async begin(startedAt: number = Date.now()): Promise<string> {
+    const baseId = new Date(startedAt).toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+    let runId = baseId;
+    for (let suffix = 1; await this.fs.pathExists(this.fs.join(this.runsDir, runId)); suffix++) {
+      runId = `${baseId}-${suffix}`;
+    }
+
+    this.data = { version: RunBackup.VERSION, runId, startedAt, completedAt: null, rolledBackAt: null, files: [] };
+    this.captures.clear();
+    return runId;
+  }
+
+  /**
+   * 在文件首次被写入或删除前保存其原始内容，同一次运行中重复调用只备份一次
+   */
+  capture(filePath: string): Promise<void> {
+    if (!this.data) {
+      return Promise.resolve();
+    }
+
+    const relativePath = this.toRelative(filePath);
+    let pending = this.captures.get(relativePath);
+    if (!pending) {
+      pending = this.backupFile(this.data, relativePath);
+      this.captures.set(relativePath, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * 结束运行，记录各文件的最终内容哈希并保存清单
+   * 没有修改任何文件时不保留本次运行，返回 null
+   */
+  async complete(): Promise<string | null> {
+    const data = this.data;
+    this.data = null;
+    if (!data) {
+      return null;
+    }
+
+    await Promise.allSettled(this.captures.values());
+    const runDir = this.fs.join(this.runsDir, data.runId);
+
+    if (data.files.length === 0) {
+      await this.fs.remove(runDir);
+      return null;
+    }
+
+    for (const entry of data.files) {
+      entry.resultHash = await this.hashFile(entry.path);
+    }
+    data.completedAt = Date.now();
+
+    await this.fs.ensureDir(runDir);
+    await this.fs.writeFile(this.fs.join(runDir, 'manifest.json'), JSON.stringify(data, null, 2), 'utf-8');
+    await this.pruneOldRuns();
+
+    return data.runId;
+  }
+
+  /**
+   * 列出全部运行，最近的在前
+   */
+  async list(): Promise<RunBackupData[]> {
+    if (!await this.fs.pathExists(this.runsDir)) {
+      return [];
+    }
+
+    const runs: RunBackupData[] = [];
+    for (const runId of await this.fs.readdir(this.runsDir)) {
+      const run = await this.load(runId);
+      if (run) {
+        runs.push(run);
+      }
+    }
+
+    return runs.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * 读取指定运行的清单，不存在时返回 null
+   */
+  async load(runId: string): Promise<RunBackupData | null> {
+    const manifestPath = this.fs.join(this.runsDir, runId, 'manifest.json');
+    if (!await this.fs.pathExists(manifestPath)) {
+      return null;
+    }
+
+    const data = JSON.parse(await this.fs.readFile(manifestPath, 'utf-8')) as RunBackupData;
+    return data.version === RunBackup.VERSION ? data : null;
+  }
+
+  /**
+   * 找出运行结束后又被修改过的文件
+   */
+  async findModified(run: RunBackupData): Promise<string[]> {
+    const modified: string[] = [];
+
+    for (const entry of run.files) {
+      // 运行未正常结束时无法确认文件状态，视为已修改
+      if (run.completedAt === null || await this.hashFile(entry.path) !== entry.resultHash) {
+        modified.push(entry.path);
+      }
+    }
+
+    return modified;
+  }
+
+  /**
+   * 将运行修改过的文件恢复到运行前的状态，运行中新建的文件会被删除
+   */
+  async restore(run: RunBackupData): Promise<void> {
+    const runDir = this.fs.join(this.runsDir, run.runId);
+
+    for (const entry of run.files) {
+      const filePath = this.fs.resolve(entry.path);
+
+      if (entry.existed && entry.backup) {
+        await this.fs.ensureDir(this.fs.dirname(filePath));
+        await this.fs.copy(this.fs.join(runDir, entry.backup), filePath);
+      } else if (await this.fs.pathExists(filePath)) {
+        await this.fs.remove(filePath);
+      }
+    }
+
+    run.rolledBackAt = Date.now();
+    await this.fs.writeFile(this.fs.join(runDir, 'manifest.json'), JSON.stringify(run, null, 2), 'utf-8');
+  }
+
+  /**
+   * 保存文件的原始内容
+   */
+  private async backupFile(data: RunBackupData, relativePath: string): Promise<void> {
+    // 先登记条目，保证并发备份时序号不重复
+    const entry: RunBackupEntry = { path: relativePath, existed: false, originalHash: null, resultHash: null, backup: null };
+    const backup = this.fs.join('files', `${data.files.push(entry)}${this.fs.extname(relativePath)}`);
+    const filePath = this.fs.resolve(relativePath);
+
+    if (await this.fs.isFile(filePath)) {
+      const content = await this.fs.readFile(filePath, 'utf-8');
+      const backupPath = this.fs.join(this.runsDir, data.runId, backup);
+
+      await this.fs.ensureDir(this.fs.dirname(backupPath));
+      await this.fs.writeFile(backupPath, content, 'utf-8');
+      Object.assign(entry, { existed: true, originalHash: RunManifest.hashContent(content), backup });
+    }
+  }
+
+  /**
+   * 计算文件当前内容的哈希，文件不存在时返回 null
+   */
+  private async hashFile(relativePath: string): Promise<string | null> {
+    const filePath = this.fs.resolve(relativePath);
+    if (!await this.fs.isFile(filePath)) {
+      return null;
+    }
+    return RunManifest.hashContent(await this.fs.readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * 删除超出保留数量的旧运行
+   */
+  private async pruneOldRuns(): Promise<void> {
+    const runs = await this.list();
+    for (const run of runs.slice(RunBackup.MAX_RUNS)) {
+      await this.fs.remove(this.fs.join(this.runsDir, run.runId));
+    }
+  }
+
+  /**
+   * 清单中统一使用相对当前目录、正斜杠分隔的路径
+   */
+  private toRelative(filePath: string): string {
+    return this.fs.relative(process.cwd(), this.fs.resolve(filePath)).replace(/\\/g, '/');
+  }
+}
+
+/**
+ * 带运行备份的文件系统 - 写入、删除或覆盖文件前先通过 RunBackup 保存原始内容
+ */
+export class BackupFileSystem implements FileSystemService {
+  constructor(private inner: FileSystemService, private backup: RunBackup) {}
+
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<string> {
+    return this.inner.readFile(filePath, encoding);
+  }
+
+  readFileSync(filePath: string, encoding?: BufferEncoding): string {
+    return this.inner.readFileSync(filePath, encoding);
+  }
+
+  async writeFile(filePath: string, content: string, encoding?: BufferEncoding): Promise<void> {
+    // 内容未变化的写入不计入本次运行
+    if (!await this.inner.isFile(filePath) || await this.inner.readFile(filePath, encoding) !== content) {
+      await this.backup.capture(filePath);
+    }
+    return this.inner.writeFile(filePath, content, encoding);
+  }
+
+  writeFileSync(): void {
+    throw new Error('运行备份不支持同步写入');
+  }
+
+  async pathExists(filePath: string): Promise<boolean> {
+    return this.inner.pathExists(filePath);
+  }
+
+  pathExistsSync(filePath: string): boolean {
+    return this.inner.pathExistsSync(filePath);
+  }
+
+  async isFile(filePath: string): Promise<boolean> {
+    return this.inner.isFile(filePath);
+  }
+
+  async isDirectory(filePath: string): Promise<boolean> {
+    return this.inner.isDirectory(filePath);
+  }
+
+  async ensureDir(dirPath: string): Promise<void> {
+    return this.inner.ensureDir(dirPath);
+  }
+
+  ensureDirSync(dirPath: string): void {
+    this.inner.ensureDirSync(dirPath);
+  }
+
+  async readdir(dirPath: string): Promise<string[]> {
+    return this.inner.readdir(dirPath);
+  }
+
+  async remove(filePath: string): Promise<void> {
+    if (await this.inner.isFile(filePath)) {
+      await this.backup.capture(filePath);
+    }
+    return this.inner.remove(filePath);
+  }
+
+  removeSync(): void {
+    throw new Error('运行备份不支持同步删除');
+  }
+
+  async copy(src: string, dest: string): Promise<void> {
+    if (!await this.inner.isDirectory(dest)) {
+      await this.backup.capture(dest);
+    }
+    return this.inner.copy(src, dest);
+  }
+
+  async stat(filePath: string): Promise<fs.Stats> {
+    return this.inner.stat(filePath);
+  }
+
+  join(...paths: string[]): string {
+    return this.inner.join(...paths);
+  }
+
+  dirname(filePath: string): string {
+    return this.inner.dirname(filePath);
+  }
+
+  basename(filePath: string, ext?: string): string {
+    return this.inner.basename(filePath, ext);
+  }
+
+  extname(filePath: string): string {
+    return this.inner.extname(filePath);
+  }
+
+  resolve(...paths: string[]): string {
+    return this.inner.resolve(...paths);
+  }
+
+  relative(from: string, to: string): string {
+    return this.inner.relative(from, to);
+  }
+}
@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import type { ScanResult } from '../scanner/types.js';
+import { getFileSystem, type FileSystemService } from './file-system.js';
+
+/**
+ * 清单中的文件条目
+ */
+export interface ManifestEntry {
+  /** 文件内容哈希 */
+  hash: string;
+  /** 记录时间戳 */
+  updatedAt: number;
+}
+
+/**
+ * 运行清单数据
+ */
+export interface RunManifestData {
+  /** 清单格式版本 */
+  version: number;
+  /** 上次运行开始时间戳 */
+  lastRunAt: number | null;
+  /** 按相对路径记录的文件条目 */
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * 运行清单 - 记录每个文件处理后的内容哈希，用于增量提取
+ */
+export class RunManifest {
+  private static readonly VERSION = 1;
+  private data: RunManifestData = { version: RunManifest.VERSION, lastRunAt: null, files: {} };
+  private manifestPath: string;
+  private fs: FileSystemService;
+
+  constructor(cacheDir: string = '.ai-i18n-cache', fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+    this.manifestPath = this.fs.join(cacheDir, 'run-manifest.json');
+  }
+
+  /**
+   * 从磁盘加载清单
+   */
+  async load(): Promise<void> {
+    try {
+      if (await this.fs.pathExists(this.manifestPath)) {
+        const content = await this.fs.readFile(this.manifestPath, 'utf-8');
+        const parsed = JSON.parse(content) as RunManifestData;
+
+        if (parsed.version === RunManifest.VERSION && parsed.files) {
+          this.data = parsed;
+        }
+      }
+    } catch (error) {
+      console.warn('加载运行清单失败，将按首次运行处理:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 保存清单到磁盘
+   */
+  async save(runStartedAt: number = Date.now()): Promise<void> {
+    this.data.lastRunAt = runStartedAt;
+    await this.fs.ensureDir(this.fs.dirname(this.manifestPath));
+    await this.fs.writeFile(this.manifestPath, JSON.stringify(this.data, null, 2), 'utf-8');
+  }
+
+  /**
+   * 获取上次运行时间
+   */
+  getLastRunAt(): Date | null {
+    return this.data.lastRunAt ? new Date(this.data.lastRunAt) : null;
+  }
+
+  /**
+   * 判断文件是否已记录
+   */
+  has(file: ScanResult): boolean {
+    return this.toKey(file) in this.data.files;
+  }
+
+  /**
+   * 判断文件内容相对清单是否有变化
+   */
+  async isChanged(file: ScanResult): Promise<boolean> {
+    const entry = this.data.files[this.toKey(file)];
+    if (!entry) {
+      return true;
+    }
+
+    const content = await this.fs.readFile(file.filePath, 'utf-8');
+    return RunManifest.hashContent(content) !== entry.hash;
+  }
+
+  /**
+   * 记录文件处理后的内容
+   */
+  record(file: ScanResult, content: string): void {
+    this.data.files[this.toKey(file)] = {
+      hash: RunManifest.hashContent(content),
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * 计算内容哈希
+   */
+  static hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * 清单中统一使用正斜杠的相对路径
+   */
+  private toKey(file: ScanResult): string {
+    return file.relativePath.replace(/\\/g, '/');
+  }
+}
@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+import { getFileSystem, type FileSystemService } from './file-system.js';
+
+/**
+ * 源文本哈希记录 - 以旁路文件保存翻译时使用的源文本哈希，用于发现源文本变更后需要重新翻译的key
+ * 例如 locales/en-US.json 对应 locales/.en-US.source-hash.json
+ */
+export class SourceHashStore {
+  private hashes: Record<string, string> = {};
+  private sidecarPath: string;
+  private fs: FileSystemService;
+
+  constructor(targetFile: string, fileSystem?: FileSystemService) {
+    this.fs = fileSystem || getFileSystem();
+    this.sidecarPath = SourceHashStore.getSidecarPath(targetFile, this.fs);
+  }
+
+  /**
+   * 获取翻译文件对应的旁路文件路径
+   */
+  static getSidecarPath(targetFile: string, fileSystem: FileSystemService = getFileSystem()): string {
+    const baseName = fileSystem.basename(targetFile, fileSystem.extname(targetFile));
+    return fileSystem.join(fileSystem.dirname(targetFile), `.${baseName}.source-hash.json`);
+  }
+
+  /**
+   * 计算源文本哈希
+   */
+  static hashText(text: string): string {
+    return createHash('md5').update(text).digest('hex');
+  }
+
+  /**
+   * 从磁盘加载哈希记录
+   */
+  async load(): Promise<void> {
+    try {
+      if (await this.fs.pathExists(this.sidecarPath)) {
+        this.hashes = JSON.parse(await this.fs.readFile(this.sidecarPath, 'utf-8'));
+      }
+    } catch (error) {
+      throw new Error(`读取源文本哈希文件失败 ${this.sidecarPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 保存哈希记录到磁盘
+   */
+  async save(): Promise<void> {
+    await this.fs.ensureDir(this.fs.dirname(this.sidecarPath));
+    await this.fs.writeFile(this.sidecarPath, JSON.stringify(this.hashes, null, 2), 'utf-8');
+  }
+
+  /**
+   * 判断key是否已记录源文本哈希
+   */
+  has(key: string): boolean {
+    return key in this.hashes;
+  }
+
+  /**
+   * 判断key的源文本相对翻译时是否已变更
+   */
+  isStale(key: string, sourceText: string): boolean {
+    return this.has(key) && this.hashes[key] !== SourceHashStore.hashText(sourceText);
+  }
+
+  /**
+   * 记录key翻译时使用的源文本
+   */
+  record(key: string, sourceText: string): void {
+    this.hashes[key] = SourceHashStore.hashText(sourceText);
+  }
+
+  /**
+   * 获取哈希文件路径
+   */
+  getPath(): string {
+    return this.sidecarPath;
+  }
+}
@@ -93,7 +93,7 @@ export class SyntaxValidator {
     };
 
     try {
-      const options = this.PARSER_OPTIONS[fileExtension] || this.PARSER_OPTIONS['.js'];
+      const options = this.getParserOptions(fileExtension);
       
       // 使用 Babel 解析器验证语法
       parse(code, options);
@@ -124,6 +124,13 @@ export class SyntaxValidator {
     return results;
   }
 
+  /**
+   * 获取文件类型对应的解析选项
+   */
+  static getParserOptions(fileExtension: string): ParserOptions {
+    return this.PARSER_OPTIONS[fileExtension] || this.PARSER_OPTIONS['.js'];
+  }
+
   /**
    * 检查是否支持该文件类型
    */
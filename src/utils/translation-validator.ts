@@ -0,0 +1,229 @@
+import type { TranslationIssue } from '../config/types.js';
+import { hasIcuArguments, parseIcuMessage, walkIcuNodes } from './icu-message.js';
+import { getPluralCategories, requiresPlural } from './plural.js';
+
+/**
+ * 翻译校验结果
+ */
+export interface TranslationValidationResult {
+  /** 校验通过的翻译 */
+  translations: Record<string, string>;
+  /** 校验未通过的条目 */
+  issues: TranslationIssue[];
+}
+
+/**
+ * 翻译校验选项
+ */
+export interface TranslationValidationOptions {
+  /** 目标语言，用于检查复数类别 */
+  locale?: string;
+  /** 各key中需要按目标语言复数规则输出 ICU plural 的数量占位符 */
+  plurals?: Record<string, string[]>;
+}
+
+/**
+ * 翻译校验器 - 逐条检查大模型返回的翻译
+ */
+export class TranslationValidator {
+  private static readonly PLACEHOLDER_REGEX = /\{\{?\s*([\w.$]+)\s*\}\}?|%(?:\d+\$)?[sd]/g;
+  private static readonly TAG_REGEX = /<(\/?)([A-Za-z0-9][\w.-]*)(?:\s[^<>]*)??(\/?)>/g;
+
+  /**
+   * 校验翻译结果：key覆盖、占位符一致、标签配对、ICU 语法和复数类别，多余的key会被忽略
+   */
+  static validate(
+    sourceTexts: Record<string, string>,
+    translations: Record<string, unknown>,
+    options: TranslationValidationOptions = {}
+  ): TranslationValidationResult {
+    const result: TranslationValidationResult = { translations: {}, issues: [] };
+
+    for (const [key, sourceText] of Object.entries(sourceTexts)) {
+      const translation = translations[key];
+      const reason = this.checkEntry(sourceText, translation, options.locale, options.plurals?.[key]);
+
+      if (reason) {
+        result.issues.push({ key, reason });
+      } else {
+        result.translations[key] = translation as string;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 校验单条翻译，返回未通过的原因
+   */
+  static checkEntry(sourceText: string, translation: unknown, locale?: string, plurals: string[] = []): string | null {
+    if (translation === undefined) {
+      return '缺少翻译';
+    }
+    if (typeof translation !== 'string' || translation.trim() === '') {
+      return '翻译为空或格式不正确';
+    }
+
+    const icuReason = this.checkIcu(translation, locale, plurals);
+    if (icuReason) {
+      return icuReason;
+    }
+
+    // ICU 消息的每个分支都会重复占位符和标签，按去重后的集合比较
+    const isIcu = hasIcuArguments(translation);
+    const normalize = (items: string[]) => (isIcu ? Array.from(new Set(items)) : items);
+
+    const sourcePlaceholders = normalize(this.extractPlaceholders(sourceText));
+    const translationPlaceholders = normalize(this.extractPlaceholders(translation));
+    const missing = this.diffItems(sourcePlaceholders, translationPlaceholders);
+    const extra = this.diffItems(translationPlaceholders, sourcePlaceholders);
+    if (missing.length > 0 || extra.length > 0) {
+      const details = [
+        ...missing.map(name => `缺少 ${name.startsWith('%') ? name : `{${name}}`}`),
+        ...extra.map(name => `多出 ${name.startsWith('%') ? name : `{${name}}`}`),
+      ];
+      return `占位符不一致: ${details.join(', ')}`;
+    }
+
+    const sourceTags = normalize(this.extractTags(sourceText));
+    const translationTags = normalize(this.extractTags(translation));
+    const missingTags = this.diffItems(sourceTags, translationTags);
+    const extraTags = this.diffItems(translationTags, sourceTags);
+    if (missingTags.length > 0 || extraTags.length > 0) {
+      const details = [
+        ...missingTags.map(tag => `缺少 ${this.formatTag(tag)}`),
+        ...extraTags.map(tag => `多出 ${this.formatTag(tag)}`),
+      ];
+      return `标签与原文不一致: ${details.join(', ')}`;
+    }
+    if (this.isTagBalanced(sourceText) && !this.isTagBalanced(translation)) {
+      return '标签未正确闭合';
+    }
+
+    return null;
+  }
+
+  /**
+   * 检查 ICU 消息语法和复数类别，数量占位符在需要复数的语言中必须使用 plural
+   */
+  static checkIcu(translation: string, locale?: string, plurals: string[] = []): string | null {
+    const needsPlural = Boolean(locale) && plurals.length > 0 && requiresPlural(locale as string);
+
+    if (!hasIcuArguments(translation)) {
+      return needsPlural ? `数量占位符 ${plurals.map(name => `{${name}}`).join(', ')} 需要使用 ICU plural 格式` : null;
+    }
+
+    let nodes;
+    try {
+      nodes = parseIcuMessage(translation);
+    } catch (error) {
+      return `ICU 语法错误: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    const pluralNames = new Set<string>();
+    let reason: string | null = null;
+
+    walkIcuNodes(nodes, node => {
+      if (node.type !== 'plural' || reason) {
+        return;
+      }
+      pluralNames.add(node.name);
+      if (!locale) {
+        return;
+      }
+
+      const expected = getPluralCategories(locale, node.ordinal);
+      const actual = Object.keys(node.options).filter(selector => !selector.startsWith('='));
+      const missing = expected.filter(category => !actual.includes(category));
+      const extra = actual.filter(category => !expected.includes(category));
+      if (missing.length > 0 || extra.length > 0) {
+        const details = [
+          ...(missing.length > 0 ? [`缺少 ${missing.join(', ')}`] : []),
+          ...(extra.length > 0 ? [`多出 ${extra.join(', ')}`] : []),
+        ];
+        reason = `{${node.name}} 的复数类别与 ${locale} 的 CLDR 规则不一致: ${details.join('; ')}`;
+      }
+    });
+
+    if (reason) {
+      return reason;
+    }
+
+    const notPlural = needsPlural ? plurals.filter(name => !pluralNames.has(name)) : [];
+    return notPlural.length > 0
+      ? `数量占位符 ${notPlural.map(name => `{${name}}`).join(', ')} 需要使用 ICU plural 格式`
+      : null;
+  }
+
+  /**
+   * 提取占位符名称，ICU 消息中包括 plural、select 参数名
+   */
+  static extractPlaceholders(text: string): string[] {
+    if (hasIcuArguments(text)) {
+      try {
+        const names: string[] = [];
+        walkIcuNodes(parseIcuMessage(text), node => {
+          if (node.type === 'argument' || node.type === 'plural' || node.type === 'select') {
+            names.push(node.name);
+          }
+        });
+        return names;
+      } catch {
+        // 语法错误时按普通文本处理
+      }
+    }
+
+    return Array.from(text.matchAll(this.PLACEHOLDER_REGEX), match => match[1] ?? match[0]);
+  }
+
+  /**
+   * 提取标签，形如 open:b、close:b、self:br
+   */
+  private static extractTags(text: string): string[] {
+    return Array.from(text.matchAll(this.TAG_REGEX), match => {
+      const type = match[1] ? 'close' : match[3] ? 'self' : 'open';
+      return `${type}:${match[2]}`;
+    });
+  }
+
+  /**
+   * 将 open:b 形式的标签还原为 <b>
+   */
+  private static formatTag(tag: string): string {
+    const [type, name] = tag.split(':');
+    return type === 'close' ? `</${name}>` : type === 'self' ? `<${name}/>` : `<${name}>`;
+  }
+
+  /**
+   * 检查标签是否按顺序正确闭合
+   */
+  private static isTagBalanced(text: string): boolean {
+    const stack: string[] = [];
+
+    for (const tag of this.extractTags(text)) {
+      const [type, name] = tag.split(':');
+      if (type === 'open') {
+        stack.push(name);
+      } else if (type === 'close' && stack.pop() !== name) {
+        return false;
+      }
+    }
+
+    return stack.length === 0;
+  }
+
+  /**
+   * 计算 a 中多于 b 的元素（按出现次数）
+   */
+  private static diffItems(a: string[], b: string[]): string[] {
+    const remaining = [...b];
+    return a.filter(item => {
+      const index = remaining.indexOf(item);
+      if (index === -1) {
+        return true;
+      }
+      remaining.splice(index, 1);
+      return false;
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { CatalogFormatRegistry } from '../../src/catalog/registry.js';
+import type { Catalog } from '../../src/catalog/types.js';
+
+const OPTIONS = { structure: 'flat', prettyJson: true } as const;
+
+const catalog: Catalog = {
+  locale: 'en-US',
+  sourceLocale: 'zh-CN',
+  entries: [
+    { key: 'common.save', value: 'Save', source: '保存' },
+    { key: 'welcome', value: 'Hello, "{name}"\nwelcome back & enjoy', source: '你好, "{name}"\n欢迎回来 & 尽情享受' },
+  ],
+};
+
+describe('catalog formats', () => {
+  it.each(CatalogFormatRegistry.getNames())('%s round-trips keys and values', name => {
+    const format = CatalogFormatRegistry.get(name);
+    const parsed = format.parse(format.serialize(catalog, OPTIONS));
+
+    expect(parsed.entries.map(({ key, value }) => ({ key, value }))).toEqual(
+      catalog.entries.map(({ key, value }) => ({ key, value }))
+    );
+  });
+
+  it.each(['xliff', 'xliff2'])('%s keeps source texts', name => {
+    const format = CatalogFormatRegistry.get(name);
+    const parsed = format.parse(format.serialize(catalog, OPTIONS));
+
+    expect(parsed.entries.map(entry => entry.source)).toEqual(['保存', '你好, "{name}"\n欢迎回来 & 尽情享受']);
+  });
+
+  it('nests keys for structured JSON output', () => {
+    const format = CatalogFormatRegistry.get('json');
+    const content = format.serialize(catalog, { structure: 'nested', prettyJson: false });
+
+    expect(JSON.parse(content).common).toEqual({ save: 'Save' });
+    expect(format.parse(content).entries.map(entry => entry.key)).toEqual(['common.save', 'welcome']);
+  });
+
+  it('finds formats by extension and rejects unknown names', () => {
+    expect(CatalogFormatRegistry.findByExtension('.PO')?.name).toBe('po');
+    expect(CatalogFormatRegistry.findByExtension('.xlf')?.name).toBe('xliff');
+    expect(() => CatalogFormatRegistry.get('csv')).toThrow('不支持的语言文件格式: csv');
+  });
+});
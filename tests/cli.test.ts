@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { execFile } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import { createTempProject, removeTempProject } from './helpers/project.js';
+
+const TSX = path.resolve('node_modules/.bin/tsx');
+const CLI = path.resolve('src/cli.ts');
+
+const CONFIG = JSON.stringify({
+  extraction: { mode: 'ast' },
+  llm: { provider: 'openai', model: 'test-model', apiKey: 'test-key', translation: { promptTemplate: 'test' } },
+});
+
+/**
+ * 命令行运行结果
+ */
+interface CliResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * 在测试项目目录中运行命令行，CI=1 使确认提示自动跳过
+ */
+function runCli(cwd: string, args: string[]): Promise<CliResult> {
+  return new Promise(resolve => {
+    execFile(TSX, [CLI, ...args], { cwd, env: { ...process.env, CI: '1' } }, (error, stdout, stderr) => {
+      const exitCode = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+      resolve({ exitCode, stdout, stderr });
+    });
+  });
+}
+
+describe('ai-i18n extract exit codes', () => {
+  let root: string;
+
+  afterEach(async () => {
+    await removeTempProject(root);
+  });
+
+  it('exits with 0 when every file is processed', async () => {
+    root = await createTempProject({
+      'i18n.config.json': CONFIG,
+      'src/a.ts': "export const a = '你好';\n",
+    });
+
+    const { exitCode } = await runCli(root, ['extract', '-c', 'i18n.config.json', '--skip-translate']);
+
+    expect(exitCode).toBe(0);
+  }, 60000);
+
+  it('exits with 2 when some files fail', async () => {
+    root = await createTempProject({
+      'i18n.config.json': CONFIG,
+      'src/a.ts': "export const a = '你好';\n",
+      'src/broken.ts': "export const b = '未闭合;\n",
+    });
+
+    const { exitCode } = await runCli(root, ['extract', '-c', 'i18n.config.json', '--skip-translate']);
+
+    expect(exitCode).toBe(2);
+  }, 60000);
+
+  it('exits with 1 when the run fails', async () => {
+    root = await createTempProject({ 'src/a.ts': "export const a = '你好';\n" });
+
+    const { exitCode, stderr } = await runCli(root, ['extract', '-c', 'missing.json', '--skip-translate']);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('配置文件不存在');
+  }, 60000);
+});
+
+describe('ai-i18n extract --json', () => {
+  let root: string;
+
+  afterEach(async () => {
+    await removeTempProject(root);
+  });
+
+  it('prints only the report on stdout and writes the same report to --report', async () => {
+    root = await createTempProject({
+      'i18n.config.json': CONFIG,
+      'src/a.ts': "export const a = '你好';\n",
+    });
+
+    const { exitCode, stdout, stderr } = await runCli(root, [
+      'extract', '-c', 'i18n.config.json', '--skip-translate', '--json', '--report', 'reports/extract.json',
+    ]);
+    const report = JSON.parse(stdout);
+
+    expect(exitCode).toBe(0);
+    expect(report).toEqual({
+      command: 'extract',
+      success: true,
+      exitCode: 0,
+      startedAt: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      duration: expect.any(Number),
+      result: expect.objectContaining({
+        filesProcessed: 1,
+        textsExtracted: 1,
+        failedFiles: [],
+        keys: { ni_hao: '你好' },
+      }),
+    });
+    expect(await fs.readJson(path.join(root, 'reports/extract.json'))).toEqual(report);
+    // 日志以 JSON 行写入标准错误
+    for (const line of stderr.trim().split('\n')) {
+      expect(JSON.parse(line)).toEqual(expect.objectContaining({ level: expect.any(String), message: expect.any(String) }));
+    }
+  }, 60000);
+
+  it('reports the error with exit code 1 when the run fails', async () => {
+    root = await createTempProject({ 'src/a.ts': "export const a = '你好';\n" });
+
+    const { exitCode, stdout } = await runCli(root, ['extract', '-c', 'missing.json', '--json']);
+
+    expect(exitCode).toBe(1);
+    expect(JSON.parse(stdout)).toEqual({
+      command: 'extract',
+      success: false,
+      exitCode: 1,
+      startedAt: expect.any(String),
+      duration: expect.any(Number),
+      error: expect.stringContaining('配置文件不存在'),
+    });
+  }, 60000);
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import path from 'path';
+import { CheckCommand } from '../../src/commands/check.js';
+import { loadTestConfig } from '../helpers/config.js';
+import { createTempProject, removeTempProject } from '../helpers/project.js';
+
+describe('CheckCommand', () => {
+  let root: string;
+
+  afterEach(async () => {
+    await removeTempProject(root);
+  });
+
+  async function runCheck(files: Record<string, string>) {
+    root = await createTempProject(files);
+    const command = new CheckCommand(await loadTestConfig({
+      include: [`${root.split(path.sep).join('/')}/src/**/*.{ts,tsx}`],
+      replacement: { functionName: 't' },
+    }));
+    return { command, result: await command.execute() };
+  }
+
+  it('reports CJK text that is not wrapped in the translation function', async () => {
+    const { result } = await runCheck({
+      'src/App.tsx': [
+        "const done = t('common.done');",
+        "export const App = () => <button title=\"提交\">{t('common.save')}</button>;",
+      ].join('\n'),
+      'src/util.ts': "export const message = '保存成功';\n",
+    });
+
+    expect(result.filesChecked).toBe(2);
+    expect(result.errors).toEqual([]);
+    expect(result.issues.map(({ line, column, text, kind }) => ({ line, column, text, kind }))).toEqual([
+      { line: 2, column: 40, text: '提交', kind: 'jsxAttribute' },
+      { line: 1, column: 24, text: '保存成功', kind: 'string' },
+    ]);
+  });
+
+  it('records files that cannot be parsed as errors', async () => {
+    const { result } = await runCheck({ 'src/broken.ts': "const a = '未闭合;\n" });
+
+    expect(result.issues).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toContain('语法解析失败');
+  });
+
+  it('formats SARIF reports with one result per issue', async () => {
+    const { command, result } = await runCheck({ 'src/util.ts': "export const message = '保存成功';\n" });
+    const sarif = JSON.parse(command.formatReport(result, 'sarif'));
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].results).toHaveLength(1);
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation.region).toEqual({ startLine: 1, startColumn: 24 });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import path from 'path';
+import { LintCatalogCommand } from '../../src/commands/lint-catalog.js';
+import { loadTestConfig } from '../helpers/config.js';
+import { createTempProject, removeTempProject } from '../helpers/project.js';
+
+describe('LintCatalogCommand', () => {
+  let root: string;
+
+  afterEach(async () => {
+    await removeTempProject(root);
+  });
+
+  it('reports missing, unused, orphaned, untranslated and placeholder issues', async () => {
+    root = await createTempProject({
+      'src/App.tsx': [
+        "t('home.title');",
+        "t('home.greeting', { name });",
+        "t('home.missing');",
+        "helper.t('home.unusedByMember');",
+      ].join('\n'),
+      'locales/zh-CN.json': JSON.stringify({
+        'home.title': '首页',
+        'home.greeting': '你好, {name}',
+        'home.missing': '缺失',
+        'home.unusedByMember': '未使用',
+      }),
+      'locales/en-US.json': JSON.stringify({
+        'home.title': '首页',
+        'home.greeting': 'Hello, {user}',
+        'home.orphan': 'Orphan',
+      }),
+    });
+
+    const normalizedRoot = root.split(path.sep).join('/');
+    const command = new LintCatalogCommand(await loadTestConfig({
+      include: [`${normalizedRoot}/src/**/*.tsx`],
+      outputDir: `${normalizedRoot}/locales`,
+      replacement: { functionName: 't' },
+    }));
+    const result = await command.execute();
+
+    expect(result.locales).toEqual(['zh-CN', 'en-US']);
+    expect(result.issues.map(({ type, key, locale }) => `${type} ${locale} ${key}`)).toEqual([
+      'unused zh-CN home.unusedByMember',
+      'missing en-US home.missing',
+      'untranslated en-US home.title',
+      'placeholder en-US home.greeting',
+      'orphaned en-US home.orphan',
+    ]);
+    expect(command.formatReport(result)).toContain('源码中未使用的key (1):');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RollbackCommand } from '../../src/commands/rollback.js';
+import { DEFAULT_CACHE_DIR } from '../../src/config/defaults.js';
+import { RunBackup, BackupFileSystem } from '../../src/utils/run-backup.js';
+import { MemoryFileSystem } from '../../src/utils/file-system.js';
+
+describe('RollbackCommand', () => {
+  let fileSystem: MemoryFileSystem;
+
+  beforeEach(async () => {
+    fileSystem = new MemoryFileSystem();
+    await fileSystem.writeFile('src/App.tsx', "const title = '标题';");
+  });
+
+  /**
+   * 模拟一次提取运行：改写源文件并新建语言文件
+   */
+  async function simulateRun(): Promise<string | null> {
+    const backup = new RunBackup(DEFAULT_CACHE_DIR, fileSystem);
+    const runFileSystem = new BackupFileSystem(fileSystem, backup);
+
+    await backup.begin();
+    await runFileSystem.writeFile('src/App.tsx', "const title = t('title');");
+    await runFileSystem.writeFile('src/locales/zh-CN.json', '{"title":"标题"}');
+    return backup.complete();
+  }
+
+  it('restores modified files and removes files created by the run', async () => {
+    const runId = await simulateRun();
+    const result = await new RollbackCommand(fileSystem).execute();
+
+    expect(result.run.runId).toBe(runId);
+    expect(result.overwritten).toEqual([]);
+    expect(await fileSystem.readFile('src/App.tsx')).toBe("const title = '标题';");
+    expect(await fileSystem.pathExists('src/locales/zh-CN.json')).toBe(false);
+  });
+
+  it('refuses to overwrite files changed after the run unless forced', async () => {
+    await simulateRun();
+    await fileSystem.writeFile('src/App.tsx', "const title = t('title'); // edited");
+    const command = new RollbackCommand(fileSystem);
+
+    await expect(command.execute()).rejects.toThrow('使用 --force 强制回滚');
+
+    const result = await command.execute({ force: true });
+    expect(result.overwritten).toEqual(['src/App.tsx']);
+    expect(await fileSystem.readFile('src/App.tsx')).toBe("const title = '标题';");
+  });
+
+  it('does not roll back the same run twice', async () => {
+    const runId = await simulateRun();
+    const command = new RollbackCommand(fileSystem);
+    await command.execute();
+
+    await expect(command.execute()).rejects.toThrow('没有可回滚的运行记录');
+    await expect(command.execute({ runId: runId as string })).rejects.toThrow(`运行 ${runId} 已于`);
+  });
+
+  it('does not keep runs that changed nothing', async () => {
+    const backup = new RunBackup(DEFAULT_CACHE_DIR, fileSystem);
+    await backup.begin();
+    await new BackupFileSystem(fileSystem, backup).writeFile('src/App.tsx', "const title = '标题';");
+
+    expect(await backup.complete()).toBeNull();
+    expect(await backup.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import { TranslateCommand } from '../../src/commands/translate.js';
+import { FileProcessor } from '../../src/processor/processor.js';
+import { LLMClient } from '../../src/llm/client.js';
+import { loadTestConfig } from '../helpers/config.js';
+import { createTempProject, removeTempProject } from '../helpers/project.js';
+
+describe('TranslateCommand', () => {
+  const originalCwd = process.cwd();
+  let root: string;
+  let requests: Array<{ texts: Record<string, string>; language: string; plurals: Record<string, string[]> }>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    requests = [];
+    vi.spyOn(LLMClient.prototype, 'batchTranslateTexts').mockImplementation(async (texts, language = '', plurals = {}) => {
+      requests.push({ texts, language, plurals });
+      return { translations: { ...texts }, unresolved: [] };
+    });
+
+    root = await createTempProject({
+      'src/stats.ts': [
+        'export const done = (a: number, b: number) => `已完成 ${a - b}`;',
+        'export const files = (count: number) => `共${count}个文件`;',
+        "export const title = '标题';",
+      ].join('\n'),
+    });
+    // 运行记录和缓存目录相对于当前工作目录
+    process.chdir(root);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    process.chdir(originalCwd);
+    await removeTempProject(root);
+  });
+
+  it('requests the same plural placeholders as extract for the same texts', async () => {
+    const config = await loadTestConfig({
+      extraction: { mode: 'ast' },
+      replacement: { functionName: 't' },
+      targetLanguages: ['en-US'],
+    });
+
+    await new FileProcessor(config).processAll();
+    const [extractRequest] = requests;
+
+    // 删除译文后单独翻译，应得到与提取时相同的请求
+    await fs.remove('src/locales/en-US.json');
+    await fs.remove('src/locales/.en-US.source-hash.json');
+    requests = [];
+    await new TranslateCommand(config).execute({});
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toEqual(extractRequest);
+    expect(Object.values(extractRequest.plurals)).toEqual(expect.arrayContaining([['value0'], ['count']]));
+  });
+
+  it('translates only missing keys and keys whose source text changed', async () => {
+    const command = new TranslateCommand(await loadTestConfig({ targetLanguages: ['en-US'] }));
+    await fs.outputJson('src/locales/zh-CN.json', { title: '标题', save: '保存' });
+
+    await command.execute({});
+    await fs.outputJson('src/locales/zh-CN.json', { title: '新标题', save: '保存', cancel: '取消' });
+    await command.execute({});
+    await command.execute({});
+
+    expect(requests.map(request => request.texts)).toEqual([
+      { title: '标题', save: '保存' },
+      { title: '新标题', cancel: '取消' },
+    ]);
+    expect(await fs.readJson('src/locales/en-US.json')).toEqual({ title: '新标题', save: '保存', cancel: '取消' });
+    expect(Object.keys(await fs.readJson('src/locales/.en-US.source-hash.json'))).toEqual(['title', 'save', 'cancel']);
+  });
+
+  it('writes one file per target language', async () => {
+    const command = new TranslateCommand(await loadTestConfig({ targetLanguages: ['en-US', 'ja-JP'] }));
+    await fs.outputJson('src/locales/zh-CN.json', { title: '标题' });
+
+    const results = await command.execute({});
+
+    expect(results.map(result => result.language)).toEqual(['en-US', 'ja-JP']);
+    expect(requests.map(request => request.language)).toEqual(['en-US', 'ja-JP']);
+    expect(await fs.readJson('src/locales/en-US.json')).toEqual({ title: '标题' });
+    expect(await fs.readJson('src/locales/ja-JP.json')).toEqual({ title: '标题' });
+  });
+
+  it('translates only the languages passed with --target', async () => {
+    const command = new TranslateCommand(await loadTestConfig({ targetLanguages: ['en-US', 'ja-JP'] }));
+    await fs.outputJson('src/locales/zh-CN.json', { title: '标题' });
+
+    await command.execute({ target: 'ko-KR, fr-FR' });
+
+    expect(requests.map(request => request.language)).toEqual(['ko-KR', 'fr-FR']);
+    expect(await fs.pathExists('src/locales/en-US.json')).toBe(false);
+    await expect(command.execute({ target: 'ko-KR,fr-FR', output: 'out.json' }))
+      .rejects.toThrow('指定输出路径时只能翻译到一个目标语言');
+  });
+});
@@ -0,0 +1,21 @@
+import { ConfigManager } from '../../src/config/manager.js';
+import type { I18nConfig } from '../../src/config/types.js';
+import { MemoryFileSystem } from '../../src/utils/file-system.js';
+
+/**
+ * 通过 ConfigManager 加载测试配置，与命令行一样合并默认配置和框架预设并校验
+ */
+export async function loadTestConfig(userConfig: Record<string, unknown> = {}): Promise<I18nConfig> {
+  const fileSystem = new MemoryFileSystem();
+  await fileSystem.writeFile('/project/i18n.config.json', JSON.stringify({
+    llm: {
+      provider: 'openai',
+      model: 'test-model',
+      apiKey: 'test-key',
+      translation: { promptTemplate: 'test' },
+    },
+    ...userConfig,
+  }));
+
+  return new ConfigManager(fileSystem).loadConfig('/project/i18n.config.json');
+}
@@ -0,0 +1,23 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+/**
+ * 在系统临时目录中创建测试项目，files 为相对路径到文件内容的映射
+ */
+export async function createTempProject(files: Record<string, string>): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-i18n-test-'));
+
+  for (const [relativePath, content] of Object.entries(files)) {
+    await fs.outputFile(path.join(root, relativePath), content);
+  }
+
+  return root;
+}
+
+/**
+ * 删除测试项目
+ */
+export async function removeTempProject(root: string): Promise<void> {
+  await fs.remove(root);
+}
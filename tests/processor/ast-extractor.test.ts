@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { AstTextExtractor } from '../../src/processor/ast-extractor.js';
+import { loadTestConfig } from '../helpers/config.js';
+
+async function createExtractor(replacement: Record<string, unknown> = {}): Promise<AstTextExtractor> {
+  return new AstTextExtractor(await loadTestConfig({ extraction: { mode: 'ast' }, replacement }));
+}
+
+describe('AstTextExtractor', () => {
+  it('extracts string literals and JSX text', async () => {
+    const extractor = await createExtractor();
+    const result = extractor.extract([
+      "const title = '标题';",
+      'export const View = () => <div>你好</div>;',
+    ].join('\n'), '.tsx');
+
+    expect(Object.values(result.extractedTexts)).toEqual(['标题', '你好']);
+    expect(result.transformedCode).toBe([
+      "const title = $t('__I18N_1__');",
+      "export const View = () => <div>{$t('__I18N_2__')}</div>;",
+    ].join('\n'));
+  });
+
+  it('skips imports, object keys, types and console calls', async () => {
+    const extractor = await createExtractor();
+    const candidates = extractor.collectCandidates([
+      "import icon from './图标.png';",
+      "type Status = '启用' | '停用';",
+      "const map = { '键': 1 };",
+      "console.log('调试');",
+    ].join('\n'), '.ts');
+
+    expect(candidates).toEqual([]);
+  });
+
+  it('skips lines marked with the ignore comment', async () => {
+    const extractor = await createExtractor();
+    const candidates = extractor.collectCandidates([
+      "const a = '保留'; // ai-i18n-ignore",
+      '// ai-i18n-ignore',
+      "const b = '也保留';",
+      "const c = '提取';",
+    ].join('\n'), '.ts');
+
+    expect(candidates.map(candidate => candidate.text)).toEqual(['提取']);
+  });
+
+  it('does not rewrite equality operands, switch cases or decorator arguments', async () => {
+    const extractor = await createExtractor();
+    const candidates = extractor.collectCandidates([
+      "if (role === '管理员' || '访客' != role || role == `超级`) {}",
+      "switch (status) { case '启用': break; }",
+      "@Component({ title: '装饰器' })",
+      'class Page {}',
+      "const label = role === '管理员' ? '是' : '否';",
+    ].join('\n'), '.ts');
+
+    expect(candidates.map(candidate => candidate.text)).toEqual(['是', '否']);
+  });
+
+  it('does not rewrite computed member keys', async () => {
+    const extractor = await createExtractor();
+    const candidates = extractor.collectCandidates([
+      "const a = obj['中文键'];",
+      "const b = obj?.['可选键'];",
+      "obj[`模板键`] = '值';",
+    ].join('\n'), '.ts');
+
+    expect(candidates.map(candidate => candidate.text)).toEqual(['值']);
+  });
+
+  it('extracts Vue template text and static attributes', async () => {
+    const extractor = await createExtractor({ framework: 'vue-i18n' });
+    const result = extractor.extract([
+      '<template>',
+      '  <input placeholder="请输入" />',
+      '  <p>欢迎</p>',
+      '</template>',
+    ].join('\n'), '.vue');
+
+    expect(result.transformedCode).toContain(":placeholder=\"$t('__I18N_1__')\"");
+    expect(result.transformedCode).toContain("<p>{{ $t('__I18N_2__') }}</p>");
+  });
+
+  it('turns template literal and concatenation expressions into named placeholders', async () => {
+    const extractor = await createExtractor({ functionName: 't', placeholderSyntax: '{x}' });
+    const result = extractor.extract([
+      'const a = `你好, ${user.name}!`;',
+      "const b = '共' + items.length + '条';",
+      "const c = count + 1 + '个文件';",
+    ].join('\n'), '.ts');
+
+    expect(result.extractedTexts).toEqual({
+      __I18N_1__: '你好, {name}!',
+      __I18N_2__: '共{length}条',
+      __I18N_3__: '{value0}个文件',
+    });
+    expect(result.transformedCode).toBe([
+      "const a = t('__I18N_1__', { name: user.name });",
+      "const b = t('__I18N_2__', { length: items.length });",
+      "const c = t('__I18N_3__', { value0: count + 1 });",
+    ].join('\n'));
+    expect(result.numericPlaceholders).toEqual({ __I18N_2__: ['length'], __I18N_3__: ['value0'] });
+  });
+
+  it('passes positional placeholders as an array', async () => {
+    const extractor = await createExtractor({ functionName: 't', placeholderSyntax: '%s' });
+    const result = extractor.extract('const a = `${first}和${second}`;', '.ts');
+
+    expect(result.extractedTexts).toEqual({ __I18N_1__: '%s和%s' });
+    expect(result.transformedCode).toBe("const a = t('__I18N_1__', [first, second]);");
+  });
+
+  it('extracts JSX children with inline tags as one rich-text message', async () => {
+    const extractor = await createExtractor({ framework: 'react-i18next', richText: { enabled: true } });
+    const result = extractor.extract(
+      'export const A = () => <p>点击<a href="/x">这里</a>查看{name}的详情</p>;',
+      '.tsx',
+      'src/A.tsx'
+    );
+
+    expect(result.extractedTexts).toEqual({ __I18N_1__: '点击<0>这里</0>查看{{name}}的详情' });
+    expect(result.transformedCode).toBe(
+      'export const A = () => <p><Trans i18nKey="__I18N_1__" components={[<a href="/x" />]} values={{ name }} /></p>;'
+    );
+  });
+
+  it('names rich-text tags after their elements with tagStyle named', async () => {
+    const extractor = await createExtractor({ framework: 'react-i18next', richText: { enabled: true, tagStyle: 'named' } });
+    const result = extractor.extract('export const A = () => <p>点击<a href="/x">这里</a>查看详情</p>;', '.tsx', 'src/A.tsx');
+
+    expect(result.extractedTexts).toEqual({ __I18N_1__: '点击<a>这里</a>查看详情' });
+    expect(result.transformedCode).toContain('components={{ a: <a href="/x" /> }}');
+  });
+});
+
+describe('AstTextExtractor preset call forms', () => {
+  it('uses this.translate.instant only inside members of classes that can have the service', async () => {
+    const extractor = await createExtractor({ framework: 'angular' });
+    const result = extractor.extract([
+      "const TITLE = '模块标题';",
+      "@Component({ selector: 'app-root', template: '<p>模板</p>' })",
+      'export class AppComponent {',
+      "  label = '标签';",
+      "  static title = '静态';",
+      '}',
+      'class Plain {',
+      "  run() { return '普通类'; }",
+      '}',
+    ].join('\n'), '.ts', 'src/app/app.component.ts');
+
+    expect(Object.values(result.extractedTexts)).toEqual(['标签']);
+    expect(result.transformedCode).toContain("label = this.translate.instant('__I18N_2__');");
+    expect(result.transformedCode).toContain("const TITLE = '模块标题';");
+    expect(result.warnings).toEqual([
+      '第 1 行的 "模块标题" 不在组件、setup() 或类成员中，没有可用的翻译函数调用形式，已跳过（可配置 replacement.instance）',
+      '第 5 行的 "静态" 不在组件、setup() 或类成员中，没有可用的翻译函数调用形式，已跳过（可配置 replacement.instance）',
+      '第 8 行的 "普通类" 不在组件、setup() 或类成员中，没有可用的翻译函数调用形式，已跳过（可配置 replacement.instance）',
+    ]);
+  });
+
+  it('uses the setup form inside setup() of a Vue Options API component', async () => {
+    const extractor = await createExtractor({ framework: 'vue-i18n' });
+    const result = extractor.extract([
+      '<script>',
+      'export default {',
+      "  setup() { return { msg: ref('你好') }; },",
+      "  methods: { go() { alert('方法'); } },",
+      '};',
+      '</script>',
+    ].join('\n'), '.vue', 'src/App.vue');
+
+    expect(result.transformedCode).toContain("ref(t('__I18N_1__'))");
+    expect(result.transformedCode).toContain("alert(this.$t('__I18N_2__'))");
+  });
+
+  it('skips next-intl texts outside components and hooks when no instance is configured', async () => {
+    const extractor = await createExtractor({ framework: 'next-intl' });
+    const code = [
+      "export const LABEL = '常量';",
+      "export function useTitle() { return '标题'; }",
+    ].join('\n');
+
+    const result = extractor.extract(code, '.ts', 'src/lib/title.ts');
+    expect(Object.values(result.extractedTexts)).toEqual(['标题']);
+    expect(result.transformedCode).toContain("export const LABEL = '常量';");
+    expect(result.warnings).toHaveLength(1);
+
+    // check 命令仍然报告跳过的文本
+    expect(extractor.collectCandidates(code, '.ts', 'src/lib/title.ts').map(candidate => candidate.text))
+      .toEqual(['常量', '标题']);
+  });
+});
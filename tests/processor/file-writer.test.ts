@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { FileWriter } from '../../src/processor/file-writer.js';
+import { LocaleFileLayout } from '../../src/utils/locale-layout.js';
+import { MemoryFileSystem } from '../../src/utils/file-system.js';
+import { loadTestConfig } from '../helpers/config.js';
+import { createTempProject, removeTempProject } from '../helpers/project.js';
+
+const LOCALE_FILE = '/project/locales/zh-CN.json';
+
+describe('FileWriter locale merging', () => {
+  let fileSystem: MemoryFileSystem;
+  let writer: FileWriter;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fileSystem = new MemoryFileSystem();
+    writer = new FileWriter(await loadTestConfig({ outputDir: '/project/locales' }), fileSystem);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function readLocaleFile(filePath: string = LOCALE_FILE): Promise<Record<string, string>> {
+    return JSON.parse(await fileSystem.readFile(filePath));
+  }
+
+  it('adds new keys and keeps existing texts on conflict', async () => {
+    await fileSystem.writeFile(LOCALE_FILE, JSON.stringify({ hello: '你好', title: '标题' }));
+
+    const [result] = await writer.writeLocalizationFiles({ title: '新标题', save: '保存' });
+
+    expect(await readLocaleFile()).toEqual({ hello: '你好', title: '标题', save: '保存' });
+    expect(result.merge).toEqual({
+      added: 1,
+      pruned: [],
+      conflicts: [{ key: 'title', existingText: '标题', incomingText: '新标题' }],
+    });
+  });
+
+  it('prunes keys that are no longer referenced', async () => {
+    await fileSystem.writeFile(LOCALE_FILE, JSON.stringify({ hello: '你好', unused: '未使用' }));
+
+    const [result] = await writer.writeLocalizationFiles({ save: '保存' }, { referencedKeys: new Set(['hello']) });
+
+    expect(await readLocaleFile()).toEqual({ hello: '你好', save: '保存' });
+    expect(result.merge?.pruned).toEqual(['unused']);
+  });
+});
+
+describe('FileWriter nested output', () => {
+  let fileSystem: MemoryFileSystem;
+  let writer: FileWriter;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fileSystem = new MemoryFileSystem();
+    writer = new FileWriter(await loadTestConfig({
+      outputDir: '/project/locales',
+      output: { structure: 'nested' },
+    }), fileSystem);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('merges flat keys into an existing nested file and reads them back flat', async () => {
+    await fileSystem.writeFile(LOCALE_FILE, JSON.stringify({ home: { title: '首页' } }));
+
+    await writer.writeLocalizationFiles({ 'home.welcome': '欢迎', 'user.name': '用户名' });
+
+    expect(JSON.parse(await fileSystem.readFile(LOCALE_FILE))).toEqual({
+      home: { title: '首页', welcome: '欢迎' },
+      user: { name: '用户名' },
+    });
+    expect(await writer.readLocale('zh-CN')).toEqual({
+      'home.title': '首页',
+      'home.welcome': '欢迎',
+      'user.name': '用户名',
+    });
+  });
+});
+
+describe('FileWriter namespace files', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // 按命名空间拆分时通过 glob 查找已有语言文件，使用真实目录
+    root = await createTempProject({ 'locales/zh-CN/home.json': JSON.stringify({ title: '首页' }) });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await removeTempProject(root);
+  });
+
+  it('splits keys into one file per namespace and reads them back with the prefix', async () => {
+    const config = await loadTestConfig({
+      outputDir: path.join(root, 'locales'),
+      output: { localeFileName: '{locale}/{namespace}.json' },
+    });
+    const writer = new FileWriter(config);
+
+    await writer.writeLocalizationFiles(
+      { 'home.welcome': '欢迎', 'common.ok': '确定' },
+      { namespaces: { 'home.welcome': 'home', 'common.ok': 'common' } }
+    );
+
+    expect(await fs.readJson(path.join(root, 'locales/zh-CN/home.json'))).toEqual({ title: '首页', welcome: '欢迎' });
+    expect(await fs.readJson(path.join(root, 'locales/zh-CN/common.json'))).toEqual({ ok: '确定' });
+    expect(await writer.readLocale('zh-CN')).toEqual({
+      'common.ok': '确定',
+      'home.title': '首页',
+      'home.welcome': '欢迎',
+    });
+    expect((await new LocaleFileLayout(config).listFiles('zh-CN')).map(entry => entry.namespace)).toEqual(['common', 'home']);
+  });
+});
+
+describe('FileWriter pending translations', () => {
+  let fileSystem: MemoryFileSystem;
+  let writer: FileWriter;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fileSystem = new MemoryFileSystem();
+    writer = new FileWriter(await loadTestConfig({ outputDir: '/project/locales' }), fileSystem);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns only missing keys and keys whose source text changed', async () => {
+    await writer.writeTranslationFile('en-US', { hello: 'Hello', title: 'Title' }, {
+      sourceTexts: { hello: '你好', title: '标题' },
+    });
+
+    const pending = await writer.collectPendingTranslations('en-US', {
+      hello: '你好',
+      title: '新标题',
+      save: '保存',
+    });
+
+    expect(pending).toEqual({ title: '新标题', save: '保存' });
+  });
+
+  it('overwrites stale translations and records the new source hashes', async () => {
+    await writer.writeTranslationFile('en-US', { title: 'Title' }, { sourceTexts: { title: '标题' } });
+    await writer.writeTranslationFile('en-US', { title: 'New title' }, { sourceTexts: { title: '新标题' } });
+
+    expect(JSON.parse(await fileSystem.readFile('/project/locales/en-US.json'))).toEqual({ title: 'New title' });
+    expect(await writer.collectPendingTranslations('en-US', { title: '新标题' })).toEqual({});
+  });
+});
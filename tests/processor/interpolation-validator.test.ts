@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { InterpolationValidator } from '../../src/processor/interpolation-validator.js';
+import { loadTestConfig } from '../helpers/config.js';
+
+async function createValidator(): Promise<InterpolationValidator> {
+  return new InterpolationValidator(await loadTestConfig({
+    replacement: { functionName: 't', placeholderSyntax: '{x}' },
+  }));
+}
+
+describe('InterpolationValidator', () => {
+  const sourceCode = 'const a = `你好, ${user.name}!`;';
+
+  it('accepts calls that pass every placeholder from the original code', async () => {
+    const validator = await createValidator();
+    const issues = validator.validate(
+      sourceCode,
+      "const a = t('__I18N_1__', { name: user.name });",
+      { __I18N_1__: '你好, {name}!' },
+      '.ts'
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it('reports calls with missing placeholder arguments', async () => {
+    const validator = await createValidator();
+    const issues = validator.validate(
+      sourceCode,
+      "const a = t('__I18N_1__');",
+      { __I18N_1__: '你好, {name}!' },
+      '.ts'
+    );
+
+    expect(issues).toEqual([
+      { key: '__I18N_1__', reason: '占位符 name 缺少对应的参数，文本: "你好, {name}!"' },
+      { key: '__I18N_1__', reason: '第 1 行的插值表达式 user.name 未保留在调用参数中' },
+    ]);
+  });
+
+  it('reports arguments whose expressions do not come from the original code', async () => {
+    const validator = await createValidator();
+    const issues = validator.validate(
+      sourceCode,
+      "const a = t('__I18N_1__', { name: other });",
+      { __I18N_1__: '你好, {name}!' },
+      '.ts'
+    );
+
+    expect(issues.map(issue => issue.reason)).toContain('参数 name 的表达式 other 在原始代码中不存在，文本: "你好, {name}!"');
+  });
+
+  it('reports texts with placeholders that have no translation call', async () => {
+    const validator = await createValidator();
+    const issues = validator.validate(sourceCode, sourceCode, { __I18N_1__: '你好, {name}!' }, '.ts');
+
+    expect(issues).toEqual([
+      { key: '__I18N_1__', reason: '文本 "你好, {name}!" 包含占位符，但代码中没有对应的翻译函数调用' },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import { FileProcessor } from '../../src/processor/processor.js';
+import { FileWriter } from '../../src/processor/file-writer.js';
+import { LLMClient } from '../../src/llm/client.js';
+import { loadTestConfig } from '../helpers/config.js';
+import { createTempProject, removeTempProject } from '../helpers/project.js';
+
+describe('FileProcessor', () => {
+  const originalCwd = process.cwd();
+  let root: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    root = await createTempProject({
+      'src/App.tsx': "export const App = () => <h1>欢迎</h1>;\n",
+    });
+    // 运行记录和备份目录相对于当前工作目录
+    process.chdir(root);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    process.chdir(originalCwd);
+    await removeTempProject(root);
+  });
+
+  async function createProcessor(config: Record<string, unknown> = {}): Promise<FileProcessor> {
+    return new FileProcessor(await loadTestConfig({
+      extraction: { mode: 'ast' },
+      replacement: { functionName: 't' },
+      ...config,
+    }));
+  }
+
+  it('previews extracted keys and code diffs without writing files', async () => {
+    const [preview] = await (await createProcessor()).previewAll();
+
+    expect(preview.success).toBe(true);
+    expect(Object.values(preview.extractedTexts)).toEqual(['欢迎']);
+    const [key] = Object.keys(preview.extractedTexts);
+    expect(preview.diff).toBe([
+      `--- a/${preview.relativePath}`,
+      `+++ b/${preview.relativePath}`,
+      '@@ -1,2 +1,2 @@',
+      '-export const App = () => <h1>欢迎</h1>;',
+      `+export const App = () => <h1>{t('${key}')}</h1>;`,
+      ' ',
+    ].join('\n'));
+    expect(await fs.readFile('src/App.tsx', 'utf-8')).toBe("export const App = () => <h1>欢迎</h1>;\n");
+    expect(await fs.pathExists('src/locales')).toBe(false);
+    expect(await fs.pathExists('.ai-i18n-cache')).toBe(false);
+  });
+
+  it('reuses keys from the existing source locale file', async () => {
+    await fs.outputJson('src/locales/zh-CN.json', { 'home.welcome': '欢迎' });
+
+    const stats = await (await createProcessor()).processAll({ skipTranslate: true });
+
+    expect(stats.keysAdded).toBe(0);
+    expect(await fs.readFile('src/App.tsx', 'utf-8')).toBe("export const App = () => <h1>{t('home.welcome')}</h1>;\n");
+    expect(await fs.readJson('src/locales/zh-CN.json')).toEqual({ 'home.welcome': '欢迎' });
+  });
+
+  it('translates extracted texts into every target language', async () => {
+    vi.spyOn(LLMClient.prototype, 'batchTranslateTexts').mockImplementation(async (texts, language) => ({
+      translations: Object.fromEntries(Object.keys(texts).map(key => [key, `${language}:${texts[key]}`])),
+      unresolved: [],
+    }));
+
+    const stats = await (await createProcessor({ targetLanguages: ['en-US', 'ja-JP'] })).processAll();
+
+    expect(stats.translations.map(({ language, translated }) => ({ language, translated }))).toEqual([
+      { language: 'en-US', translated: 1 },
+      { language: 'ja-JP', translated: 1 },
+    ]);
+    expect(Object.values(await fs.readJson('src/locales/en-US.json'))).toEqual(['en-US:欢迎']);
+    expect(Object.values(await fs.readJson('src/locales/ja-JP.json'))).toEqual(['ja-JP:欢迎']);
+  });
+
+  it('skips unchanged files on the next --changed run after a successful run', async () => {
+    await (await createProcessor()).processAll({ skipTranslate: true });
+
+    const stats = await (await createProcessor()).processAll({ skipTranslate: true, changed: true });
+
+    expect(stats.filesProcessed).toBe(0);
+    expect(stats.filesSkipped).toBe(1);
+  });
+
+  it('does not record the run when writing locale files fails', async () => {
+    vi.spyOn(FileWriter.prototype, 'writeLocalizationFiles').mockRejectedValueOnce(new Error('磁盘已满'));
+
+    await expect((await createProcessor()).processAll({ skipTranslate: true })).rejects.toThrow('磁盘已满');
+
+    const stats = await (await createProcessor()).processAll({ skipTranslate: true, changed: true });
+
+    expect(stats.filesProcessed).toBe(1);
+    expect(stats.filesSkipped).toBe(0);
+  });
+});
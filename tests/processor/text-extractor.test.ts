@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TextExtractor } from '../../src/processor/text-extractor.js';
+import { TemplateManager } from '../../src/templates/manager.js';
+import type { LLMClient } from '../../src/llm/client.js';
+import type { ScanResult } from '../../src/scanner/types.js';
+import { loadTestConfig } from '../helpers/config.js';
+
+const file: ScanResult = {
+  filePath: '/project/src/labels.ts',
+  fileType: '.ts',
+  relativePath: 'src/labels.ts',
+  size: 0,
+  mtime: new Date(0),
+};
+
+describe('TextExtractor hybrid mode', () => {
+  it('rewrites only the candidates the model classifies as user-facing', async () => {
+    const classifyCandidates = vi.fn(async (_prompt: string) => ({ userFacing: ['__I18N_2__'] }));
+    const client = { classifyCandidates } as unknown as LLMClient;
+    const extractor = new TextExtractor(
+      await loadTestConfig({ extraction: { mode: 'hybrid' }, replacement: { functionName: 't' } }),
+      () => client,
+      new TemplateManager()
+    );
+
+    const result = await extractor.extractFromFile(file, [
+      "const storageKey = '缓存键';",
+      "export const title = '标题';",
+    ].join('\n'));
+
+    const [prompt] = classifyCandidates.mock.calls[0];
+    expect(prompt).toContain('"id": "__I18N_1__"');
+    expect(prompt).toContain('"text": "缓存键"');
+    expect(result.extractedTexts).toEqual({ __I18N_2__: '标题' });
+    expect(result.transformedCode).toBe([
+      "const storageKey = '缓存键';",
+      "export const title = t('__I18N_2__');",
+    ].join('\n'));
+  });
+
+  it('does not call the model when there are no candidates', async () => {
+    const classifyCandidates = vi.fn();
+    const extractor = new TextExtractor(
+      await loadTestConfig({ extraction: { mode: 'hybrid' } }),
+      () => ({ classifyCandidates }) as unknown as LLMClient,
+      new TemplateManager()
+    );
+
+    const result = await extractor.extractFromFile(file, "export const title = 'title';");
+
+    expect(classifyCandidates).not.toHaveBeenCalled();
+    expect(result).toEqual({ extractedTexts: {}, transformedCode: "export const title = 'title';" });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TypingsWriter } from '../../src/processor/typings-writer.js';
+import { MemoryFileSystem } from '../../src/utils/file-system.js';
+import { loadTestConfig } from '../helpers/config.js';
+
+const HEADER = '// 此文件由 ai-i18n 根据源语言文件自动生成，请勿手动修改';
+
+/**
+ * 使用指定的 output.typings 配置创建类型定义写入器
+ */
+async function createWriter(typings: Record<string, unknown>, fileSystem?: MemoryFileSystem): Promise<TypingsWriter> {
+  return new TypingsWriter(await loadTestConfig({ output: { typings: { enabled: true, ...typings } } }), fileSystem);
+}
+
+describe('TypingsWriter', () => {
+  it('generates a sorted, deduplicated key union for .d.ts files', async () => {
+    const writer = await createWriter({ outputFile: 'src/i18n-keys.d.ts' });
+
+    expect(writer.generate(['home.title', "it's", 'common.ok', 'home.title'])).toBe([
+      HEADER,
+      '',
+      'export type I18nKey =',
+      "  | 'common.ok'",
+      "  | 'home.title'",
+      "  | 'it\\'s';",
+      '',
+    ].join('\n'));
+  });
+
+  it('generates a key constant and i18next augmentation for .ts files', async () => {
+    const writer = await createWriter({ outputFile: 'src/i18n-keys.ts', framework: 'i18next' });
+    const content = writer.generate(['ok', 'home.title']);
+
+    expect(content).toContain("import 'i18next';");
+    expect(content).toContain("export const I18N_KEYS = [\n  'home.title',\n  'ok',\n] as const;");
+    expect(content).toContain("export interface I18nMessages {\n  'home.title': string;\n  ok: string;\n}");
+    // 扁平结构的key包含点号时需关闭 keySeparator
+    expect(content).toContain('    keySeparator: false;');
+  });
+
+  it('nests message types for vue-i18n', async () => {
+    const writer = await createWriter({ framework: 'vue-i18n' });
+    const content = writer.generate(['home.title', 'ok']);
+
+    expect(content).toContain('export interface I18nMessages {\n  home: {\n    title: string;\n  };\n  ok: string;\n}');
+    expect(content).toContain('export interface DefineLocaleMessage extends I18nMessages {}');
+  });
+
+  it('does not rewrite the file when the keys are unchanged', async () => {
+    const fileSystem = new MemoryFileSystem();
+    const writer = await createWriter({ outputFile: '/project/src/i18n-keys.d.ts' }, fileSystem);
+
+    await writer.write(['ok']);
+    const writeSpy = vi.spyOn(fileSystem, 'writeFile');
+    const result = await writer.write(['ok']);
+
+    expect(result.success).toBe(true);
+    expect(writeSpy).not.toHaveBeenCalled();
+    expect(await fileSystem.readFile('/project/src/i18n-keys.d.ts')).toContain("| 'ok';");
+  });
+});
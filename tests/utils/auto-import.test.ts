@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { AutoImportManager } from '../../src/utils/auto-import.js';
+import { loadTestConfig } from '../helpers/config.js';
+
+async function createManager(framework: string): Promise<AutoImportManager> {
+  const config = await loadTestConfig({ replacement: { framework } });
+  return new AutoImportManager(config.replacement.autoImport);
+}
+
+/**
+ * 与代码转换器相同的顺序：先注入 hook，再添加导入
+ */
+function applyAutoImport(manager: AutoImportManager, code: string, filePath: string): string {
+  let result = manager.injectHooks(code, filePath);
+  const { hookStatement, hookPosition, importStatement, insertPosition } = manager.processAutoImport(result, filePath);
+
+  if (hookStatement && hookPosition !== undefined) {
+    result = manager.insertImportStatement(result, hookStatement, hookPosition);
+  }
+  if (importStatement && insertPosition !== undefined) {
+    result = manager.insertImportStatement(result, importStatement, insertPosition);
+  }
+
+  return result;
+}
+
+describe('AutoImportManager with framework presets', () => {
+  it('injects useI18n into setup() of a Vue Options API component', async () => {
+    const manager = await createManager('vue-i18n');
+    const code = [
+      '<template><p>{{ msg }}</p></template>',
+      '<script>',
+      "import { ref } from 'vue';",
+      '',
+      'export default {',
+      '  setup() {',
+      "    return { msg: ref(t('hello')) };",
+      '  },',
+      '};',
+      '</script>',
+    ].join('\n');
+
+    expect(applyAutoImport(manager, code, 'src/App.vue')).toBe([
+      '<template><p>{{ msg }}</p></template>',
+      '<script>',
+      "import { ref } from 'vue';",
+      "import { useI18n } from 'vue-i18n';",
+      '',
+      'export default {',
+      '  setup() {',
+      '    const { t } = useI18n();',
+      "    return { msg: ref(t('hello')) };",
+      '  },',
+      '};',
+      '</script>',
+    ].join('\n'));
+  });
+
+  it('injects TranslateService into Angular components and imports only what is missing', async () => {
+    const manager = await createManager('angular');
+    const code = [
+      "import { Component, inject } from '@angular/core';",
+      '',
+      "@Component({ selector: 'app-root' })",
+      'export class AppComponent {',
+      "  label = this.translate.instant('label');",
+      '}',
+    ].join('\n');
+
+    expect(applyAutoImport(manager, code, 'src/app/app.component.ts')).toBe([
+      "import { Component, inject } from '@angular/core';",
+      "import { TranslateService } from '@ngx-translate/core';",
+      '',
+      "@Component({ selector: 'app-root' })",
+      'export class AppComponent {',
+      '  private readonly translate = inject(TranslateService);',
+      "  label = this.translate.instant('label');",
+      '}',
+    ].join('\n'));
+  });
+
+  it('adds no import when no hook could be injected', async () => {
+    const manager = await createManager('angular');
+    const code = [
+      '@Injectable()',
+      'export class Service {',
+      '  constructor(private translate: TranslateService) {}',
+      "  run() { return this.translate.instant('a'); }",
+      '}',
+    ].join('\n');
+
+    expect(applyAutoImport(manager, code, 'src/app/service.ts')).toBe(code);
+  });
+
+  it('injects useTranslation into custom hooks in plain .ts files', async () => {
+    const manager = await createManager('react-i18next');
+    const code = [
+      "import { useMemo } from 'react';",
+      '',
+      'export function useStatusLabel(status: string) {',
+      "  return useMemo(() => t('status.' + status), [status]);",
+      '}',
+    ].join('\n');
+
+    expect(applyAutoImport(manager, code, 'src/hooks/useStatusLabel.ts')).toBe([
+      "import { useMemo } from 'react';",
+      "import { useTranslation } from 'react-i18next';",
+      '',
+      'export function useStatusLabel(status: string) {',
+      '  const { t } = useTranslation();',
+      "  return useMemo(() => t('status.' + status), [status]);",
+      '}',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CommandReporter } from '../../src/utils/command-report.js';
+import { MemoryFileSystem } from '../../src/utils/file-system.js';
+
+const REPORT_FILE = '/project/reports/extract.json';
+
+describe('CommandReporter', () => {
+  let fileSystem: MemoryFileSystem;
+
+  beforeEach(() => {
+    fileSystem = new MemoryFileSystem();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes the report only once', async () => {
+    const reporter = new CommandReporter('extract', { report: REPORT_FILE }, fileSystem);
+    reporter.begin();
+
+    expect(await reporter.finish(0, { files: 1 })).toMatchObject({ exitCode: 0 });
+    expect(await reporter.finish(1, undefined, new Error('处理失败'))).toBeNull();
+    expect(JSON.parse(await fileSystem.readFile(REPORT_FILE))).toMatchObject({ success: true, exitCode: 0 });
+  });
+
+  it('does not throw when the report cannot be written on the error path', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(fileSystem, 'writeFile').mockRejectedValue(new Error('磁盘已满'));
+    const reporter = new CommandReporter('extract', { report: REPORT_FILE }, fileSystem);
+    reporter.begin();
+
+    await expect(reporter.finish(0, { files: 1 })).rejects.toThrow('写入报告失败: 磁盘已满');
+
+    const report = await reporter.finish(1, undefined, new Error('写入报告失败'));
+    expect(report).toMatchObject({ success: false, exitCode: 1 });
+    expect(errorSpy).toHaveBeenCalledWith('写入报告失败: 磁盘已满');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from '../../src/utils/diff.js';
+
+describe('createUnifiedDiff', () => {
+  it('shows changed lines with three lines of context', () => {
+    const oldText = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'].join('\n');
+    const newText = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h', 'i'].join('\n');
+
+    expect(createUnifiedDiff(oldText, newText, 'src/App.tsx')).toBe([
+      '--- a/src/App.tsx',
+      '+++ b/src/App.tsx',
+      '@@ -2,7 +2,7 @@',
+      ' b',
+      ' c',
+      ' d',
+      '-e',
+      '+E',
+      ' f',
+      ' g',
+      ' h',
+    ].join('\n'));
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `line${i + 1}`);
+    const newText = [...oldText];
+    newText[0] = 'first';
+    newText[19] = 'last';
+
+    const diff = createUnifiedDiff(oldText.join('\n'), newText.join('\n'), 'a.ts');
+
+    expect(diff.split('\n').filter(line => line.startsWith('@@'))).toEqual([
+      '@@ -1,4 +1,4 @@',
+      '@@ -17,4 +17,4 @@',
+    ]);
+  });
+
+  it('returns an empty string when nothing changed', () => {
+    expect(createUnifiedDiff('a\n', 'a\n', 'a.ts')).toBe('');
+  });
+});
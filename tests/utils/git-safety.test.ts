@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { GitSafetyGuard } from '../../src/utils/git-safety.js';
+import { GitService } from '../../src/utils/git.js';
+import { createTempProject, removeTempProject } from '../helpers/project.js';
+
+describe('GitSafetyGuard', () => {
+  let root: string;
+  let git: GitService;
+  let guard: GitSafetyGuard;
+
+  beforeEach(async () => {
+    root = await fs.realpath(await createTempProject({
+      'src/App.tsx': "const title = '标题';\n",
+      'src/util.ts': "export const name = '名称';\n",
+    }));
+    git = new GitService(root);
+    guard = new GitSafetyGuard(git);
+  });
+
+  afterEach(async () => {
+    await removeTempProject(root);
+  });
+
+  async function initRepository(): Promise<void> {
+    await git.run(['init', '-q']);
+    await git.run(['config', 'user.email', 'test@example.com']);
+    await git.run(['config', 'user.name', 'test']);
+    await git.run(['add', '-A']);
+    await git.run(['commit', '-q', '-m', 'init']);
+  }
+
+  it('rejects git-only options outside a repository', async () => {
+    expect(await guard.check([path.join(root, 'src/App.tsx')], {})).toEqual({ isRepository: false, dirtyFiles: [] });
+    await expect(guard.check([], { commit: true })).rejects.toThrow('当前目录不是 Git 仓库');
+  });
+
+  it('refuses to rewrite target files with uncommitted changes', async () => {
+    await initRepository();
+    const appPath = path.join(root, 'src/App.tsx');
+    await fs.appendFile(appPath, "const extra = '额外';\n");
+
+    await expect(guard.check([appPath], {})).rejects.toThrow('以下待处理文件存在未提交的修改');
+    expect(await guard.check([appPath], { allowDirty: true })).toEqual({ isRepository: true, dirtyFiles: [appPath] });
+    expect(await guard.check([path.join(root, 'src/util.ts')], {})).toEqual({ isRepository: true, dirtyFiles: [] });
+    await expect(guard.check([], { requireClean: true })).rejects.toThrow('--require-clean 要求工作区干净');
+  });
+
+  it('stashes uncommitted changes of the target files', async () => {
+    await initRepository();
+    const appPath = path.join(root, 'src/App.tsx');
+    await fs.appendFile(appPath, "const extra = '额外';\n");
+
+    const { dirtyFiles } = await guard.check([appPath], { stash: true });
+    await guard.stash(dirtyFiles);
+
+    expect(await fs.readFile(appPath, 'utf-8')).toBe("const title = '标题';\n");
+    expect(await git.getDirtyFiles()).toEqual([]);
+  });
+});
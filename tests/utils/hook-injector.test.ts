@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { HookInjector, parseHookStatement } from '../../src/utils/hook-injector.js';
+
+const ANGULAR_HOOK = 'private readonly translate = inject(TranslateService);';
+
+describe('parseHookStatement', () => {
+  it('reads variable declarations and class properties', () => {
+    expect(parseHookStatement('const { t, i18n: instance } = useTranslation();'))
+      .toEqual({ kind: 'variable', names: ['t', 'instance'] });
+    expect(parseHookStatement(ANGULAR_HOOK)).toEqual({ kind: 'classProperty', names: ['translate'] });
+    expect(parseHookStatement('useI18n(')).toBeNull();
+  });
+});
+
+describe('HookInjector for Vue setup()', () => {
+  const injector = new HookInjector('const { t } = useI18n();');
+
+  it('injects the hook into setup() of an Options API component', () => {
+    const code = [
+      'export default {',
+      '  setup() {',
+      "    const msg = ref(t('hello'));",
+      '    return { msg };',
+      '  },',
+      '};',
+    ].join('\n');
+
+    expect(injector.inject(code, '.js', 'vueSetup')).toBe([
+      'export default {',
+      '  setup() {',
+      '    const { t } = useI18n();',
+      "    const msg = ref(t('hello'));",
+      '    return { msg };',
+      '  },',
+      '};',
+    ].join('\n'));
+  });
+
+  it('leaves setup() alone when it already declares t and ignores other functions', () => {
+    const declared = 'export default { setup() { const { t } = useI18n(); return { a: t(\'a\') }; } };';
+    const outside = "export default { methods: { go() { return t('a'); } } };";
+
+    expect(injector.inject(declared, '.js', 'vueSetup')).toBe(declared);
+    expect(injector.inject(outside, '.js', 'vueSetup')).toBe(outside);
+  });
+});
+
+describe('HookInjector for Angular classes', () => {
+  const injector = new HookInjector(ANGULAR_HOOK);
+
+  it('injects the service property into decorated classes that use it', () => {
+    const code = [
+      "@Component({ selector: 'app-root' })",
+      'export class AppComponent {',
+      "  label = this.translate.instant('label');",
+      '}',
+    ].join('\n');
+
+    expect(injector.inject(code, '.ts')).toBe([
+      "@Component({ selector: 'app-root' })",
+      'export class AppComponent {',
+      `  ${ANGULAR_HOOK}`,
+      "  label = this.translate.instant('label');",
+      '}',
+    ].join('\n'));
+  });
+
+  it('skips classes that already declare the service or are not decorated', () => {
+    const injected = [
+      '@Injectable()',
+      'export class Service {',
+      '  constructor(private translate: TranslateService) {}',
+      "  run() { return this.translate.instant('a'); }",
+      '}',
+    ].join('\n');
+    const plain = "class Plain { run() { return this.translate.instant('a'); } }";
+
+    expect(injector.inject(injected, '.ts')).toBe(injected);
+    expect(injector.inject(plain, '.ts')).toBe(plain);
+  });
+});
+
+describe('HookInjector for React components', () => {
+  const injector = new HookInjector('const { t } = useTranslation();');
+
+  it('injects the hook once into each component and custom hook that calls t', () => {
+    const code = [
+      'export function Title() {',
+      "  return <h1>{t('title')}</h1>;",
+      '}',
+      '',
+      "export const useLabel = () => t('label');",
+      '',
+      "export const format = () => t('not.a.component');",
+    ].join('\n');
+
+    expect(injector.inject(code, '.tsx')).toBe([
+      'export function Title() {',
+      '  const { t } = useTranslation();',
+      "  return <h1>{t('title')}</h1>;",
+      '}',
+      '',
+      'export const useLabel = () => {',
+      '  const { t } = useTranslation();',
+      "  return t('label');",
+      '};',
+      '',
+      "export const format = () => t('not.a.component');",
+    ].join('\n'));
+  });
+
+  it('handles memo-wrapped components and skips components that already declare t', () => {
+    const code = [
+      "const Card = memo(() => <p>{t('card')}</p>);",
+      'function Done() {',
+      '  const { t } = useTranslation();',
+      "  return t('done');",
+      '}',
+    ].join('\n');
+
+    expect(injector.inject(code, '.tsx')).toBe([
+      'const Card = memo(() => {',
+      '  const { t } = useTranslation();',
+      "  return <p>{t('card')}</p>;",
+      '});',
+      'function Done() {',
+      '  const { t } = useTranslation();',
+      "  return t('done');",
+      '}',
+    ].join('\n'));
+  });
+});
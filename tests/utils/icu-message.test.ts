@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { hasIcuArguments, parseIcuMessage } from '../../src/utils/icu-message.js';
+
+describe('ICU messages', () => {
+  it('detects plural, selectordinal and select arguments', () => {
+    expect(hasIcuArguments('{count, plural, other {# files}}')).toBe(true);
+    expect(hasIcuArguments('{gender, select, other {they}}')).toBe(true);
+    expect(hasIcuArguments('Hello, {name}')).toBe(false);
+  });
+
+  it('parses plural options including exact matches and pound signs', () => {
+    expect(parseIcuMessage('{count, plural, =0 {无} one {# file} other {# files}}')).toEqual([{
+      type: 'plural',
+      name: 'count',
+      ordinal: false,
+      offset: 0,
+      options: {
+        '=0': [{ type: 'literal', value: '无' }],
+        one: [{ type: 'pound' }, { type: 'literal', value: ' file' }],
+        other: [{ type: 'pound' }, { type: 'literal', value: ' files' }],
+      },
+    }]);
+  });
+
+  it('throws on unterminated messages', () => {
+    expect(() => parseIcuMessage('{count, plural, one {# file}')).toThrow('参数 count 的选项格式不正确');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { KeyGenerator } from '../../src/utils/key-generator.js';
+import { DEFAULT_CONFIG } from '../../src/config/defaults.js';
+
+describe('KeyGenerator seeding', () => {
+  it('reuses keys of texts already in the source locale file', () => {
+    const generator = new KeyGenerator(DEFAULT_CONFIG.keyGeneration);
+    generator.loadExistingEntries({ 'common.save_btn': '保存', bao_cun: '存储' });
+
+    expect(generator.generateKey('保存')).toBe('common.save_btn');
+    expect(generator.generateKey('保存', 'common')).toBe('common.save_btn');
+    expect(generator.generateKey('存储')).toBe('bao_cun');
+  });
+
+  it('does not hand out an existing key to a different text', () => {
+    const generator = new KeyGenerator(DEFAULT_CONFIG.keyGeneration);
+    generator.loadExistingEntries({ bao_cun: '存储' });
+
+    const key = generator.generateKey('宝存');
+
+    expect(key).not.toBe('bao_cun');
+    expect(key).toMatch(/^bao_cun_[0-9a-f]{6}$/);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { findKeyReferences } from '../../src/utils/key-references.js';
+
+describe('findKeyReferences', () => {
+  it('finds keys passed to every call form and rich-text components', () => {
+    const code = [
+      "t('home.title');",
+      'i18n.t("home.subtitle", { name });',
+      '<p>{{ $t(`home.footer`) }}</p>',
+      '<Trans i18nKey="home.rich" />',
+    ].join('\n');
+
+    expect(findKeyReferences(code, ['i18n.t', '$t', 't'])).toEqual([
+      'home.title',
+      'home.subtitle',
+      'home.footer',
+      'home.rich',
+    ]);
+  });
+
+  it('ignores member calls and identifiers that only end with the function name', () => {
+    const code = [
+      "foo.t('not.a.key');",
+      "format('not.a.key');",
+      "obj.$t('not.a.key');",
+      "t('real.key');",
+    ].join('\n');
+
+    expect(findKeyReferences(code, ['$t', 't'])).toEqual(['real.key']);
+  });
+
+  it('finds keys passed to the function through this', () => {
+    const code = [
+      "this.$t('options.title');",
+      "vm.$t('not.a.key');",
+    ].join('\n');
+
+    expect(findKeyReferences(code, ['$t', 't'])).toEqual(['options.title']);
+  });
+
+  it('skips template literal keys with interpolation', () => {
+    expect(findKeyReferences('t(`status.${value}`);', 't')).toEqual([]);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { flattenMessages, unflattenMessages } from '../../src/utils/locale-structure.js';
+
+describe('locale structure', () => {
+  it('round-trips dotted keys through the nested structure', () => {
+    const flat = { 'user.name': '用户名', 'user.profile.age': '年龄', title: '标题' };
+    const nested = unflattenMessages(flat);
+
+    expect(nested).toEqual({ user: { name: '用户名', profile: { age: '年龄' } }, title: '标题' });
+    expect(flattenMessages(nested)).toEqual(flat);
+  });
+
+  it('keeps keys that conflict with a text node dotted in either order', () => {
+    for (const flat of [{ a: 'A', 'a.b': 'AB' }, { 'a.b': 'AB', a: 'A' }]) {
+      const nested = unflattenMessages(flat);
+
+      expect(nested).toEqual({ a: 'A', 'a.b': 'AB' });
+      expect(flattenMessages(nested)).toEqual(flat);
+    }
+  });
+});
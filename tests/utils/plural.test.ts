@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPluralCategories,
+  requiresPlural,
+  findNumericPlaceholders,
+  collectPluralPlaceholders,
+} from '../../src/utils/plural.js';
+import { loadTestConfig } from '../helpers/config.js';
+
+describe('plural helpers', () => {
+  it('reads CLDR plural categories', () => {
+    expect(getPluralCategories('en-US')).toEqual(['one', 'other']);
+    expect(getPluralCategories('ru')).toEqual(['few', 'many', 'one', 'other']);
+    expect(requiresPlural('zh-CN')).toBe(false);
+    expect(requiresPlural('en-US')).toBe(true);
+  });
+
+  it('finds placeholders that count things but not ordinals', () => {
+    expect(findNumericPlaceholders('共{total}条，已选{n}个，{name}的文件')).toEqual(['total', 'n']);
+    expect(findNumericPlaceholders('第{page}页，共{pages}页')).toEqual(['pages']);
+  });
+
+  it('collects plural placeholders only for ICU output with {x} syntax', () => {
+    const texts = { files: '共{count}个文件', title: '标题' };
+
+    expect(collectPluralPlaceholders(texts, { placeholderSyntax: '{x}', pluralFormat: 'icu' })).toEqual({ files: ['count'] });
+    expect(collectPluralPlaceholders(texts, { placeholderSyntax: '{{x}}', pluralFormat: 'icu' })).toEqual({});
+    expect(collectPluralPlaceholders(texts, { placeholderSyntax: '{x}', pluralFormat: 'none' })).toEqual({});
+  });
+
+  it('disables ICU plurals in the vue-i18n preset', async () => {
+    const vueConfig = await loadTestConfig({ replacement: { framework: 'vue-i18n' } });
+    const nextConfig = await loadTestConfig({ replacement: { framework: 'next-intl' } });
+
+    expect(collectPluralPlaceholders({ files: '共{count}个文件' }, vueConfig.replacement)).toEqual({});
+    expect(collectPluralPlaceholders({ files: '共{count}个文件' }, nextConfig.replacement)).toEqual({ files: ['count'] });
+  });
+});
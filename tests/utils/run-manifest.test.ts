@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RunManifest } from '../../src/utils/run-manifest.js';
+import { MemoryFileSystem } from '../../src/utils/file-system.js';
+import type { ScanResult } from '../../src/scanner/types.js';
+
+const file: ScanResult = {
+  filePath: '/project/src/App.tsx',
+  fileType: '.tsx',
+  relativePath: 'src\\App.tsx',
+  size: 0,
+  mtime: new Date(0),
+};
+
+describe('RunManifest', () => {
+  let fileSystem: MemoryFileSystem;
+
+  beforeEach(async () => {
+    fileSystem = new MemoryFileSystem();
+    await fileSystem.writeFile(file.filePath, 'const a = 1;');
+  });
+
+  it('treats unrecorded files as changed', async () => {
+    const manifest = new RunManifest('/project/.cache', fileSystem);
+    await manifest.load();
+
+    expect(manifest.has(file)).toBe(false);
+    expect(await manifest.isChanged(file)).toBe(true);
+    expect(manifest.getLastRunAt()).toBeNull();
+  });
+
+  it('detects content changes after a saved run', async () => {
+    const manifest = new RunManifest('/project/.cache', fileSystem);
+    manifest.record(file, 'const a = 1;');
+    await manifest.save(1000);
+
+    const reloaded = new RunManifest('/project/.cache', fileSystem);
+    await reloaded.load();
+    expect(reloaded.getLastRunAt()).toEqual(new Date(1000));
+    expect(await reloaded.isChanged(file)).toBe(false);
+
+    await fileSystem.writeFile(file.filePath, 'const a = 2;');
+    expect(await reloaded.isChanged(file)).toBe(true);
+  });
+
+  it('stores paths with forward slashes', async () => {
+    const manifest = new RunManifest('/project/.cache', fileSystem);
+    manifest.record(file, 'const a = 1;');
+    await manifest.save();
+
+    const data = JSON.parse(await fileSystem.readFile('/project/.cache/run-manifest.json'));
+    expect(Object.keys(data.files)).toEqual(['src/App.tsx']);
+  });
+});
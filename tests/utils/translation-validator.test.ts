@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { TranslationValidator } from '../../src/utils/translation-validator.js';
+
+describe('TranslationValidator', () => {
+  it('accepts translations that keep every placeholder', () => {
+    const result = TranslationValidator.validate(
+      { welcome: '欢迎, {{name}}', count: '共%d条' },
+      { welcome: 'Welcome, {{name}}', count: '%d items' }
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.translations).toEqual({ welcome: 'Welcome, {{name}}', count: '%d items' });
+  });
+
+  it('reports missing, empty and malformed entries and ignores extra keys', () => {
+    const result = TranslationValidator.validate(
+      { a: '甲', b: '乙', c: '丙' },
+      { b: '  ', c: 42, extra: 'Extra' }
+    );
+
+    expect(result.translations).toEqual({});
+    expect(result.issues).toEqual([
+      { key: 'a', reason: '缺少翻译' },
+      { key: 'b', reason: '翻译为空或格式不正确' },
+      { key: 'c', reason: '翻译为空或格式不正确' },
+    ]);
+  });
+
+  it('reports missing and extra placeholders', () => {
+    expect(TranslationValidator.checkEntry('你好, {name}', 'Hello, {user}'))
+      .toBe('占位符不一致: 缺少 {name}, 多出 {user}');
+  });
+});
+
+describe('TranslationValidator ICU checks', () => {
+  it('requires ICU plural for counted placeholders in locales with plural forms', () => {
+    expect(TranslationValidator.checkEntry('共{count}个文件', '{count} files', 'en-US', ['count']))
+      .toBe('数量占位符 {count} 需要使用 ICU plural 格式');
+    expect(TranslationValidator.checkEntry(
+      '共{count}个文件',
+      '{count, plural, one {# file} other {# files}}',
+      'en-US',
+      ['count']
+    )).toBeNull();
+    expect(TranslationValidator.checkEntry('共{count}个文件', '共{count}个文件', 'ja', ['count'])).toBeNull();
+  });
+
+  it('checks plural categories against the target locale', () => {
+    expect(TranslationValidator.checkIcu('{count, plural, one {# файл} other {# файлов}}', 'ru'))
+      .toBe('{count} 的复数类别与 ru 的 CLDR 规则不一致: 缺少 few, many');
+    expect(TranslationValidator.checkIcu('{count, plural, one {# file}', 'en-US')).toMatch(/^ICU 语法错误/);
+  });
+});
+
+describe('TranslationValidator rich-text tags', () => {
+  it('requires every tag of the source text to be kept and balanced', () => {
+    expect(TranslationValidator.checkEntry('点击<0>这里</0>查看', 'Click <0>here</0> to view')).toBeNull();
+    expect(TranslationValidator.checkEntry('点击<0>这里</0>查看', 'Click here to view'))
+      .toBe('标签与原文不一致: 缺少 <0>, 缺少 </0>');
+    expect(TranslationValidator.checkEntry('点击<0>这里</0>查看', 'Click </0>here<0> to view')).toBe('标签未正确闭合');
+  });
+});